@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "order_status_history" (
+    "id" SERIAL NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "old_status_id" INTEGER,
+    "new_status_id" INTEGER NOT NULL,
+    "actor_id" INTEGER,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_order_id_idx" ON "order_status_history"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_old_status_id_fkey" FOREIGN KEY ("old_status_id") REFERENCES "order_status"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_new_status_id_fkey" FOREIGN KEY ("new_status_id") REFERENCES "order_status"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+-- Prisma cannot describe generated columns, the expressions below are maintained by hand
+ALTER TABLE "author" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("firstName", '') || ' ' || coalesce("lastName", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "book" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "author_search_vector_idx" ON "author" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "book_search_vector_idx" ON "book" USING GIN ("search_vector");
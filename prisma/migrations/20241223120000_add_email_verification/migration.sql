@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "crm_email" ADD COLUMN "verified_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "email_verification_token" (
+    "id" SERIAL NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "crm_email_id" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "used_at" TIMESTAMP(3),
+
+    CONSTRAINT "email_verification_token_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_verification_token_token_hash_key" ON "email_verification_token"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "email_verification_token_crm_email_id_idx" ON "email_verification_token"("crm_email_id");
+
+-- AddForeignKey
+ALTER TABLE "email_verification_token" ADD CONSTRAINT "email_verification_token_crm_email_id_fkey" FOREIGN KEY ("crm_email_id") REFERENCES "crm_email"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep only the oldest main email of every CRM card before enforcing a single one
+UPDATE "crm_email" SET "is_main" = false
+WHERE "is_main" AND "id" NOT IN (
+    SELECT MIN("id") FROM "crm_email" WHERE "is_main" GROUP BY "crm_crard_id"
+);
+
+-- CreateIndex
+-- Partial unique index, Prisma cannot describe it in the schema
+CREATE UNIQUE INDEX "crm_email_crm_crard_id_main_key" ON "crm_email"("crm_crard_id") WHERE "is_main";
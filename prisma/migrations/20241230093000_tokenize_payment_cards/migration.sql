@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "crm_payment" ADD COLUMN "brand" TEXT,
+ADD COLUMN "last4" TEXT,
+ADD COLUMN "token" TEXT;
+
+-- Existing cards keep only their last digits. They were never tokenized,
+-- so they get a placeholder token that no provider will accept and must be added again.
+UPDATE "crm_payment" SET
+    "last4" = RIGHT(REGEXP_REPLACE("card_number", '\D', '', 'g'), 4),
+    "brand" = 'unknown',
+    "token" = 'legacy_' || "id";
+
+ALTER TABLE "crm_payment" ALTER COLUMN "brand" SET NOT NULL,
+ALTER COLUMN "last4" SET NOT NULL,
+ALTER COLUMN "token" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "crm_payment" DROP COLUMN "card_number";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crm_payment_token_key" ON "crm_payment"("token");
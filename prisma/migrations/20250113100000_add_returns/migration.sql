@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN "refunded_amount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "return_request" (
+    "id" SERIAL NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'requested',
+    "reason" TEXT,
+    "comment" TEXT,
+    "decided_by_id" INTEGER,
+    "decided_at" TIMESTAMP(3),
+    "refund_amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "return_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "return_item" (
+    "id" SERIAL NOT NULL,
+    "return_request_id" INTEGER NOT NULL,
+    "order_item_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "return_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refund" (
+    "id" SERIAL NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "payment_id" INTEGER,
+    "return_request_id" INTEGER,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "return_request_order_id_idx" ON "return_request"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_item_return_request_id_order_item_id_key" ON "return_item"("return_request_id", "order_item_id");
+
+-- CreateIndex
+CREATE INDEX "refund_order_id_idx" ON "refund"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_decided_by_id_fkey" FOREIGN KEY ("decided_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_item" ADD CONSTRAINT "return_item_return_request_id_fkey" FOREIGN KEY ("return_request_id") REFERENCES "return_request"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_item" ADD CONSTRAINT "return_item_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund" ADD CONSTRAINT "refund_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund" ADD CONSTRAINT "refund_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund" ADD CONSTRAINT "refund_return_request_id_fkey" FOREIGN KEY ("return_request_id") REFERENCES "return_request"("id") ON DELETE SET NULL ON UPDATE CASCADE;
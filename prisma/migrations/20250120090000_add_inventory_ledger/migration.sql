@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "stock_movement" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stock_after" INTEGER NOT NULL,
+    "order_id" INTEGER,
+    "return_request_id" INTEGER,
+    "actor_id" INTEGER,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_reservation" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_reservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movement_book_id_created_at_idx" ON "stock_movement"("book_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_reservation_order_id_idx" ON "stock_reservation"("order_id");
+
+-- CreateIndex
+CREATE INDEX "stock_reservation_status_expires_at_idx" ON "stock_reservation"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_return_request_id_fkey" FOREIGN KEY ("return_request_id") REFERENCES "return_request"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_reservation" ADD CONSTRAINT "stock_reservation_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_reservation" ADD CONSTRAINT "stock_reservation_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Opening balance, so the ledger of every book adds up to its current stock
+INSERT INTO "stock_movement" ("book_id", "type", "quantity", "stock_after", "comment")
+SELECT "id", 'adjustment', "stock", "stock", 'Opening balance' FROM "book";
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "book" ADD COLUMN "reorder_threshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "stock_alert" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "stock" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "snoozed_until" TIMESTAMP(3),
+    "acknowledged_by_id" INTEGER,
+    "acknowledged_at" TIMESTAMP(3),
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_alert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_alert_status_idx" ON "stock_alert"("status");
+
+-- CreateIndex
+CREATE INDEX "stock_alert_book_id_idx" ON "stock_alert"("book_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_alert" ADD CONSTRAINT "stock_alert_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_alert" ADD CONSTRAINT "stock_alert_acknowledged_by_id_fkey" FOREIGN KEY ("acknowledged_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "stock_movement" ADD COLUMN "purchase_order_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "purchase_order" (
+    "id" SERIAL NOT NULL,
+    "publisher_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "expected_at" TIMESTAMP(3),
+    "ordered_at" TIMESTAMP(3),
+    "comment" TEXT,
+    "created_by_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "purchase_order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchase_order_line" (
+    "id" SERIAL NOT NULL,
+    "purchase_order_id" INTEGER NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "received_quantity" INTEGER NOT NULL DEFAULT 0,
+    "cost_price" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "purchase_order_line_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "purchase_order_publisher_id_idx" ON "purchase_order"("publisher_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_line_purchase_order_id_book_id_key" ON "purchase_order_line"("purchase_order_id", "book_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_publisher_id_fkey" FOREIGN KEY ("publisher_id") REFERENCES "publishers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_line" ADD CONSTRAINT "purchase_order_line_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_line" ADD CONSTRAINT "purchase_order_line_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "book" ADD COLUMN "isbn_10" TEXT,
+ADD COLUMN "isbn_13" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "book_isbn_13_key" ON "book"("isbn_13");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "book_contributor" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "author_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'author',
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "book_contributor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "book_contributor_author_id_idx" ON "book_contributor"("author_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "book_contributor_book_id_author_id_role_key" ON "book_contributor"("book_id", "author_id", "role");
+
+-- AddForeignKey
+ALTER TABLE "book_contributor" ADD CONSTRAINT "book_contributor_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_contributor" ADD CONSTRAINT "book_contributor_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "author"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every book with an author gets it as its first contributor, book.author_id stays as the primary author
+INSERT INTO "book_contributor" ("book_id", "author_id", "role", "position")
+SELECT "id", "author_id", 'author', 0 FROM "book" WHERE "author_id" IS NOT NULL;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "parent_id" INTEGER,
+ADD COLUMN "path" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "slug" TEXT;
+
+-- Existing categories become roots, repeated names get the first free numbered slug
+UPDATE "categories" SET "path" = '/' || "id" || '/';
+
+UPDATE "categories" SET "slug" = coalesce(nullif(trim(both '-' from regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g')), ''), 'category');
+
+-- A numbered slug must not be taken by any other category, e.g. "Fiction 2" next to two "Fiction"
+DO $$
+DECLARE
+    category RECORD;
+    candidate TEXT;
+    n INTEGER;
+BEGIN
+    FOR category IN SELECT "id", "slug" FROM "categories" ORDER BY "id" LOOP
+        IF EXISTS (SELECT 1 FROM "categories" WHERE "slug" = category."slug" AND "id" < category."id") THEN
+            n := 2;
+            candidate := category."slug" || '-' || n;
+            WHILE EXISTS (SELECT 1 FROM "categories" WHERE "slug" = candidate) LOOP
+                n := n + 1;
+                candidate := category."slug" || '-' || n;
+            END LOOP;
+            UPDATE "categories" SET "slug" = candidate WHERE "id" = category."id";
+        END IF;
+    END LOOP;
+END $$;
+
+ALTER TABLE "categories" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_slug_key" ON "categories"("slug");
+
+-- CreateIndex
+CREATE INDEX "categories_parent_id_idx" ON "categories"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "categories_path_idx" ON "categories"("path" text_pattern_ops);
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
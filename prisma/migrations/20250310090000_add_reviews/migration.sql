@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "book" ADD COLUMN     "rating_average" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "rating_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "review" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "body" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "verified_purchase" BOOLEAN NOT NULL DEFAULT false,
+    "moderated_by_id" INTEGER,
+    "moderated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "book_rating_average_idx" ON "book"("rating_average");
+
+-- CreateIndex
+CREATE INDEX "review_status_idx" ON "review"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_book_id_user_id_key" ON "review"("book_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "review" ADD CONSTRAINT "review_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review" ADD CONSTRAINT "review_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review" ADD CONSTRAINT "review_moderated_by_id_fkey" FOREIGN KEY ("moderated_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Ratings are one to five stars
+ALTER TABLE "review" ADD CONSTRAINT "review_rating_check" CHECK ("rating" BETWEEN 1 AND 5);
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "wishlist" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "share_token_hash" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wishlist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wishlist_item" (
+    "id" SERIAL NOT NULL,
+    "wishlist_id" INTEGER NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "note" TEXT,
+    "added_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wishlist_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_subscription" (
+    "id" SERIAL NOT NULL,
+    "book_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "triggered_at" TIMESTAMP(3),
+    "notified_at" TIMESTAMP(3),
+
+    CONSTRAINT "stock_subscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlist_share_token_hash_key" ON "wishlist"("share_token_hash");
+
+-- CreateIndex
+CREATE INDEX "wishlist_user_id_idx" ON "wishlist"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlist_item_wishlist_id_book_id_key" ON "wishlist_item"("wishlist_id", "book_id");
+
+-- CreateIndex
+CREATE INDEX "stock_subscription_status_idx" ON "stock_subscription"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_subscription_book_id_user_id_key" ON "stock_subscription"("book_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "wishlist" ADD CONSTRAINT "wishlist_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wishlist_item" ADD CONSTRAINT "wishlist_item_wishlist_id_fkey" FOREIGN KEY ("wishlist_id") REFERENCES "wishlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wishlist_item" ADD CONSTRAINT "wishlist_item_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_subscription" ADD CONSTRAINT "stock_subscription_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_subscription" ADD CONSTRAINT "stock_subscription_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN     "discount_amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal_amount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "discount_amount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promotion" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "discount_type" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'order',
+    "scope_id" INTEGER,
+    "min_order_total" DOUBLE PRECISION,
+    "usage_limit" INTEGER,
+    "usage_limit_per_user" INTEGER,
+    "usage_count" INTEGER NOT NULL DEFAULT 0,
+    "starts_at" TIMESTAMP(3),
+    "ends_at" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promotion_redemption" (
+    "id" SERIAL NOT NULL,
+    "promotion_id" INTEGER NOT NULL,
+    "order_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'applied',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotion_redemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_item_discount" (
+    "id" SERIAL NOT NULL,
+    "order_item_id" INTEGER NOT NULL,
+    "promotion_id" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "order_item_discount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotion_code_key" ON "promotion"("code");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemption_promotion_id_user_id_idx" ON "promotion_redemption"("promotion_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotion_redemption_promotion_id_order_id_key" ON "promotion_redemption"("promotion_id", "order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_item_discount_order_item_id_promotion_id_key" ON "order_item_discount"("order_item_id", "promotion_id");
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemption" ADD CONSTRAINT "promotion_redemption_promotion_id_fkey" FOREIGN KEY ("promotion_id") REFERENCES "promotion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemption" ADD CONSTRAINT "promotion_redemption_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemption" ADD CONSTRAINT "promotion_redemption_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item_discount" ADD CONSTRAINT "order_item_discount_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item_discount" ADD CONSTRAINT "order_item_discount_promotion_id_fkey" FOREIGN KEY ("promotion_id") REFERENCES "promotion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Orders placed before promotions were paid in full
+UPDATE "order" SET "subtotal_amount" = "total_amount";
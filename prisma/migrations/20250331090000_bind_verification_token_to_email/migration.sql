@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "email_verification_token" ADD COLUMN     "email" TEXT;
+
+UPDATE "email_verification_token" t SET "email" = e."email" FROM "crm_email" e WHERE e."id" = t."crm_email_id";
+
+-- Pending tokens may have been sent to an earlier address, a new one can be requested
+UPDATE "email_verification_token" SET "used_at" = CURRENT_TIMESTAMP WHERE "used_at" IS NULL;
+
+-- AlterTable
+ALTER TABLE "email_verification_token" ALTER COLUMN "email" SET NOT NULL;
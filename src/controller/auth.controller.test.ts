@@ -0,0 +1,164 @@
+import { CrmEmail, PasswordResetToken, Prisma, User } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { hashToken } from '../utils/jwt';
+import { MemoryNotifier, setNotifier } from '../utils/notifier';
+import { changePassword, forgotPassword, refresh, resetPassword } from './auth.controller';
+
+vi.mock('../utils/prisma');
+
+type StoredRefreshToken = Prisma.RefreshTokenGetPayload<{ include: { session: { include: { user: true } } } }>;
+
+const user: User = { id: 1, login: 'reader', password: 'hash' };
+
+const stored = (fields: { used_at?: Date | null; expires_at?: Date; revoked_at?: Date | null } = {}): StoredRefreshToken => ({
+    id: 7,
+    token_hash: hashToken('old-token'),
+    session_id: 'session-1',
+    expires_at: fields.expires_at ?? new Date(Date.now() + 60000),
+    created_at: new Date(),
+    used_at: fields.used_at ?? null,
+    session: { id: 'session-1', user_id: 1, created_at: new Date(), revoked_at: fields.revoked_at ?? null, user },
+});
+
+describe('refresh', () => {
+    it('uses up the token and issues the next one of the session', async () => {
+        prisma.refreshToken.findUnique.mockResolvedValue(stored());
+        prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+        const result = await refresh('old-token');
+
+        expect(prisma.refreshToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { token_hash: hashToken('old-token') } }));
+        expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({ where: { id: 7, used_at: null }, data: { used_at: expect.any(Date) } });
+        expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+            data: { token_hash: hashToken(result.refresh_token), session_id: 'session-1', expires_at: expect.any(Date) },
+        });
+        expect(result.refresh_token).not.toBe('old-token');
+        expect(result.token).toEqual(expect.any(String));
+        expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when a used token comes back', async () => {
+        prisma.refreshToken.findUnique.mockResolvedValue(stored({ used_at: new Date() }));
+
+        await expect(refresh('old-token')).rejects.toMatchObject({ status: 401, message: 'Refresh token reuse detected, session revoked' });
+        expect(prisma.session.updateMany).toHaveBeenCalledWith({ where: { id: 'session-1', revoked_at: null }, data: { revoked_at: expect.any(Date) } });
+        expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when a concurrent refresh used the token first', async () => {
+        prisma.refreshToken.findUnique.mockResolvedValue(stored());
+        prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(refresh('old-token')).rejects.toMatchObject({ status: 401 });
+        expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+        expect(prisma.session.updateMany).toHaveBeenCalled();
+    });
+
+    it('rejects unknown, expired and revoked tokens', async () => {
+        prisma.refreshToken.findUnique.mockResolvedValue(null);
+        await expect(refresh('other-token')).rejects.toMatchObject({ status: 401, message: 'Invalid refresh token' });
+
+        prisma.refreshToken.findUnique.mockResolvedValue(stored({ expires_at: new Date(Date.now() - 1000) }));
+        await expect(refresh('old-token')).rejects.toMatchObject({ status: 401, message: 'Refresh token expired' });
+
+        prisma.refreshToken.findUnique.mockResolvedValue(stored({ revoked_at: new Date() }));
+        await expect(refresh('old-token')).rejects.toMatchObject({ status: 401, message: 'Invalid refresh token' });
+
+        expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+});
+
+describe('forgotPassword', () => {
+    let notifier: MemoryNotifier;
+
+    beforeEach(() => {
+        notifier = new MemoryNotifier();
+        setNotifier(notifier);
+    });
+
+    const verifiedEmail: CrmEmail = { id: 3, email: 'reader@example.com', is_main: true, verified_at: new Date(), crm_crard_id: 2 };
+
+    it('sends a reset token to the verified email and stores only its hash', async () => {
+        prisma.user.findUnique.mockResolvedValue(user);
+        prisma.crmEmail.findFirst.mockResolvedValue(verifiedEmail);
+
+        await forgotPassword('reader');
+
+        expect(prisma.crmEmail.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { crm_card: { user_id: 1 }, verified_at: { not: null } } }));
+        expect(notifier.sent).toHaveLength(1);
+        expect(notifier.sent[0]).toMatchObject({ to: 'reader@example.com', subject: 'Password reset' });
+        const token = notifier.sent[0].text.split(' ').pop() ?? '';
+        expect(prisma.passwordResetToken.create).toHaveBeenCalledWith({
+            data: { token_hash: hashToken(token), user_id: 1, expires_at: expect.any(Date) },
+        });
+    });
+
+    it('ignores unknown logins and users without a verified email', async () => {
+        prisma.user.findUnique.mockResolvedValue(null);
+        await forgotPassword('nobody');
+
+        prisma.user.findUnique.mockResolvedValue(user);
+        prisma.crmEmail.findFirst.mockResolvedValue(null);
+        await forgotPassword('reader');
+
+        expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+        expect(notifier.sent).toEqual([]);
+    });
+});
+
+describe('resetPassword', () => {
+    const resetToken = (fields: Partial<PasswordResetToken> = {}): PasswordResetToken => ({
+        id: 5,
+        token_hash: hashToken('reset-token'),
+        user_id: 1,
+        expires_at: new Date(Date.now() + 60000),
+        created_at: new Date(),
+        used_at: null,
+        ...fields,
+    });
+
+    it('sets the password, voids the other tokens and revokes every session', async () => {
+        prisma.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+        prisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+
+        await resetPassword('reset-token', 'new-password');
+
+        expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({ where: { id: 5, used_at: null }, data: { used_at: expect.any(Date) } });
+        expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({ where: { user_id: 1, used_at: null }, data: { used_at: expect.any(Date) } });
+        expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { password: expect.not.stringMatching('new-password') } });
+        expect(prisma.session.updateMany).toHaveBeenCalledWith({ where: { user_id: 1, revoked_at: null, id: undefined }, data: { revoked_at: expect.any(Date) } });
+    });
+
+    it('rejects unknown, used and expired tokens', async () => {
+        prisma.passwordResetToken.findUnique.mockResolvedValue(null);
+        await expect(resetPassword('other-token', 'new-password')).rejects.toMatchObject({ status: 400 });
+
+        prisma.passwordResetToken.findUnique.mockResolvedValue(resetToken({ used_at: new Date() }));
+        await expect(resetPassword('reset-token', 'new-password')).rejects.toMatchObject({ status: 400 });
+
+        prisma.passwordResetToken.findUnique.mockResolvedValue(resetToken({ expires_at: new Date(Date.now() - 1000) }));
+        await expect(resetPassword('reset-token', 'new-password')).rejects.toMatchObject({ status: 400 });
+
+        expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('lets only one of two concurrent resets with the same token through', async () => {
+        prisma.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+        prisma.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(resetPassword('reset-token', 'new-password')).rejects.toMatchObject({ status: 400, message: 'Invalid or expired reset token' });
+        expect(prisma.user.update).not.toHaveBeenCalled();
+        expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('changePassword', () => {
+    it('answers 404 for a user that no longer exists', async () => {
+        prisma.user.findUnique.mockResolvedValue(null);
+
+        await expect(changePassword({ id: 1, sid: 'session-1' }, 'old-password', 'new-password')).rejects.toMatchObject({ status: 404 });
+        expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+});
@@ -1,20 +1,30 @@
 import bcrypt from 'bcrypt';
 import { User } from '@prisma/client';
+import { JwtPayload } from 'jsonwebtoken';
 
 import prisma from '../utils/prisma';
 import { exclude } from '../utils/func';
-import { generateToken } from '../utils/jwt';
+import { HttpError } from '../utils/errors';
+import { generateRefreshToken, generateToken, hashToken, randomToken } from '../utils/jwt';
+import { notify } from '../utils/notifier';
+import { createCrmEmail, notificationEmail } from './crmEmail.controller';
 
 
 
-export const signup = async (data: Omit<User, 'id'>) => {
-  const { login, password } = data;
-
+const hashPassword = (password: string) => {
   const saltRounds = 5;
   const salt = bcrypt.genSaltSync(saltRounds);
-  const hash = bcrypt.hashSync(password, salt);
+  return bcrypt.hashSync(password, salt);
+}
+
+/**
+ * Creates the user with a CRM card. An optional email becomes the main email of the card
+ * and gets a verification token.
+ */
+export const signup = async (data: Omit<User, 'id'> & { email?: string }) => {
+  const { login, password, email } = data;
 
-  const user = await prisma.user.create({ data: { login, password: hash } });
+  const user = await prisma.user.create({ data: { login, password: hashPassword(password) } });
   
   if (!user) {
     throw new Error('Error creating user');
@@ -31,7 +41,9 @@ export const signup = async (data: Omit<User, 'id'>) => {
     },
     include: { user_type: true }
   });
-  return { user: exclude(user, ['password']), user_crm: crmCard }
+  const crmEmail = email ? await createCrmEmail({ email, is_main: true, crm_crard_id: crmCard.id }) : null;
+
+  return { user: exclude(user, ['password']), user_crm: crmCard, email: crmEmail }
 }
 
 export const signin = async (data: Omit<User, 'id'>) => {
@@ -51,7 +63,169 @@ export const signin = async (data: Omit<User, 'id'>) => {
 
   const userCrmCard = await prisma.crmCard.findFirst({ where: { user_id: user.id }, include: { user_type: true } });
 
-  const token = generateToken(user);
+  const tokens = await createSession(user);
+
+  return { user: exclude(user, ['password']), user_crm: userCrmCard, ...tokens };
+}
+
+/**
+ * Opens a session for the user: a short-lived access token bound to the session
+ * and the first refresh token of its rotation chain.
+ */
+const createSession = async (user: User) => {
+  const refreshToken = generateRefreshToken();
+  const session = await prisma.session.create({
+    data: {
+      user_id: user.id,
+      RefreshToken: { create: { token_hash: refreshToken.token_hash, expires_at: refreshToken.expires_at } },
+    },
+  });
+
+  return { token: generateToken(user, session.id), refresh_token: refreshToken.token };
+}
+
+const revokeSession = async (sessionId: string) => {
+  await prisma.session.updateMany({ where: { id: sessionId, revoked_at: null }, data: { revoked_at: new Date() } });
+}
+
+const revokeUserSessions = async (userId: number, exceptSessionId?: string) => {
+  await prisma.session.updateMany({
+    where: { user_id: userId, revoked_at: null, id: exceptSessionId ? { not: exceptSessionId } : undefined },
+    data: { revoked_at: new Date() },
+  });
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * Every refresh token is single-use: presenting one that was already used means it leaked,
+ * so the whole session is revoked.
+ */
+export const refresh = async (refreshToken: string) => {
+  const record = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } },
+  });
+
+  if (!record || record.session.revoked_at) {
+    throw new HttpError(401, 'Invalid refresh token');
+  }
+  if (record.used_at) {
+    await revokeSession(record.session_id);
+    throw new HttpError(401, 'Refresh token reuse detected, session revoked');
+  }
+  if (record.expires_at < new Date()) {
+    throw new HttpError(401, 'Refresh token expired');
+  }
+
+  const next = generateRefreshToken();
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Conditional update, so two concurrent refreshes with the same token cannot both succeed
+    const used = await tx.refreshToken.updateMany({ where: { id: record.id, used_at: null }, data: { used_at: new Date() } });
+    if (!used.count) {
+      return false;
+    }
+    await tx.refreshToken.create({
+      data: { token_hash: next.token_hash, session_id: record.session_id, expires_at: next.expires_at },
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(record.session_id);
+    throw new HttpError(401, 'Refresh token reuse detected, session revoked');
+  }
+
+  return { token: generateToken(record.session.user, record.session_id), refresh_token: next.token };
+}
+
+/**
+ * Closes the session of the access token and puts the token itself on the revocation list
+ * until it expires.
+ */
+export const logout = async (payload: JwtPayload) => {
+  if (payload.sid) {
+    await revokeSession(payload.sid);
+  }
+  if (payload.jti && payload.exp) {
+    await prisma.revokedToken.upsert({
+      where: { jti: payload.jti },
+      update: {},
+      create: { jti: payload.jti, expires_at: new Date(payload.exp * 1000) },
+    });
+  }
+  await prisma.revokedToken.deleteMany({ where: { expires_at: { lt: new Date() } } });
+}
+
+const resetTokenMinutes = Number(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES) || 30;
+
+/**
+ * Sends a single-use reset token to the user's verified email, see `notificationEmail`. Unknown logins and
+ * users without a verified email are ignored silently, so the endpoint cannot be used to find out which accounts exist.
+ */
+export const forgotPassword = async (login: string) => {
+  const user = await prisma.user.findUnique({ where: { login } });
+  if (!user) {
+    return;
+  }
+  // Reset links only go to an address the user proved to own
+  const email = await notificationEmail(user.id);
+  if (!email) {
+    return;
+  }
+
+  const token = randomToken();
+  await prisma.passwordResetToken.create({
+    data: {
+      token_hash: hashToken(token),
+      user_id: user.id,
+      expires_at: new Date(Date.now() + resetTokenMinutes * 60 * 1000),
+    },
+  });
+
+  const link = process.env.PASSWORD_RESET_URL ? `${process.env.PASSWORD_RESET_URL}${token}` : token;
+
+  await notify({
+    to: email,
+    subject: 'Password reset',
+    text: `Use this to reset your password within ${resetTokenMinutes} minutes: ${link}`,
+  });
+}
+
+/**
+ * Sets a new password with a reset token. The token and every other pending token of the user
+ * become unusable and all sessions are revoked.
+ */
+export const resetPassword = async (token: string, password: string) => {
+  const record = await prisma.passwordResetToken.findUnique({ where: { token_hash: hashToken(token) } });
+  if (!record || record.used_at || record.expires_at < new Date()) {
+    throw new HttpError(400, 'Invalid or expired reset token');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const used = await tx.passwordResetToken.updateMany({ where: { id: record.id, used_at: null }, data: { used_at: new Date() } });
+    if (!used.count) {
+      throw new HttpError(400, 'Invalid or expired reset token');
+    }
+    await tx.passwordResetToken.updateMany({ where: { user_id: record.user_id, used_at: null }, data: { used_at: new Date() } });
+    await tx.user.update({ where: { id: record.user_id }, data: { password: hashPassword(password) } });
+  });
+  await revokeUserSessions(record.user_id);
+}
+
+/**
+ * Changes the password of the logged in user and revokes every other session.
+ */
+export const changePassword = async (payload: JwtPayload, oldPassword: string, newPassword: string) => {
+  const user = await prisma.user.findUnique({ where: { id: Number(payload.id) } });
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  const validatePassword = await bcrypt.compare(oldPassword, user.password);
+  if (!validatePassword) {
+    throw new HttpError(400, 'Invalid password');
+  }
 
-  return { user: exclude(user, ['password']), user_crm: userCrmCard, token };
+  await prisma.user.update({ where: { id: user.id }, data: { password: hashPassword(newPassword) } });
+  await revokeUserSessions(user.id, payload.sid);
 }
@@ -1,14 +1,32 @@
-import { Author } from "@prisma/client";
+import { Author, Book } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getAuthor = async () => {
-    const author = await prisma.author.findMany();
-    return author;
+export const getAuthor = async (list: ListQuery) => {
+    const [total, author] = await prisma.$transaction([
+        prisma.author.count(),
+        prisma.author.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, author, total);
 }
+/**
+ * The author with the books they contributed to, grouped by role and newest first.
+ */
 export const getAuthorById = async (id: number) => {
-    const author = await prisma.author.findUnique({ where: { id } });
-    return author;
+    const author = await prisma.author.findUnique({
+        where: { id },
+        include: { BookContributor: { include: { book: true }, orderBy: [{ book: { published_at: 'desc' } }, { book_id: 'asc' }] } },
+    });
+    if (!author) {
+        return null;
+    }
+    const { BookContributor, ...rest } = author;
+    const books: Record<string, Book[]> = {};
+    for (const { role, book } of BookContributor) {
+        books[role] = [...(books[role] || []), book];
+    }
+    return { ...rest, books };
 }
 export const createAuthor = async (data: Omit<Author, 'id'>) => {
     const author = await prisma.author.create({ data });
@@ -0,0 +1,146 @@
+import { Author, Book, BookContributor, Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { BookInput, createBook, resolveIsbn, setContributors, setPrimaryAuthor } from './book.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./inventory.controller', () => ({ moveStock: vi.fn() }));
+
+const book = (id: number, fields: Partial<Book> = {}): Book => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price: 10,
+    published_at: new Date(),
+    stock: 0,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+    ...fields,
+});
+
+// What a client sends to create or update a book
+const input = (fields: Partial<BookInput> = {}): BookInput => {
+    const { id, isbn_13, isbn_10, ...rest } = book(0);
+    return { ...rest, ...fields };
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('resolveIsbn', () => {
+    it('stores both forms of a new ISBN', async () => {
+        prisma.book.findUnique.mockResolvedValue(null);
+
+        expect(await resolveIsbn(prisma, '0-306-40615-2')).toEqual({ isbn_13: '9780306406157', isbn_10: '0306406152' });
+        expect(prisma.book.findUnique).toHaveBeenCalledWith({ where: { isbn_13: '9780306406157' }, select: { id: true, title: true } });
+    });
+
+    it('rejects an ISBN another book has', async () => {
+        prisma.book.findUnique.mockResolvedValue(book(3, { isbn_13: '9780306406157' }));
+
+        await expect(resolveIsbn(prisma, '9780306406157')).rejects.toMatchObject({ status: 409, details: { book_id: 3, title: 'Book 3' } });
+        expect(await resolveIsbn(prisma, '9780306406157', 3)).toEqual({ isbn_13: '9780306406157', isbn_10: '0306406152' });
+    });
+
+    it('keeps the stored ISBN when none is sent and clears it with null', async () => {
+        expect(await resolveIsbn(prisma, undefined)).toEqual({});
+        expect(await resolveIsbn(prisma, null)).toEqual({ isbn_13: null, isbn_10: null });
+        expect(prisma.book.findUnique).not.toHaveBeenCalled();
+    });
+});
+
+describe('createBook', () => {
+    it('answers 409 when a concurrent request stored the ISBN first', async () => {
+        prisma.book.findUnique.mockResolvedValue(null);
+        prisma.book.create.mockRejectedValue(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client }),
+        );
+
+        await expect(createBook(input({ isbn: '9780306406157' }))).rejects.toMatchObject({ status: 409, message: 'A book with this ISBN already exists' });
+    });
+});
+
+const author = (id: number): Author => ({ id, firstName: `First ${id}`, lastName: `Last ${id}`, biography: null });
+
+const contributor = (authorId: number, role: string, position: number): BookContributor => ({
+    id: position + 1, book_id: 1, author_id: authorId, role, position,
+});
+
+describe('setContributors', () => {
+    it('replaces the contributors in order and makes the first author the primary one', async () => {
+        prisma.author.findMany.mockResolvedValue([author(4), author(5)]);
+
+        await setContributors(prisma, 1, [{ author_id: 5, role: 'translator' }, { author_id: 4 }, { author_id: 5, role: 'author' }]);
+
+        expect(prisma.bookContributor.deleteMany).toHaveBeenCalledWith({ where: { book_id: 1 } });
+        expect(prisma.bookContributor.createMany).toHaveBeenCalledWith({
+            data: [
+                { book_id: 1, author_id: 5, role: 'translator', position: 0 },
+                { book_id: 1, author_id: 4, role: 'author', position: 1 },
+                { book_id: 1, author_id: 5, role: 'author', position: 2 },
+            ],
+        });
+        expect(prisma.book.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { author_id: 4 } });
+    });
+
+    it('clears the primary author of a book without authors', async () => {
+        prisma.author.findMany.mockResolvedValue([author(4)]);
+
+        await setContributors(prisma, 1, [{ author_id: 4, role: 'editor' }]);
+
+        expect(prisma.book.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { author_id: null } });
+    });
+
+    it('rejects the same contributor twice in a role and unknown authors', async () => {
+        await expect(setContributors(prisma, 1, [{ author_id: 4 }, { author_id: 4, role: 'author' }])).rejects.toMatchObject({ status: 400 });
+
+        prisma.author.findMany.mockResolvedValue([author(4)]);
+        await expect(setContributors(prisma, 1, [{ author_id: 4 }, { author_id: 9 }])).rejects.toMatchObject({ status: 404, details: { authorIds: [9] } });
+
+        expect(prisma.bookContributor.deleteMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('setPrimaryAuthor', () => {
+    it('replaces the first author and keeps the other contributors', async () => {
+        prisma.bookContributor.findMany.mockResolvedValue([contributor(4, 'author', 0), contributor(6, 'translator', 1)]);
+        prisma.author.findMany.mockResolvedValue([author(5), author(6)]);
+
+        await setPrimaryAuthor(prisma, 1, 5);
+
+        expect(prisma.bookContributor.createMany).toHaveBeenCalledWith({
+            data: [
+                { book_id: 1, author_id: 5, role: 'author', position: 0 },
+                { book_id: 1, author_id: 6, role: 'translator', position: 1 },
+            ],
+        });
+    });
+
+    it('drops the duplicate when a co-author becomes the first author', async () => {
+        prisma.bookContributor.findMany.mockResolvedValue([contributor(4, 'author', 0), contributor(5, 'author', 1)]);
+        prisma.author.findMany.mockResolvedValue([author(5)]);
+
+        await setPrimaryAuthor(prisma, 1, 5);
+
+        expect(prisma.bookContributor.createMany).toHaveBeenCalledWith({ data: [{ book_id: 1, author_id: 5, role: 'author', position: 0 }] });
+    });
+
+    it('removes the first author with null and leaves an unchanged author alone', async () => {
+        prisma.bookContributor.findMany.mockResolvedValue([contributor(4, 'author', 0)]);
+        await setPrimaryAuthor(prisma, 1, 4);
+        expect(prisma.bookContributor.createMany).not.toHaveBeenCalled();
+
+        prisma.author.findMany.mockResolvedValue([]);
+        await setPrimaryAuthor(prisma, 1, null);
+        expect(prisma.bookContributor.createMany).toHaveBeenCalledWith({ data: [] });
+        expect(prisma.book.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { author_id: null } });
+    });
+});
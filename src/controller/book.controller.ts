@@ -1,52 +1,279 @@
-import { Book } from "@prisma/client";
+import { Book, Prisma } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { HttpError } from "../utils/errors";
+import { parseIsbn } from "../utils/isbn";
+import { buildTsQuery } from "../utils/search";
+import { categorySubtree } from "./categories.controller";
+import { moveStock } from "./inventory.controller";
 
-export const getBook = async () => {
-    const book = await prisma.book.findMany({include: {author: true, category: true, publisher: true}});
-    return book;
+export const getBook = async (list: ListQuery) => {
+    const [total, book] = await prisma.$transaction([
+        prisma.book.count(),
+        prisma.book.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, book, total);
 }
 export const getBookById = async (id: number) => {
-    const book = await prisma.book.findUnique({ where: { id }, include: {author: true, category: true, publisher: true} });
+    const book = await prisma.book.findUnique({ where: { id }, include: {author: true, category: true, publisher: true, BookContributor: contributorsInclude} });
     return book;
 }
-export const createBook = async (data: Omit<Book, 'id'>) => {
-    const book = await prisma.book.create({ data });
-    return book;
+
+export type ContributorRole = 'author' | 'translator' | 'illustrator' | 'editor';
+
+export const contributorRoles: ContributorRole[] = ['author', 'translator', 'illustrator', 'editor'];
+
+export type ContributorInput = { author_id: number; role?: ContributorRole };
+
+export type BookInput = Omit<Book, 'id' | 'isbn_13' | 'isbn_10'> & { isbn?: string | null; contributors?: ContributorInput[] };
+
+export const contributorsInclude = { include: { author: true }, orderBy: { position: 'asc' } } as const;
+
+/**
+ * Replaces the contributors of a book, in the given order. The first author becomes `Book.author_id`,
+ * which stays the primary author for clients that know a single one.
+ */
+export const setContributors = async (tx: Prisma.TransactionClient, bookId: number, contributors: ContributorInput[]) => {
+    const rows = contributors.map(({ author_id, role }, position) => ({ book_id: bookId, author_id: Number(author_id), role: role || 'author', position }));
+    if (new Set(rows.map(({ author_id, role }) => `${author_id}:${role}`)).size !== rows.length) {
+        throw new HttpError(400, 'A contributor can appear only once per role');
+    }
+    const ids = [...new Set(rows.map(({ author_id }) => author_id))];
+    const found = await tx.author.findMany({ where: { id: { in: ids } }, select: { id: true } });
+    const missing = ids.filter((id) => !found.some((author) => author.id === id));
+    if (missing.length) {
+        throw new HttpError(404, 'Author not found', { authorIds: missing });
+    }
+
+    await tx.bookContributor.deleteMany({ where: { book_id: bookId } });
+    await tx.bookContributor.createMany({ data: rows });
+    await tx.book.update({ where: { id: bookId }, data: { author_id: rows.find(({ role }) => role === 'author')?.author_id ?? null } });
 }
-export const updateBook = async (id: number, data: Omit<Book, 'id'>) => {
-    const book = await prisma.book.update({ where: { id }, data });
-    return book;
+
+/**
+ * Applies a bare `author_id` of clients that do not send contributors: it replaces the first author
+ * and keeps the other contributors, `null` removes the first author.
+ */
+export const setPrimaryAuthor = async (tx: Prisma.TransactionClient, bookId: number, authorId: number | null) => {
+    const current = await tx.bookContributor.findMany({ where: { book_id: bookId }, orderBy: { position: 'asc' } });
+    const contributors: ContributorInput[] = current.map(({ author_id, role }) => ({ author_id, role: role as ContributorRole }));
+    const index = contributors.findIndex(({ role }) => role === 'author');
+    if (index >= 0 && contributors[index].author_id === authorId) {
+        return;
+    }
+
+    if (authorId === null) {
+        if (index >= 0) {
+            contributors.splice(index, 1);
+        }
+    } else if (index >= 0) {
+        contributors[index] = { author_id: authorId, role: 'author' };
+    } else {
+        contributors.unshift({ author_id: authorId, role: 'author' });
+    }
+    // The new first author may have been a co-author already
+    await setContributors(tx, bookId, contributors.filter(({ author_id, role }, position) =>
+        contributors.findIndex((other) => other.author_id === author_id && other.role === role) === position));
+}
+
+/**
+ * Both forms of the ISBN to store: `undefined` keeps the stored ones and `null` clears them.
+ * Throws 409 when another book already has the ISBN.
+ */
+export const resolveIsbn = async (tx: Prisma.TransactionClient, isbn: string | null | undefined, bookId?: number) => {
+    if (isbn === undefined) {
+        return {};
+    }
+    if (isbn === null || isbn === '') {
+        return { isbn_13: null, isbn_10: null };
+    }
+    const parsed = parseIsbn(isbn);
+    const duplicate = await tx.book.findUnique({ where: { isbn_13: parsed.isbn_13 }, select: { id: true, title: true } });
+    if (duplicate && duplicate.id !== bookId) {
+        throw new HttpError(409, 'A book with this ISBN already exists', { book_id: duplicate.id, title: duplicate.title });
+    }
+    return parsed;
+}
+
+// Another request stored the same ISBN after our check
+const isbnTaken = (error: any) => {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+        ? new HttpError(409, 'A book with this ISBN already exists')
+        : error;
+}
+
+export const getBookByIsbn = async (isbn: string) => {
+    const { isbn_13 } = parseIsbn(isbn);
+    return prisma.book.findUnique({ where: { isbn_13 }, include: { author: true, category: true, publisher: true } });
+}
+
+/**
+ * Creates the book without stock and books the initial stock as a receipt.
+ */
+export const createBook = async (data: BookInput, actorId?: number) => {
+    const { stock, isbn, contributors, author_id, ...rest } = data;
+    return prisma.$transaction(async (tx) => {
+        const book = await tx.book.create({ data: { ...rest, ...(await resolveIsbn(tx, isbn)), stock: 0 } });
+        await setContributors(tx, book.id, contributors ?? (author_id ? [{ author_id, role: 'author' }] : []));
+        if (Number(stock) > 0) {
+            await moveStock(tx, book.id, 'receipt', Number(stock), { actorId, comment: 'Initial stock' });
+        }
+        return tx.book.findUnique({ where: { id: book.id }, include: { BookContributor: contributorsInclude } });
+    }).catch((error) => {
+        throw isbnTaken(error);
+    });
+}
+
+/**
+ * The stock is left alone, it only changes through stock movements.
+ * `contributors` replace the current ones, without them `author_id` only replaces the first author.
+ */
+export const updateBook = async (id: number, data: Omit<BookInput, 'stock'>) => {
+    const { isbn, contributors, author_id, ...rest } = data;
+    return prisma.$transaction(async (tx) => {
+        await tx.book.update({ where: { id }, data: { ...rest, ...(await resolveIsbn(tx, isbn, id)) } });
+        if (contributors) {
+            await setContributors(tx, id, contributors);
+        } else if (author_id !== undefined) {
+            await setPrimaryAuthor(tx, id, author_id);
+        }
+        return tx.book.findUnique({ where: { id }, include: { BookContributor: contributorsInclude } });
+    }).catch((error) => {
+        throw isbnTaken(error);
+    });
 }
 export const deleteBook = async (id: number) => {
     const book = await prisma.book.delete({ where: { id } });
     return book;
 }
-export const getBookByFilter = async (filters: {
-    author_id?: number;
-    category_id?: number;
-    publisher_id?: number;
+export type PriceRange = { min?: number; max?: number };
+
+/**
+ * Every list filter matches any of its values, so a storefront can select several authors,
+ * categories, publishers, price ranges or years at once.
+ */
+export type BookFilters = {
+    // Any contributor, narrowed to a role with `role`
+    author_id?: number[];
+    role?: ContributorRole;
+    // The categories and all categories below them
+    category_id?: number[];
+    publisher_id?: number[];
     min_price?: number;
     max_price?: number;
-}) => {
-    const { author_id, category_id, publisher_id, min_price, max_price } = filters;
+    // `min` inclusive, `max` exclusive, as the price facet buckets them
+    price_range?: PriceRange[];
+    year?: number[];
+    in_stock?: boolean;
+    // Average of the approved reviews
+    min_rating?: number;
+};
+
+export const bookFilterWhere = async (filters: BookFilters): Promise<Prisma.BookWhereInput> => {
+    const { author_id, role, category_id, publisher_id, min_price, max_price, price_range, year, in_stock, min_rating } = filters;
+
+    const where: Prisma.BookWhereInput[] = [];
+
+    if (author_id?.length || role) {
+        where.push({ BookContributor: { some: { ...(author_id?.length && { author_id: { in: author_id } }), ...(role && { role }) } } });
+    }
+    if (category_id?.length) {
+        const categories = await prisma.categories.findMany({ where: { id: { in: category_id } }, select: { path: true } });
+        where.push({ category: { OR: categories.map(({ path }) => categorySubtree(path)) } });
+    }
+    if (publisher_id?.length) where.push({ publisher_id: { in: publisher_id } });
+    if (min_price !== undefined) where.push({ price: { gte: min_price } });
+    if (max_price !== undefined) where.push({ price: { lte: max_price } });
+    if (price_range?.length) {
+        where.push({ OR: price_range.map(({ min, max }) => ({ price: { ...(min !== undefined && { gte: min }), ...(max !== undefined && { lt: max }) } })) });
+    }
+    if (year?.length) {
+        where.push({ OR: year.map((value) => ({ published_at: { gte: new Date(Date.UTC(value, 0, 1)), lt: new Date(Date.UTC(value + 1, 0, 1)) } })) });
+    }
+    if (in_stock !== undefined) where.push({ stock: in_stock ? { gt: 0 } : { lte: 0 } });
+    if (min_rating !== undefined) where.push({ rating_average: { gte: min_rating } });
+
+    return where.length ? { AND: where } : {};
+};
+
+export const getBookByFilter = async (filters: BookFilters, list: ListQuery) => {
+    const where = await bookFilterWhere(filters);
+
+    const [total, books] = await prisma.$transaction([
+        prisma.book.count({ where }),
+        prisma.book.findMany({ ...findManyArgs(list), where }),
+    ]);
+
+    return toPage(list, books, total);
+};
+
+type SearchRow = {
+    id: number;
+    rank: number;
+    title_highlight: string;
+    description_highlight: string;
+    total: bigint;
+};
+
+// The highlights are HTML: the text is escaped before `ts_headline` adds its <mark> tags, so stored markup
+// comes back as text. The parser reads entities like `&lt;` as entities, not words, so matching is unchanged.
+const escapedHtml = (column: string) => Prisma.raw(
+    `replace(replace(replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`,
+);
+
+export type BookSearch = { q: string; prefix?: boolean; limit?: number; offset?: number };
+
+/**
+ * Full-text search over book titles, descriptions and the names of all contributors, ranked by relevance.
+ * Uses the generated `search_vector` columns, see `buildTsQuery` for the query syntax.
+ * Contributor names are ranked with the same weight as `author.search_vector` gives them.
+ */
+export const searchBooks = async (params: BookSearch) => {
+    const { q, prefix = true, limit = 20, offset = 0 } = params;
+    const tsquery = buildTsQuery(q, prefix);
 
-    const where: any = {};
+    if (!tsquery) {
+        return { total: 0, items: [] };
+    }
 
-    if (author_id) where.author_id = author_id;
-    if (category_id) where.category_id = category_id;
-    if (publisher_id) where.publisher_id = publisher_id;
-    if (min_price !== undefined) where.price = { gte: min_price };
-    if (max_price !== undefined) where.price = { ...where.price, lte: max_price };
+    const rows = await prisma.$queryRaw<SearchRow[]>(Prisma.sql`
+        WITH query AS (SELECT to_tsquery('english', ${tsquery}) AS q)
+        SELECT
+            b.id,
+            ts_rank_cd(b.search_vector || coalesce(c.vector, ''::tsvector), query.q) AS rank,
+            ts_headline('english', ${escapedHtml('b.title')}, query.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+            ts_headline('english', ${escapedHtml('b.description')}, query.q, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10') AS description_highlight,
+            count(*) OVER () AS total
+        FROM book b
+        CROSS JOIN query
+        LEFT JOIN LATERAL (
+            SELECT setweight(to_tsvector('english', string_agg(coalesce(a."firstName", '') || ' ' || coalesce(a."lastName", ''), ' ')), 'B') AS vector
+            FROM book_contributor bc
+            JOIN author a ON a.id = bc.author_id
+            WHERE bc.book_id = b.id
+        ) c ON true
+        WHERE b.search_vector @@ query.q OR b.id IN (
+            SELECT bc.book_id
+            FROM book_contributor bc
+            JOIN author a ON a.id = bc.author_id
+            WHERE a.search_vector @@ query.q
+        )
+        ORDER BY rank DESC, b.id
+        LIMIT ${limit} OFFSET ${offset}
+    `);
 
     const books = await prisma.book.findMany({
-        where: where,
-        include: {
-            author: true,
-            category: true,
-            publisher: true,
-        },
+        where: { id: { in: rows.map((row) => row.id) } },
+        include: { author: true, category: true, publisher: true, BookContributor: contributorsInclude },
     });
 
-    return books;
+    return {
+        total: rows.length ? Number(rows[0].total) : 0,
+        items: rows.map((row) => ({
+            ...books.find((book) => book.id === row.id),
+            rank: Number(row.rank),
+            highlight: { title: row.title_highlight, description: row.description_highlight },
+        })),
+    };
 };
@@ -0,0 +1,113 @@
+import { Book, Cart, CartItem } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { addCartItem, checkoutCart, getCart, updateCartItem } from './cart.controller';
+import { placeOrder } from './order.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./order.controller', () => ({ placeOrder: vi.fn() }));
+
+const book = (id: number, price: number, stock: number): Book => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price,
+    published_at: new Date(),
+    stock,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+});
+
+const cart: Cart = { id: 1, user_id: 2, updated_at: new Date() };
+
+const cartWith = <T extends CartItem>(items: T[]): Cart & { CartItem: T[] } => ({ ...cart, CartItem: items });
+
+const item = (bookId: number, quantity: number, price: number): CartItem => ({
+    id: bookId * 10, quantity, price, cart_id: 1, book_id: bookId, created_at: new Date(),
+});
+
+describe('getCart', () => {
+    it('prices the lines at the current price and warns about stock', async () => {
+        prisma.cart.findUnique.mockResolvedValue(cartWith([
+            { ...item(1, 2, 10), book: book(1, 12.5, 5) },
+            { ...item(2, 3, 8), book: book(2, 8, 1) },
+            { ...item(3, 1, 4), book: book(3, 4, 0) },
+        ]));
+
+        const result = await getCart(2);
+
+        expect(result.items.map(({ price_changed, stock_warning, subtotal }) => ({ price_changed, stock_warning, subtotal }))).toEqual([
+            { price_changed: true, stock_warning: null, subtotal: 25 },
+            { price_changed: false, stock_warning: 'insufficient_stock', subtotal: 24 },
+            { price_changed: false, stock_warning: 'out_of_stock', subtotal: 4 },
+        ]);
+        expect(result).toMatchObject({ id: 1, total: 53, has_price_changes: true, has_stock_warnings: true });
+    });
+
+    it('returns an empty cart for a user without one', async () => {
+        prisma.cart.findUnique.mockResolvedValue(null);
+
+        await expect(getCart(2)).resolves.toMatchObject({ id: null, items: [], total: 0, has_price_changes: false });
+    });
+});
+
+describe('addCartItem', () => {
+    it('adds the book at its price or raises the quantity of its line', async () => {
+        prisma.book.findUnique.mockResolvedValue(book(1, 10, 5));
+        prisma.cart.upsert.mockResolvedValue(cart);
+        prisma.cart.findUnique.mockResolvedValue(null);
+
+        await addCartItem(2, 1, 2);
+
+        expect(prisma.cartItem.upsert).toHaveBeenCalledWith({
+            where: { cart_id_book_id: { cart_id: 1, book_id: 1 } },
+            update: { quantity: { increment: 2 } },
+            create: { cart_id: 1, book_id: 1, quantity: 2, price: 10 },
+        });
+    });
+
+    it('fails for an unknown book', async () => {
+        prisma.book.findUnique.mockResolvedValue(null);
+
+        await expect(addCartItem(2, 1, 2)).rejects.toMatchObject({ status: 404 });
+        expect(prisma.cartItem.upsert).not.toHaveBeenCalled();
+    });
+});
+
+describe('updateCartItem', () => {
+    it('fails for a book that is not in the cart', async () => {
+        prisma.cart.upsert.mockResolvedValue(cart);
+        prisma.cartItem.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(updateCartItem(2, 1, 3)).rejects.toMatchObject({ status: 404 });
+    });
+});
+
+describe('checkoutCart', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('orders the cart lines and empties the cart', async () => {
+        prisma.cart.findUnique.mockResolvedValue(cartWith([item(1, 2, 10), item(2, 1, 8)]));
+
+        await checkoutCart(2, 'SPRING');
+
+        expect(placeOrder).toHaveBeenCalledWith(prisma, 2, [{ bookId: 1, quantity: 2 }, { bookId: 2, quantity: 1 }], 'SPRING');
+        expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { cart_id: 1 } });
+    });
+
+    it('refuses an empty cart', async () => {
+        prisma.cart.findUnique.mockResolvedValue(cartWith([]));
+
+        await expect(checkoutCart(2)).rejects.toMatchObject({ status: 400 });
+        expect(placeOrder).not.toHaveBeenCalled();
+    });
+});
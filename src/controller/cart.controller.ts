@@ -0,0 +1,104 @@
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { placeOrder } from "./order.controller";
+
+const cartInclude = { CartItem: { include: { book: true }, orderBy: { created_at: 'asc' as const } } };
+
+const findOrCreateCart = async (userId: number) => {
+    return prisma.cart.upsert({ where: { user_id: userId }, update: {}, create: { user_id: userId } });
+}
+
+const findBook = async (bookId: number) => {
+    const book = await prisma.book.findUnique({ where: { id: bookId } });
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+    return book;
+}
+
+/**
+ * Returns the cart with live prices: every line reports the price it was added at,
+ * the current `Book.price` and whether the stock still covers the quantity.
+ */
+export const getCart = async (userId: number) => {
+    const cart = await prisma.cart.findUnique({ where: { user_id: userId }, include: cartInclude });
+    const items = (cart?.CartItem || []).map((item) => ({
+        id: item.id,
+        book_id: item.book_id,
+        book: item.book,
+        quantity: item.quantity,
+        added_price: item.price,
+        price: item.book.price,
+        price_changed: item.price !== item.book.price,
+        stock_warning: item.book.stock === 0
+            ? 'out_of_stock'
+            : item.book.stock < item.quantity ? 'insufficient_stock' : null,
+        subtotal: Math.round(item.book.price * item.quantity * 100) / 100,
+    }));
+
+    return {
+        id: cart?.id || null,
+        items,
+        total: Math.round(items.reduce((sum, item) => sum + item.subtotal, 0) * 100) / 100,
+        has_price_changes: items.some((item) => item.price_changed),
+        has_stock_warnings: items.some((item) => item.stock_warning !== null),
+        updated_at: cart?.updated_at || null,
+    };
+}
+
+export const addCartItem = async (userId: number, bookId: number, quantity: number) => {
+    const book = await findBook(bookId);
+    const cart = await findOrCreateCart(userId);
+
+    await prisma.cartItem.upsert({
+        where: { cart_id_book_id: { cart_id: cart.id, book_id: bookId } },
+        update: { quantity: { increment: quantity } },
+        create: { cart_id: cart.id, book_id: bookId, quantity, price: book.price },
+    });
+    await prisma.cart.update({ where: { id: cart.id }, data: { updated_at: new Date() } });
+
+    return getCart(userId);
+}
+
+export const updateCartItem = async (userId: number, bookId: number, quantity: number) => {
+    const cart = await findOrCreateCart(userId);
+    const updated = await prisma.cartItem.updateMany({ where: { cart_id: cart.id, book_id: bookId }, data: { quantity } });
+    if (!updated.count) {
+        throw new HttpError(404, 'Book is not in the cart');
+    }
+    await prisma.cart.update({ where: { id: cart.id }, data: { updated_at: new Date() } });
+
+    return getCart(userId);
+}
+
+export const removeCartItem = async (userId: number, bookId: number) => {
+    const cart = await findOrCreateCart(userId);
+    const deleted = await prisma.cartItem.deleteMany({ where: { cart_id: cart.id, book_id: bookId } });
+    if (!deleted.count) {
+        throw new HttpError(404, 'Book is not in the cart');
+    }
+    await prisma.cart.update({ where: { id: cart.id }, data: { updated_at: new Date() } });
+
+    return getCart(userId);
+}
+
+export const clearCart = async (userId: number) => {
+    await prisma.cartItem.deleteMany({ where: { cart: { user_id: userId } } });
+    return getCart(userId);
+}
+
+/**
+ * Turns the cart into an order at current prices and empties it in the same transaction.
+ */
+export const checkoutCart = async (userId: number, couponCode?: string | null) => {
+    const cart = await prisma.cart.findUnique({ where: { user_id: userId }, include: { CartItem: true } });
+    if (!cart || !cart.CartItem.length) {
+        throw new HttpError(400, 'Cart is empty');
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const order = await placeOrder(tx, userId, cart.CartItem.map((item) => ({ bookId: item.book_id, quantity: item.quantity })), couponCode);
+        await tx.cartItem.deleteMany({ where: { cart_id: cart.id } });
+        return order;
+    });
+}
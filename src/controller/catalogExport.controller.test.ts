@@ -0,0 +1,108 @@
+import { Author, Prisma } from '@prisma/client';
+import { PassThrough } from 'stream';
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { exportCatalog } from './catalogExport.controller';
+
+vi.mock('../utils/prisma');
+
+type ExportedBook = Prisma.BookGetPayload<{ include: { author: true; category: true; publisher: true; BookContributor: { include: { author: true } } } }>;
+
+const author: Author = { id: 4, firstName: 'Ursula', lastName: 'Le Guin', biography: null };
+
+const book = (id: number, fields: Partial<ExportedBook> = {}): ExportedBook => ({
+    id,
+    title: `Book ${id}`,
+    description: 'A "quoted" <description>',
+    isbn_13: '9780441478125',
+    isbn_10: null,
+    price: 12.5,
+    published_at: new Date('1969-03-01T00:00:00Z'),
+    stock: 3,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: 4,
+    category_id: 2,
+    publisher_id: null,
+    author,
+    category: { id: 2, name: 'Fantasy', slug: 'fantasy', parent_id: 1, path: '/1/2/' },
+    publisher: null,
+    BookContributor: [{ id: 1, book_id: id, author_id: 4, role: 'author', position: 0, author }],
+    ...fields,
+});
+
+const run = async (format: 'csv' | 'jsonl' | 'onix', batches: ExportedBook[][]) => {
+    prisma.categories.findMany.mockResolvedValue([
+        { id: 1, name: 'Fiction', slug: 'fiction', parent_id: null, path: '/1/' },
+        { id: 2, name: 'Fantasy', slug: 'fantasy', parent_id: 1, path: '/1/2/' },
+    ]);
+    for (const batch of batches) {
+        prisma.book.findMany.mockResolvedValueOnce(batch);
+    }
+    prisma.book.findMany.mockResolvedValue([]);
+
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const start = vi.fn();
+    const count = await exportCatalog({}, format, out, start);
+    return { count, start, text: Buffer.concat(chunks).toString() };
+}
+
+describe('exportCatalog', () => {
+    it('writes CSV with the columns the import reads', async () => {
+        const { count, start, text } = await run('csv', [[book(1)]]);
+        const [head, row] = text.split('\n');
+
+        expect(count).toBe(1);
+        expect(start).toHaveBeenCalledTimes(1);
+        expect(head).toMatch(/^id,isbn,title,description,price,published_at,stock,author_id/);
+        expect(row).toContain('"A ""quoted"" <description>"');
+        expect(row).toContain('Ursula Le Guin (author)');
+        expect(row).toContain('Fiction > Fantasy');
+    });
+
+    it('reads the books batch after batch after the last id', async () => {
+        const { count, text } = await run('jsonl', [[book(1), book(2)], [book(5, { category_id: null, category: null })]]);
+        const records = text.trim().split('\n').map((line) => JSON.parse(line));
+
+        expect(count).toBe(3);
+        expect(records.map((record) => record.id)).toEqual([1, 2, 5]);
+        expect(records[2].category).toBeNull();
+        expect(prisma.book.findMany).toHaveBeenNthCalledWith(2, expect.objectContaining({ where: { AND: [expect.anything(), { id: { gt: 2 } }] } }));
+    });
+
+    it('escapes the ONIX products', async () => {
+        const { text } = await run('onix', [[book(1, { stock: 0 })]]);
+
+        expect(text).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<ONIXMessage release="3.0">/);
+        expect(text).toContain('<Text>A &quot;quoted&quot; &lt;description&gt;</Text>');
+        expect(text).toContain('<ContributorRole>A01</ContributorRole>');
+        expect(text).toContain('<ProductAvailability>31</ProductAvailability>');
+        expect(text).toContain('<Date>19690301</Date>');
+        expect(text.trim().endsWith('</ONIXMessage>')).toBe(true);
+    });
+
+    it('starts the response only once the first batch was read', async () => {
+        prisma.categories.findMany.mockResolvedValue([]);
+        prisma.book.findMany.mockRejectedValue(new Error('connection lost'));
+        const out = new PassThrough();
+        const start = vi.fn();
+
+        await expect(exportCatalog({}, 'csv', out, start)).rejects.toThrow('connection lost');
+        expect(start).not.toHaveBeenCalled();
+        expect(out.readableLength).toBe(0);
+    });
+
+    it('stops when the client went away', async () => {
+        prisma.categories.findMany.mockResolvedValue([]);
+        prisma.book.findMany.mockResolvedValue([book(1)]);
+        const out = new PassThrough();
+        out.destroy();
+
+        expect(await exportCatalog({}, 'csv', out)).toBe(0);
+        expect(prisma.book.findMany).toHaveBeenCalledTimes(1);
+    });
+});
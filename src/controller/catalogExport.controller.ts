@@ -0,0 +1,202 @@
+import { Prisma } from "@prisma/client";
+import { Writable } from "stream";
+
+import prisma from "../utils/prisma";
+import { csvLine } from "../utils/csv";
+import { BookFilters, bookFilterWhere } from "./book.controller";
+import { getCategoryPaths } from "./categories.controller";
+
+export type ExportFormat = 'csv' | 'jsonl' | 'onix';
+
+export const exportFormats: Record<ExportFormat, { contentType: string; extension: string }> = {
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+    jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+    onix: { contentType: 'application/xml; charset=utf-8', extension: 'xml' },
+};
+
+const batchSize = Number(process.env.CATALOG_EXPORT_BATCH_SIZE) || 500;
+const currency = process.env.PAYMENT_CURRENCY || 'UAH';
+const sender = process.env.CATALOG_EXPORT_SENDER || 'Bookstore';
+
+const include = {
+    author: true,
+    category: true,
+    publisher: true,
+    BookContributor: { include: { author: true }, orderBy: { position: 'asc' } },
+} as const;
+
+// ONIX contributor role codes
+const onixRoles: Record<string, string> = { author: 'A01', illustrator: 'A12', editor: 'B01', translator: 'B06' };
+
+/**
+ * Reads the matching books in id order, one batch at a time, so only a batch is held in memory.
+ */
+async function* bookBatches(filters: BookFilters) {
+    const where = await bookFilterWhere(filters);
+    let lastId = 0;
+    while (true) {
+        const books = await prisma.book.findMany({
+            where: { AND: [where, { id: { gt: lastId } }] },
+            include,
+            orderBy: { id: 'asc' },
+            take: batchSize,
+        });
+        if (!books.length) {
+            return;
+        }
+        yield books;
+        lastId = books[books.length - 1].id;
+    }
+}
+
+// `category_path` names the category with its ancestors: `Fiction > Fantasy`
+type ExportBook = Prisma.BookGetPayload<{ include: typeof include }> & { category_path: string | null };
+
+const csvColumns = [
+    'id', 'isbn', 'title', 'description', 'price', 'published_at', 'stock',
+    'author_id', 'author_first_name', 'author_last_name', 'contributors', 'category_id', 'category',
+    'publisher_id', 'publisher', 'publisher_address', 'publisher_contact',
+];
+
+// Flat record whose columns match what the catalog import reads
+const flatten = (book: ExportBook) => ({
+    id: book.id,
+    isbn: book.isbn_13,
+    title: book.title,
+    description: book.description,
+    price: book.price,
+    published_at: book.published_at.toISOString(),
+    stock: book.stock,
+    author_id: book.author_id,
+    author_first_name: book.author?.firstName ?? null,
+    author_last_name: book.author?.lastName ?? null,
+    contributors: book.BookContributor.map(({ author, role }) => ({ author_id: author.id, first_name: author.firstName, last_name: author.lastName, role })),
+    category_id: book.category_id,
+    category: book.category_path,
+    publisher_id: book.publisher_id,
+    publisher: book.publisher?.name ?? null,
+    publisher_address: book.publisher?.address ?? null,
+    publisher_contact: book.publisher?.contact ?? null,
+});
+
+const xml = (value: unknown) => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const tag = (name: string, value: unknown) => `<${name}>${xml(value)}</${name}>`;
+
+const onixDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * A Product record in the spirit of ONIX 3.0: ISBN, title, contributors, subject, description,
+ * publisher, publishing date, availability and price. Code lists follow ONIX where they apply.
+ */
+const onixProduct = (book: ExportBook) => {
+    const parts = [
+        tag('RecordReference', `book-${book.id}`),
+        tag('NotificationType', '03'),
+        ...(book.isbn_13 ? [`<ProductIdentifier>${tag('ProductIDType', '15')}${tag('IDValue', book.isbn_13)}</ProductIdentifier>`] : []),
+        '<DescriptiveDetail>',
+        `<TitleDetail>${tag('TitleType', '01')}<TitleElement>${tag('TitleElementLevel', '01')}${tag('TitleText', book.title)}</TitleElement></TitleDetail>`,
+    ];
+    book.BookContributor.forEach(({ author, role }, index) => {
+        parts.push(`<Contributor>${tag('SequenceNumber', index + 1)}${tag('ContributorRole', onixRoles[role] || 'Z99')}${tag('NamesBeforeKey', author.firstName)}${tag('KeyNames', author.lastName)}</Contributor>`);
+    });
+    if (book.category) {
+        parts.push(`<Subject>${tag('SubjectSchemeIdentifier', '24')}${tag('SubjectHeadingText', book.category_path ?? book.category.name)}</Subject>`);
+    }
+    parts.push(
+        '</DescriptiveDetail>',
+        `<CollateralDetail><TextContent>${tag('TextType', '03')}${tag('ContentAudience', '00')}${tag('Text', book.description)}</TextContent></CollateralDetail>`,
+        '<PublishingDetail>',
+    );
+    if (book.publisher) {
+        parts.push(`<Publisher>${tag('PublishingRole', '01')}${tag('PublisherName', book.publisher.name)}</Publisher>`);
+    }
+    parts.push(
+        `<PublishingDate>${tag('PublishingDateRole', '01')}${tag('Date', onixDate(book.published_at))}</PublishingDate>`,
+        '</PublishingDetail>',
+        '<ProductSupply><SupplyDetail>',
+        tag('ProductAvailability', book.stock > 0 ? '21' : '31'),
+        `<Stock>${tag('OnHand', book.stock)}</Stock>`,
+        `<Price>${tag('PriceType', '02')}${tag('PriceAmount', book.price.toFixed(2))}${tag('CurrencyCode', currency)}</Price>`,
+        '</SupplyDetail></ProductSupply>',
+    );
+    return `<Product>${parts.join('')}</Product>\n`;
+}
+
+const writers: Record<ExportFormat, { head: () => string; row: (book: ExportBook) => string; tail: () => string }> = {
+    csv: {
+        head: () => csvLine(csvColumns),
+        row: (book) => {
+            const record: Record<string, unknown> = {
+                ...flatten(book),
+                contributors: book.BookContributor.map(({ author, role }) => `${author.firstName} ${author.lastName} (${role})`).join('; '),
+            };
+            return csvLine(csvColumns.map((column) => record[column]));
+        },
+        tail: () => '',
+    },
+    jsonl: {
+        head: () => '',
+        row: (book) => JSON.stringify(flatten(book)) + '\n',
+        tail: () => '',
+    },
+    onix: {
+        head: () => '<?xml version="1.0" encoding="UTF-8"?>\n<ONIXMessage release="3.0">\n'
+            + `<Header><Sender>${tag('SenderName', sender)}</Sender>${tag('SentDateTime', new Date().toISOString().replace(/[-:]/g, '').slice(0, 13))}</Header>\n`,
+        row: onixProduct,
+        tail: () => '</ONIXMessage>\n',
+    },
+};
+
+const write = async (out: Writable, chunk: string) => {
+    if (chunk && !out.write(chunk)) {
+        // A closed stream never drains
+        await new Promise<void>((resolve) => {
+            const done = () => {
+                out.off('drain', done);
+                out.off('close', done);
+                resolve();
+            };
+            out.on('drain', done);
+            out.on('close', done);
+        });
+    }
+}
+
+/**
+ * Streams the books matching `filters` to `out`, waiting for the consumer whenever its buffer is full.
+ * Stops early when `out` is closed, e.g. when the client disconnects. `start` is called once the first
+ * batch was read, right before anything is written, so a failing query can still be answered with an error.
+ */
+export const exportCatalog = async (filters: BookFilters, format: ExportFormat, out: Writable, start: () => void = () => {}) => {
+    const writer = writers[format];
+    const categoryPaths = await getCategoryPaths();
+    let count = 0;
+    let started = false;
+    const begin = async () => {
+        if (!started) {
+            started = true;
+            start();
+            await write(out, writer.head());
+        }
+    };
+    for await (const books of bookBatches(filters)) {
+        if (out.destroyed) {
+            return count;
+        }
+        await begin();
+        const rows = books.map((book) => writer.row({ ...book, category_path: book.category_id ? categoryPaths.get(book.category_id) ?? null : null }));
+        await write(out, rows.join(''));
+        count += books.length;
+    }
+    await begin();
+    await write(out, writer.tail());
+    out.end();
+    return count;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { ImportRow, failInterruptedImports, formatImportReport, importReport } from './catalogImport.controller';
+
+vi.mock('../utils/prisma');
+
+const rows: ImportRow[] = [
+    { row: 2, action: 'create', book_id: 10, title: 'Dune', changes: ['author "Frank Herbert"'], errors: [] },
+    {
+        row: 3,
+        action: 'error',
+        book_id: null,
+        title: null,
+        changes: [],
+        errors: [{ field: 'price', message: 'Invalid value' }, { field: 'isbn', message: 'Invalid ISBN' }],
+    },
+];
+
+describe('formatImportReport', () => {
+    it('lists written rows and every error of a row', () => {
+        expect(formatImportReport(rows)).toBe([
+            'row,action,book_id,title,field,message',
+            '2,create,10,Dune,,"author ""Frank Herbert"""',
+            '3,error,,,price,Invalid value',
+            '3,error,,,isbn,Invalid ISBN',
+            '',
+        ].join('\r\n'));
+    });
+
+    it('lists only errors when asked to', () => {
+        expect(formatImportReport(rows, true).split('\r\n')).toHaveLength(4);
+    });
+});
+
+describe('importReport', () => {
+    it('reads the rows of a saved report', () => {
+        expect(importReport(JSON.parse(JSON.stringify(rows)))).toEqual(rows);
+    });
+
+    it('skips what is not a report row', () => {
+        expect(importReport(null)).toEqual([]);
+        expect(importReport({ row: 1 })).toEqual([]);
+        expect(importReport([{ row: 1 }, 'row', rows[0]])).toEqual([rows[0]]);
+    });
+});
+
+describe('failInterruptedImports', () => {
+    it('fails the imports left running', async () => {
+        await failInterruptedImports();
+
+        expect(prisma.catalogImport.updateMany).toHaveBeenCalledWith({
+            where: { status: 'running' },
+            data: { status: 'failed', message: 'Interrupted by a server restart', finished_at: expect.any(Date) },
+        });
+    });
+});
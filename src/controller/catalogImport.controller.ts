@@ -0,0 +1,478 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { csvLine, parseCsv } from "../utils/csv";
+import { parseIsbn } from "../utils/isbn";
+import { bookRules, stockRule, validateBookData } from "../middleware/book.middleware";
+import { setPrimaryAuthor } from "./book.controller";
+import { createCategory, getCategoryPaths } from "./categories.controller";
+import { adjustStockTo, moveStock } from "./inventory.controller";
+
+export type ImportFormat = 'csv' | 'jsonl';
+
+export type RowAction = 'create' | 'update' | 'unchanged' | 'error';
+
+// Every field is set, so the report is stored as JSON as it is
+export type ImportRow = {
+    // Line of the file the row starts on
+    row: number;
+    action: RowAction;
+    book_id: number | null;
+    title: string | null;
+    // Changed fields and created authors, categories and publishers
+    changes: string[];
+    errors: { field: string; message: string }[];
+};
+
+const isImportRow = (value: Prisma.JsonValue): value is ImportRow => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && typeof value.row === 'number' && typeof value.action === 'string'
+        && Array.isArray(value.changes) && Array.isArray(value.errors);
+}
+
+/**
+ * The rows of a saved report.
+ */
+export const importReport = (report: Prisma.JsonValue): ImportRow[] => {
+    return Array.isArray(report) ? report.filter(isImportRow) : [];
+}
+
+class RowError extends Error {
+    constructor(public errors: { field: string; message: string }[]) {
+        super('Invalid row');
+    }
+}
+
+type SourceRow = { line: number; record?: Record<string, unknown>; error?: string };
+
+type BookData = {
+    title: string;
+    description: string;
+    isbn_13?: string | null;
+    isbn_10?: string | null;
+    price: number;
+    published_at: Date;
+    stock: number;
+    reorder_threshold?: number | null;
+    author_id?: number | null;
+    category_id?: number | null;
+    publisher_id?: number | null;
+};
+
+// Lookup tables of the catalog, kept in step with the rows written so far
+type Catalog = {
+    authors: Map<string, number>;
+    categories: Map<string, number>;
+    publishers: Map<string, number>;
+    ids: { author: Set<number>; category: Set<number>; publisher: Set<number> };
+    books: Map<string, number[]>;
+    isbns: Map<string, number>;
+    // Books a dry run would have created, by placeholder id
+    drafts: Map<number, BookData>;
+    placeholder: number;
+};
+
+const bookFields: (keyof BookData)[] = [
+    'title', 'description', 'isbn_13', 'price', 'published_at', 'stock', 'reorder_threshold', 'author_id', 'category_id', 'publisher_id',
+];
+
+const summary = Object.fromEntries(
+    Object.values(Prisma.CatalogImportScalarFieldEnum).filter((field) => field !== 'report').map((field) => [field, true]),
+) as Record<Exclude<Prisma.CatalogImportScalarFieldEnum, 'report'>, true>;
+
+const progressEvery = 500;
+
+// Natural keys compare case- and whitespace-insensitive
+const naturalKey = (...parts: unknown[]) => {
+    return parts.map((part) => String(part ?? '').trim().replace(/\s+/g, ' ').toLowerCase()).join('|');
+}
+
+// `Fiction > Fantasy` names a category with its ancestors
+const splitCategory = (value: string) => value.split('>').map((name) => name.trim()).filter(Boolean);
+
+const bookKey = (title: string, authorId?: number | null) => naturalKey(authorId ?? '', title);
+
+export const parseCatalog = (text: string, format: ImportFormat): SourceRow[] => {
+    if (format === 'csv') {
+        return parseCsv(text);
+    }
+    return text.split(/\r?\n/)
+        .map((content, index) => ({ content, line: index + 1 }))
+        .filter(({ content }) => content.trim())
+        .map(({ content, line }) => {
+            try {
+                const record = JSON.parse(content);
+                if (!record || typeof record !== 'object' || Array.isArray(record)) {
+                    return { line, error: 'Line is not a JSON object' };
+                }
+                return { line, record };
+            } catch (error: any) {
+                return { line, error: `Invalid JSON: ${error.message}` };
+            }
+        });
+}
+
+const loadCatalog = async (): Promise<Catalog> => {
+    const [authors, categories, publishers, books] = await prisma.$transaction([
+        prisma.author.findMany({ select: { id: true, firstName: true, lastName: true }, orderBy: { id: 'desc' } }),
+        prisma.categories.findMany({ select: { id: true }, orderBy: { id: 'desc' } }),
+        prisma.publishers.findMany({ select: { id: true, name: true }, orderBy: { id: 'desc' } }),
+        prisma.book.findMany({ select: { id: true, title: true, author_id: true, isbn_13: true }, orderBy: { id: 'asc' } }),
+    ]);
+    const categoryPaths = await getCategoryPaths();
+
+    // Ordered by id descending, so the oldest record wins when names repeat
+    const catalog: Catalog = {
+        authors: new Map(authors.map((author) => [naturalKey(author.firstName, author.lastName), author.id])),
+        categories: new Map(categories.map(({ id }) => [naturalKey(...splitCategory(categoryPaths.get(id) as string)), id])),
+        publishers: new Map(publishers.map((publisher) => [naturalKey(publisher.name), publisher.id])),
+        ids: {
+            author: new Set(authors.map(({ id }) => id)),
+            category: new Set(categories.map(({ id }) => id)),
+            publisher: new Set(publishers.map(({ id }) => id)),
+        },
+        books: new Map(),
+        isbns: new Map(),
+        drafts: new Map(),
+        placeholder: 0,
+    };
+    books.forEach((book) => addBook(catalog, book.id, book));
+    return catalog;
+}
+
+type BookKeys = { title: string; author_id?: number | null; isbn_13?: string | null };
+
+const addBook = (catalog: Catalog, id: number, book: BookKeys) => {
+    const key = bookKey(book.title, book.author_id);
+    catalog.books.set(key, [...(catalog.books.get(key) || []), id]);
+    if (book.isbn_13) {
+        catalog.isbns.set(book.isbn_13, id);
+    }
+}
+
+const removeBook = (catalog: Catalog, id: number, book: BookKeys) => {
+    const key = bookKey(book.title, book.author_id);
+    catalog.books.set(key, (catalog.books.get(key) || []).filter((bookId) => bookId !== id));
+    if (book.isbn_13) {
+        catalog.isbns.delete(book.isbn_13);
+    }
+}
+
+const rules = [...bookRules(), stockRule()];
+
+/**
+ * Runs the validation rules of the book routes over a row. Empty cells count as missing.
+ * The `contributors` column of an export is skipped, an import only sets the first author.
+ */
+const validateRow = async (record: Record<string, unknown>) => {
+    const body = Object.fromEntries(
+        Object.entries(record)
+            .map(([key, value]) => [key.trim(), typeof value === 'string' ? value.trim() : value])
+            .filter(([key, value]) => value !== '' && value !== undefined && key !== 'contributors'),
+    );
+    const { body: sanitized, errors } = await validateBookData(body, rules);
+
+    if (body.id !== undefined && !(Number.isInteger(Number(body.id)) && Number(body.id) > 0)) {
+        errors.push({ field: 'id', message: 'Invalid value' });
+    }
+    if (!body.author_id && !body.author_first_name !== !body.author_last_name) {
+        errors.push({ field: 'author', message: 'Both author_first_name and author_last_name are required' });
+    }
+    return { body: sanitized, errors };
+}
+
+const toBookData = (body: Record<string, any>): BookData => {
+    const optionalNumber = (value: unknown) => (value === undefined || value === null ? value : Number(value)) as number | null | undefined;
+    return {
+        title: String(body.title),
+        description: String(body.description),
+        ...(body.isbn ? parseIsbn(String(body.isbn)) : {}),
+        price: Number(body.price),
+        published_at: body.published_at,
+        stock: Number(body.stock),
+        reorder_threshold: optionalNumber(body.reorder_threshold),
+        author_id: optionalNumber(body.author_id),
+        category_id: optionalNumber(body.category_id),
+        publisher_id: optionalNumber(body.publisher_id),
+    };
+}
+
+const sameValue = (a: unknown, b: unknown) => {
+    return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+}
+
+/**
+ * Resolves or creates the author, category and publisher of a valid row by name and creates
+ * or updates its book. Books are matched by `id` when the row has one, then by ISBN, then by title and author.
+ * Without `tx` nothing is written, new records get negative placeholder ids instead.
+ * The catalog is only updated through `commit`, after the row's transaction went through.
+ */
+const importRow = async (
+    tx: Prisma.TransactionClient | null,
+    catalog: Catalog,
+    body: Record<string, any>,
+    importId: number,
+    actorId?: number,
+) => {
+    const changes: string[] = [];
+    const commit: (() => void)[] = [];
+    const errors: { field: string; message: string }[] = [];
+    const data = toBookData(body);
+
+    const resolve = async (map: Map<string, number>, key: string, label: string, create: (tx: Prisma.TransactionClient) => Promise<{ id: number }>) => {
+        const found = map.get(key);
+        if (found !== undefined) {
+            return found;
+        }
+        const id = tx ? (await create(tx)).id : --catalog.placeholder;
+        changes.push(`new ${label}`);
+        commit.push(() => map.set(key, id));
+        return id;
+    };
+
+    if (data.author_id) {
+        if (!catalog.ids.author.has(data.author_id)) {
+            errors.push({ field: 'author_id', message: 'Author not found' });
+        }
+    } else if (body.author_first_name) {
+        data.author_id = await resolve(
+            catalog.authors,
+            naturalKey(body.author_first_name, body.author_last_name),
+            `author "${body.author_first_name} ${body.author_last_name}"`,
+            (tx) => tx.author.create({ data: { firstName: String(body.author_first_name), lastName: String(body.author_last_name) } }),
+        );
+    }
+    if (data.category_id) {
+        if (!catalog.ids.category.has(data.category_id)) {
+            errors.push({ field: 'category_id', message: 'Category not found' });
+        }
+    } else if (body.category) {
+        // Walks down from the root, creating the missing levels
+        const names = splitCategory(String(body.category));
+        let parentId: number | undefined;
+        for (let level = 1; level <= names.length; level++) {
+            const parent = parentId;
+            parentId = await resolve(
+                catalog.categories,
+                naturalKey(...names.slice(0, level)),
+                `category "${names.slice(0, level).join(' > ')}"`,
+                (tx) => createCategory(tx, { name: names[level - 1], parent_id: parent }),
+            );
+        }
+        data.category_id = parentId;
+    }
+    if (data.publisher_id) {
+        if (!catalog.ids.publisher.has(data.publisher_id)) {
+            errors.push({ field: 'publisher_id', message: 'Publisher not found' });
+        }
+    } else if (body.publisher) {
+        data.publisher_id = await resolve(
+            catalog.publishers,
+            naturalKey(body.publisher),
+            `publisher "${body.publisher}"`,
+            (tx) => tx.publishers.create({
+                data: { name: String(body.publisher), address: String(body.publisher_address ?? ''), contact: String(body.publisher_contact ?? '') },
+            }),
+        );
+    }
+
+    let bookId: number | undefined = body.id !== undefined ? Number(body.id) : undefined;
+    const isbnOwner = data.isbn_13 ? catalog.isbns.get(data.isbn_13) : undefined;
+    if (bookId !== undefined && isbnOwner !== undefined && isbnOwner !== bookId) {
+        errors.push({ field: 'isbn', message: `Book ${isbnOwner} already has this ISBN` });
+    }
+    if (bookId === undefined) {
+        bookId = isbnOwner;
+    }
+    if (bookId === undefined) {
+        const matches = catalog.books.get(bookKey(data.title, data.author_id)) || [];
+        if (matches.length > 1) {
+            errors.push({ field: 'title', message: `Several books match the title and author (${matches.join(', ')}), give the id` });
+        }
+        bookId = matches[0];
+    }
+
+    const current = bookId === undefined
+        ? undefined
+        : bookId < 0 ? catalog.drafts.get(bookId) : await (tx || prisma).book.findUnique({ where: { id: bookId } });
+    if (bookId !== undefined && !current) {
+        errors.push({ field: 'id', message: 'Book not found' });
+    }
+    // Thrown, so the authors, categories and publishers created for the row are rolled back
+    if (errors.length) {
+        throw new RowError(errors);
+    }
+
+    const comment = `Catalog import #${importId}`;
+    const { stock, ...rest } = data;
+
+    if (!current) {
+        let id = --catalog.placeholder;
+        if (tx) {
+            id = (await tx.book.create({ data: { ...rest, stock: 0 } })).id;
+            if (data.author_id) {
+                await setPrimaryAuthor(tx, id, data.author_id);
+            }
+            if (stock > 0) {
+                await moveStock(tx, id, 'receipt', stock, { actorId, comment });
+            }
+        } else {
+            catalog.drafts.set(id, data);
+        }
+        commit.push(() => addBook(catalog, id, data));
+        return { action: 'create' as RowAction, book_id: id, changes, commit };
+    }
+
+    const id = bookId as number;
+    const changed = bookFields.filter((field) => data[field] !== undefined && !sameValue(data[field], current[field]));
+    if (!changed.length) {
+        return { action: 'unchanged' as RowAction, book_id: id, changes, commit };
+    }
+
+    const next = { ...current, ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) } as BookData;
+    if (tx) {
+        await tx.book.update({ where: { id }, data: rest });
+        if (changed.includes('author_id')) {
+            await setPrimaryAuthor(tx, id, data.author_id ?? null);
+        }
+        await adjustStockTo(tx, id, stock, { actorId, comment });
+    } else {
+        catalog.drafts.set(id, next);
+    }
+    commit.push(() => {
+        removeBook(catalog, id, current);
+        addBook(catalog, id, next);
+    });
+    return { action: 'update' as RowAction, book_id: id, changes: [...changes, ...changed], commit };
+}
+
+/**
+ * Registers an import. The rows are processed by `runCatalogImport`.
+ */
+export const createCatalogImport = async (format: ImportFormat, dryRun: boolean, actorId?: number) => {
+    return prisma.catalogImport.create({
+        data: { format, dry_run: dryRun, created_by_id: actorId },
+        select: summary,
+    });
+}
+
+/**
+ * Imports the catalog row by row, each row in its own transaction, so a bad row only fails itself.
+ * The counters are saved every few hundred rows while the import runs, the per-row report at the end.
+ * A dry run goes through the same steps without writing anything.
+ */
+export const runCatalogImport = async (id: number, text: string, actorId?: number) => {
+    const run = await prisma.catalogImport.findUnique({ where: { id } });
+    if (!run) {
+        throw new HttpError(404, 'Catalog import not found');
+    }
+
+    const counts = { total_rows: 0, created: 0, updated: 0, unchanged: 0, failed: 0 };
+    try {
+        const rows = parseCatalog(text, run.format as ImportFormat);
+        const catalog = await loadCatalog();
+        const report: ImportRow[] = [];
+
+        for (const source of rows) {
+            const entry: ImportRow = { row: source.line, action: 'error', book_id: null, title: null, changes: [], errors: [] };
+            if (source.error || !source.record) {
+                entry.errors = [{ field: 'row', message: source.error || 'Empty row' }];
+            } else {
+                const { body, errors } = await validateRow(source.record);
+                entry.title = typeof body.title === 'string' ? body.title : null;
+                if (errors.length) {
+                    entry.errors = errors;
+                } else {
+                    try {
+                        const result = run.dry_run
+                            ? await importRow(null, catalog, body, id, actorId)
+                            : await prisma.$transaction((tx) => importRow(tx, catalog, body, id, actorId), { timeout: 30000 });
+                        const { commit, ...outcome } = result;
+                        commit.forEach((apply) => apply());
+                        Object.assign(entry, outcome);
+                    } catch (error: any) {
+                        entry.errors = error instanceof RowError ? error.errors : [{ field: 'row', message: error.message }];
+                    }
+                }
+            }
+
+            report.push(entry);
+            counts.total_rows++;
+            counts[entry.action === 'error' ? 'failed' : entry.action === 'create' ? 'created' : entry.action === 'update' ? 'updated' : 'unchanged']++;
+            if (counts.total_rows % progressEvery === 0) {
+                await prisma.catalogImport.update({ where: { id }, data: counts });
+            }
+        }
+
+        return prisma.catalogImport.update({
+            where: { id },
+            data: { ...counts, status: 'done', report, finished_at: new Date() },
+            select: summary,
+        });
+    } catch (error: any) {
+        return prisma.catalogImport.update({
+            where: { id },
+            data: { ...counts, status: 'failed', message: error.message, finished_at: new Date() },
+            select: summary,
+        });
+    }
+}
+
+export const getCatalogImport = async (list: ListQuery) => {
+    const [total, imports] = await prisma.$transaction([
+        prisma.catalogImport.count(),
+        prisma.catalogImport.findMany({ select: summary, ...findManyArgs(list) }),
+    ]);
+    return toPage(list, imports, total);
+}
+
+export const getCatalogImportById = async (id: number) => {
+    return prisma.catalogImport.findUnique({ where: { id }, select: summary });
+}
+
+/**
+ * Formats the per-row report as CSV: one line per error, and one per written row unless `errorsOnly`.
+ */
+export const formatImportReport = (rows: ImportRow[], errorsOnly = false) => {
+    let csv = csvLine(['row', 'action', 'book_id', 'title', 'field', 'message']);
+    for (const row of rows) {
+        if (row.errors.length) {
+            row.errors.forEach((error) => {
+                csv += csvLine([row.row, row.action, row.book_id, row.title, error.field, error.message]);
+            });
+        } else if (!errorsOnly) {
+            csv += csvLine([row.row, row.action, row.book_id, row.title, '', row.changes.join('; ')]);
+        }
+    }
+    return csv;
+}
+
+export const getCatalogImportReport = async (id: number, errorsOnly = false) => {
+    const run = await prisma.catalogImport.findUnique({ where: { id } });
+    if (!run) {
+        throw new HttpError(404, 'Catalog import not found');
+    }
+    if (run.status === 'running') {
+        throw new HttpError(409, 'Catalog import is still running');
+    }
+    return formatImportReport(importReport(run.report), errorsOnly);
+}
+
+/**
+ * Marks an import as failed unless it finished meanwhile.
+ */
+export const failCatalogImport = async (id: number, message: string) => {
+    await prisma.catalogImport.updateMany({ where: { id, status: 'running' }, data: { status: 'failed', message, finished_at: new Date() } });
+}
+
+/**
+ * Imports run inside the server process, so the ones still `running` when it starts were cut off by a restart.
+ */
+export const failInterruptedImports = async () => {
+    await prisma.catalogImport.updateMany({
+        where: { status: 'running' },
+        data: { status: 'failed', message: 'Interrupted by a server restart', finished_at: new Date() },
+    });
+}
@@ -0,0 +1,148 @@
+import { Categories } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { createCategories, deleteCategories, getCategoryTree, updateCategories } from './categories.controller';
+
+vi.mock('../utils/prisma');
+
+const category = (id: number, parentId: number | null, path: string, name = `Category ${id}`): Categories => ({
+    id,
+    name,
+    slug: name.toLowerCase().replace(/ /g, '-'),
+    parent_id: parentId,
+    path,
+});
+
+// Values bound into the raw path updates, the statement itself is the template
+const rawUpdates = () => prisma.$executeRaw.mock.calls.filter(([sql]) => Array.isArray(sql) && sql.join('').includes('UPDATE')).map(([, ...values]) => values);
+
+type BookCount = Awaited<ReturnType<typeof prisma.book.groupBy>>[number];
+
+const bookCount = (categoryId: number, count: number): BookCount => ({
+    id: 0,
+    title: '',
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price: 0,
+    published_at: new Date(),
+    stock: 0,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: categoryId,
+    publisher_id: null,
+    _count: { _all: count },
+    _avg: undefined,
+    _sum: undefined,
+    _min: undefined,
+    _max: undefined,
+});
+
+describe('createCategories', () => {
+    it('stores the path below the parent and a free slug', async () => {
+        prisma.categories.findUnique
+            .mockResolvedValueOnce(category(1, null, '/1/'))
+            .mockResolvedValueOnce(category(5, null, '/5/', 'Fantasy'))
+            .mockResolvedValueOnce(null);
+        prisma.categories.create.mockResolvedValue(category(9, 1, '', 'Fantasy'));
+
+        await createCategories({ name: 'Fantasy', parent_id: 1 });
+
+        expect(prisma.categories.create).toHaveBeenCalledWith({ data: { name: 'Fantasy', slug: 'fantasy-2', parent_id: 1 } });
+        expect(prisma.categories.update).toHaveBeenCalledWith({ where: { id: 9 }, data: { path: '/1/9/' } });
+    });
+});
+
+describe('updateCategories', () => {
+    it('moves the category with its subtree', async () => {
+        prisma.categories.findUnique
+            .mockResolvedValueOnce(category(4, 1, '/1/4/'))
+            .mockResolvedValueOnce(category(2, null, '/2/'));
+
+        await updateCategories(4, { name: 'Category 4', parent_id: 2 });
+
+        expect(rawUpdates()).toEqual([['/2/4/', 6, '/1/4/%']]);
+        expect(prisma.categories.update).toHaveBeenCalledWith({ where: { id: 4 }, data: { parent_id: 2 } });
+        expect(prisma.categories.update).toHaveBeenCalledWith({ where: { id: 4 }, data: { name: 'Category 4', slug: 'category-4' } });
+    });
+
+    it('refuses to move a category below itself', async () => {
+        prisma.categories.findUnique
+            .mockResolvedValueOnce(category(4, 1, '/1/4/'))
+            .mockResolvedValueOnce(category(9, 4, '/1/4/9/'));
+
+        await expect(updateCategories(4, { name: 'Category 4', parent_id: 9 })).rejects.toMatchObject({ status: 409 });
+        expect(rawUpdates()).toEqual([]);
+    });
+
+    it('leaves the tree alone when the parent stays', async () => {
+        prisma.categories.findUnique.mockResolvedValueOnce(category(4, 1, '/1/4/'));
+
+        await updateCategories(4, { name: 'Category 4', parent_id: 1 });
+
+        expect(rawUpdates()).toEqual([]);
+        expect(prisma.categories.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers null for an unknown category', async () => {
+        prisma.categories.findUnique.mockResolvedValue(null);
+
+        expect(await updateCategories(4, { name: 'Category 4' })).toBeNull();
+    });
+});
+
+describe('deleteCategories', () => {
+    type Child = Pick<Categories, 'id' | 'name'>;
+
+    const withChildren = (parent: Categories, children: Child[]): Categories & { children: Child[] } => ({ ...parent, children });
+
+    it('refuses a category with subcategories by default', async () => {
+        prisma.categories.findUnique.mockResolvedValue(withChildren(category(4, 1, '/1/4/'), [{ id: 9, name: 'Category 9' }]));
+
+        await expect(deleteCategories(4)).rejects.toMatchObject({ status: 409, details: [{ id: 9, name: 'Category 9' }] });
+        expect(prisma.categories.delete).not.toHaveBeenCalled();
+    });
+
+    it('moves the children and the books to the parent with reparent', async () => {
+        prisma.categories.findUnique
+            .mockResolvedValueOnce(withChildren(category(4, 1, '/1/4/'), [{ id: 9, name: 'Category 9' }]))
+            .mockResolvedValueOnce(category(1, null, '/1/'));
+
+        expect(await deleteCategories(4, 'reparent')).toEqual(category(4, 1, '/1/4/'));
+        expect(rawUpdates()).toEqual([['/1/', 6, '/1/4/_%']]);
+        expect(prisma.categories.updateMany).toHaveBeenCalledWith({ where: { parent_id: 4 }, data: { parent_id: 1 } });
+        expect(prisma.book.updateMany).toHaveBeenCalledWith({ where: { category_id: 4 }, data: { category_id: 1 } });
+        expect(prisma.categories.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+    });
+
+    it('leaves the books of a deleted root category without a category', async () => {
+        prisma.categories.findUnique.mockResolvedValueOnce(withChildren(category(1, null, '/1/'), []));
+
+        await deleteCategories(1);
+
+        expect(rawUpdates()).toEqual([['/', 4, '/1/_%']]);
+        expect(prisma.book.updateMany).toHaveBeenCalledWith({ where: { category_id: 1 }, data: { category_id: null } });
+    });
+});
+
+describe('getCategoryTree', () => {
+    it('nests the categories and sums the books of every subtree', async () => {
+        prisma.categories.findMany.mockResolvedValue([
+            category(1, null, '/1/'),
+            category(4, 1, '/1/4/'),
+            category(9, 4, '/1/4/9/'),
+            category(2, null, '/2/'),
+        ]);
+        vi.mocked(prisma.book.groupBy).mockResolvedValue([bookCount(1, 1), bookCount(9, 3)]);
+
+        const [fiction, other] = await getCategoryTree();
+
+        expect(fiction).toMatchObject({ id: 1, book_count: 1, total_book_count: 4 });
+        expect(fiction.children[0]).toMatchObject({ id: 4, book_count: 0, total_book_count: 3 });
+        expect(fiction.children[0].children[0]).toMatchObject({ id: 9, book_count: 3, total_book_count: 3 });
+        expect(other).toMatchObject({ id: 2, book_count: 0, total_book_count: 0, children: [] });
+    });
+});
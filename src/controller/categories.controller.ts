@@ -1,24 +1,204 @@
-import { Categories } from "@prisma/client";
+import { Categories, Prisma } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { slugify } from "../utils/slug";
 
-export const getCategories = async () => {
-    const categories = await prisma.categories.findMany();
-    return categories;
+export type CategoryInput = { name: string; slug?: string; parent_id?: number | null };
+
+export type DeleteStrategy = 'reject' | 'reparent';
+
+type CategoryNode = Pick<Categories, 'id' | 'name' | 'slug' | 'parent_id'> & {
+    book_count: number;
+    total_book_count: number;
+    children: CategoryNode[];
+};
+
+// Held for the rest of the transaction by every change of the tree, so two moves cannot build a cycle together
+const treeLockKey = 7310001;
+
+const lockTree = (tx: Prisma.TransactionClient) => tx.$executeRaw`SELECT pg_advisory_xact_lock(${treeLockKey})`;
+
+/**
+ * `path` lists the ids from the root down to the category itself: `/1/4/9/`.
+ */
+const ids = (path: string) => path.split('/').filter(Boolean).map(Number);
+
+/**
+ * The category with `path` and all categories below it. A prefix match, so the path index is used.
+ */
+export const categorySubtree = (path: string): Prisma.CategoriesWhereInput => ({
+    path: { startsWith: path },
+});
+
+export const getCategories = async (list: ListQuery) => {
+    const [total, categories] = await prisma.$transaction([
+        prisma.categories.count(),
+        prisma.categories.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, categories, total);
 }
+
+/**
+ * The category with its breadcrumbs from the root down to it and its direct children.
+ */
 export const getCategoriesById = async (id: number) => {
-    const categories = await prisma.categories.findUnique({ where: { id } });
-    return categories;
+    const category = await prisma.categories.findUnique({
+        where: { id },
+        include: { children: { select: { id: true, name: true, slug: true }, orderBy: { name: 'asc' } } },
+    });
+    if (!category) {
+        return null;
+    }
+    const ancestors = await prisma.categories.findMany({
+        where: { id: { in: ids(category.path) } },
+        select: { id: true, name: true, slug: true },
+    });
+    const breadcrumbs = ids(category.path).map((ancestorId) => ancestors.find((ancestor) => ancestor.id === ancestorId)!);
+    return { ...category, breadcrumbs };
+}
+
+/**
+ * Breadcrumb names of every category, e.g. `Fiction > Fantasy`, keyed by id.
+ */
+export const getCategoryPaths = async (client: Prisma.TransactionClient = prisma) => {
+    const categories = await client.categories.findMany({ select: { id: true, name: true, path: true } });
+    const names = new Map(categories.map((category) => [category.id, category.name]));
+    return new Map(categories.map((category) => [category.id, ids(category.path).map((id) => names.get(id)).join(' > ')]));
+}
+
+/**
+ * All categories as a nested tree ordered by name. `book_count` counts the books of the category itself,
+ * `total_book_count` those of its whole subtree.
+ */
+export const getCategoryTree = async () => {
+    const { categories, counts } = await prisma.$transaction(async (tx) => ({
+        categories: await tx.categories.findMany({ select: { id: true, name: true, slug: true, parent_id: true }, orderBy: { name: 'asc' } }),
+        counts: await tx.book.groupBy({ by: ['category_id'], _count: { _all: true } }),
+    }));
+
+    const nodes = new Map<number, CategoryNode>(categories.map((category) => {
+        const count = counts.find((row) => row.category_id === category.id);
+        const bookCount = count?._count._all ?? 0;
+        return [category.id, { ...category, book_count: bookCount, total_book_count: bookCount, children: [] }];
+    }));
+
+    const roots: CategoryNode[] = [];
+    nodes.forEach((node) => {
+        const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+        (parent ? parent.children : roots).push(node);
+    });
+
+    const total = (node: CategoryNode): number => {
+        node.total_book_count = node.book_count + node.children.reduce((sum, child) => sum + total(child), 0);
+        return node.total_book_count;
+    };
+    roots.forEach(total);
+    return roots;
 }
-export const createCategories = async (data: Omit<Categories, 'id'>) => {
-    const categories = await prisma.categories.create({ data });
-    return categories;
+
+/**
+ * `slug`, or one made from `name`, with a number appended while another category has it.
+ */
+const uniqueSlug = async (tx: Prisma.TransactionClient, text: string, exceptId?: number) => {
+    const base = slugify(text, 'category');
+    for (let suffix = 1; ; suffix++) {
+        const slug = suffix === 1 ? base : `${base}-${suffix}`;
+        const taken = await tx.categories.findUnique({ where: { slug }, select: { id: true } });
+        if (!taken || taken.id === exceptId) {
+            return slug;
+        }
+    }
+}
+
+const parentPath = async (tx: Prisma.TransactionClient, parentId?: number | null) => {
+    if (!parentId) {
+        return '/';
+    }
+    const parent = await tx.categories.findUnique({ where: { id: parentId }, select: { path: true } });
+    if (!parent) {
+        throw new HttpError(404, 'Parent category not found');
+    }
+    return parent.path;
+}
+
+/**
+ * Creates a category below `parent_id`, or a root category without one.
+ */
+export const createCategory = async (tx: Prisma.TransactionClient, data: CategoryInput) => {
+    await lockTree(tx);
+    const path = await parentPath(tx, data.parent_id);
+    const category = await tx.categories.create({
+        data: { name: data.name, slug: await uniqueSlug(tx, data.slug || data.name), parent_id: data.parent_id || null },
+    });
+    return tx.categories.update({ where: { id: category.id }, data: { path: `${path}${category.id}/` } });
+}
+
+export const createCategories = async (data: CategoryInput) => {
+    return prisma.$transaction((tx) => createCategory(tx, data));
 }
-export const updateCategories = async (id: number, data: Omit<Categories, 'id'>) => {
-    const categories = await prisma.categories.update({ where: { id }, data });
-    return categories;
+
+/**
+ * Renames and moves a category. A moved category takes its whole subtree along;
+ * it cannot move below itself.
+ */
+export const updateCategories = async (id: number, data: CategoryInput) => {
+    return prisma.$transaction(async (tx) => {
+        await lockTree(tx);
+        const category = await tx.categories.findUnique({ where: { id } });
+        if (!category) {
+            return null;
+        }
+
+        const slug = data.slug !== undefined || data.name !== category.name
+            ? await uniqueSlug(tx, data.slug || data.name, id)
+            : category.slug;
+
+        if (data.parent_id !== undefined && (data.parent_id || null) !== category.parent_id) {
+            const path = await parentPath(tx, data.parent_id);
+            if (path.startsWith(category.path)) {
+                throw new HttpError(409, 'A category cannot move below itself');
+            }
+            const moved = `${path}${id}/`;
+            // Rewrites the path prefix of the category and all its descendants
+            await tx.$executeRaw`
+                UPDATE "categories" SET "path" = ${moved} || substr("path", ${category.path.length + 1})
+                WHERE "path" LIKE ${category.path + '%'}
+            `;
+            await tx.categories.update({ where: { id }, data: { parent_id: data.parent_id || null } });
+        }
+
+        return tx.categories.update({ where: { id }, data: { name: data.name, slug } });
+    });
+}
+
+/**
+ * Deletes a category. One with children is refused unless `strategy` is `reparent`, which moves the
+ * children up to the parent of the deleted category. Its books move to the parent too, or lose their
+ * category when a root category is deleted.
+ */
+export const deleteCategories = async (id: number, strategy: DeleteStrategy = 'reject') => {
+    return prisma.$transaction(async (tx) => {
+        await lockTree(tx);
+        const category = await tx.categories.findUnique({ where: { id }, include: { children: { select: { id: true, name: true } } } });
+        if (!category) {
+            return null;
+        }
+        if (category.children.length && strategy !== 'reparent') {
+            throw new HttpError(409, 'Category has subcategories, move them first or delete with strategy=reparent', category.children);
+        }
+
+        const path = await parentPath(tx, category.parent_id);
+        await tx.$executeRaw`
+            UPDATE "categories" SET "path" = ${path} || substr("path", ${category.path.length + 1})
+            WHERE "path" LIKE ${category.path + '_%'}
+        `;
+        await tx.categories.updateMany({ where: { parent_id: id }, data: { parent_id: category.parent_id } });
+        await tx.book.updateMany({ where: { category_id: id }, data: { category_id: category.parent_id } });
+
+        const { children, ...deleted } = category;
+        await tx.categories.delete({ where: { id } });
+        return deleted;
+    });
 }
-export const deleteCategories = async (id: number) => {
-    const categories = await prisma.categories.delete({ where: { id } });
-    return categories;
-}
\ No newline at end of file
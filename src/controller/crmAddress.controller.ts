@@ -1,10 +1,15 @@
 import { CrmAddress } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getCrmAddress = async () => {
-    const crmAddress = await prisma.crmAddress.findMany();
-    return crmAddress;
+export const getCrmAddress = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { crm_card: { user_id: userId } } : undefined;
+    const [total, crmAddress] = await prisma.$transaction([
+        prisma.crmAddress.count({ where }),
+        prisma.crmAddress.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, crmAddress, total);
 }
 export const getCrmAddressById = async (id: number) => {
     const crmAddress = await prisma.crmAddress.findUnique({ where: { id } });
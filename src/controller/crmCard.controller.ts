@@ -1,10 +1,15 @@
 import { CrmCard } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getCard = async () => {
-    const cards = await prisma.crmCard.findMany();
-    return cards;
+export const getCard = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { user_id: userId } : undefined;
+    const [total, cards] = await prisma.$transaction([
+        prisma.crmCard.count({ where }),
+        prisma.crmCard.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, cards, total);
 }
 export const getCardById = async (id: number) => {
     const card = await prisma.crmCard.findUnique({ where: { id } });
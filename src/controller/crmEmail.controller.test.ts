@@ -0,0 +1,137 @@
+import { CrmEmail, EmailVerificationToken } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { hashToken } from '../utils/jwt';
+import { MemoryNotifier, setNotifier } from '../utils/notifier';
+import { createCrmEmail, notificationEmail, requestVerification, updateCrmEmail, verifyEmail } from './crmEmail.controller';
+
+vi.mock('../utils/prisma');
+
+const crmEmail = (fields: Partial<CrmEmail> = {}): CrmEmail => ({
+    id: 3,
+    email: 'reader@example.com',
+    is_main: true,
+    verified_at: null,
+    crm_crard_id: 2,
+    ...fields,
+});
+
+const verificationToken = (fields: Partial<EmailVerificationToken> = {}): EmailVerificationToken => ({
+    id: 9,
+    token_hash: hashToken('verify-token'),
+    crm_email_id: 3,
+    email: 'reader@example.com',
+    expires_at: new Date(Date.now() + 60000),
+    created_at: new Date(),
+    used_at: null,
+    ...fields,
+});
+
+let notifier: MemoryNotifier;
+
+beforeEach(() => {
+    notifier = new MemoryNotifier();
+    setNotifier(notifier);
+});
+
+describe('createCrmEmail', () => {
+    it('demotes the previous main email and sends a verification token', async () => {
+        prisma.crmEmail.create.mockResolvedValue(crmEmail());
+
+        await createCrmEmail({ email: 'reader@example.com', is_main: true, crm_crard_id: 2 });
+
+        expect(prisma.crmEmail.updateMany).toHaveBeenCalledWith({ where: { crm_crard_id: 2, is_main: true, id: undefined }, data: { is_main: false } });
+        expect(notifier.sent).toHaveLength(1);
+        expect(notifier.sent[0]).toMatchObject({ to: 'reader@example.com', subject: 'Confirm your email' });
+        const token = notifier.sent[0].text.split(' ').pop() ?? '';
+        expect(prisma.emailVerificationToken.create).toHaveBeenCalledWith({
+            data: { token_hash: hashToken(token), crm_email_id: 3, email: 'reader@example.com', expires_at: expect.any(Date) },
+        });
+    });
+});
+
+describe('updateCrmEmail', () => {
+    it('drops the verification and voids old tokens when the address changes', async () => {
+        prisma.crmEmail.findUnique.mockResolvedValue(crmEmail({ verified_at: new Date() }));
+        prisma.crmEmail.update.mockResolvedValue(crmEmail({ email: 'new@example.com' }));
+
+        await updateCrmEmail(3, { email: 'new@example.com', is_main: false, crm_crard_id: 2 });
+
+        expect(prisma.emailVerificationToken.updateMany).toHaveBeenCalledWith({ where: { crm_email_id: 3, used_at: null }, data: { used_at: expect.any(Date) } });
+        expect(prisma.crmEmail.update).toHaveBeenCalledWith({
+            where: { id: 3 },
+            data: { email: 'new@example.com', is_main: false, crm_crard_id: 2, verified_at: null },
+        });
+        expect(notifier.sent.map((notification) => notification.to)).toEqual(['new@example.com']);
+    });
+
+    it('keeps the verification when the address stays', async () => {
+        prisma.crmEmail.findUnique.mockResolvedValue(crmEmail({ verified_at: new Date() }));
+        prisma.crmEmail.update.mockResolvedValue(crmEmail({ verified_at: new Date() }));
+
+        await updateCrmEmail(3, { email: 'reader@example.com', is_main: true, crm_crard_id: 2 });
+
+        expect(prisma.crmEmail.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ verified_at: undefined }) }));
+        expect(prisma.emailVerificationToken.updateMany).not.toHaveBeenCalled();
+        expect(notifier.sent).toEqual([]);
+    });
+});
+
+describe('requestVerification', () => {
+    it('refuses emails that are already verified', async () => {
+        prisma.crmEmail.findUnique.mockResolvedValue(crmEmail({ verified_at: new Date() }));
+
+        await expect(requestVerification(3)).rejects.toMatchObject({ status: 409 });
+        expect(notifier.sent).toEqual([]);
+    });
+});
+
+describe('verifyEmail', () => {
+    it('verifies the address the token was sent to', async () => {
+        const verified = crmEmail({ verified_at: new Date() });
+        prisma.emailVerificationToken.findUnique.mockResolvedValue(verificationToken());
+        prisma.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+        prisma.crmEmail.updateMany.mockResolvedValue({ count: 1 });
+        prisma.crmEmail.findUniqueOrThrow.mockResolvedValue(verified);
+
+        expect(await verifyEmail('verify-token')).toBe(verified);
+        expect(prisma.crmEmail.updateMany).toHaveBeenCalledWith({
+            where: { id: 3, email: 'reader@example.com' },
+            data: { verified_at: expect.any(Date) },
+        });
+    });
+
+    it('rejects a token sent to an address that has changed since', async () => {
+        prisma.emailVerificationToken.findUnique.mockResolvedValue(verificationToken());
+        prisma.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+        prisma.crmEmail.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(verifyEmail('verify-token')).rejects.toMatchObject({ status: 400, message: 'Invalid or expired verification token' });
+    });
+
+    it('rejects unknown, used and expired tokens', async () => {
+        prisma.emailVerificationToken.findUnique.mockResolvedValue(null);
+        await expect(verifyEmail('other-token')).rejects.toMatchObject({ status: 400 });
+
+        prisma.emailVerificationToken.findUnique.mockResolvedValue(verificationToken({ used_at: new Date() }));
+        await expect(verifyEmail('verify-token')).rejects.toMatchObject({ status: 400 });
+
+        prisma.emailVerificationToken.findUnique.mockResolvedValue(verificationToken({ expires_at: new Date(Date.now() - 1000) }));
+        await expect(verifyEmail('verify-token')).rejects.toMatchObject({ status: 400 });
+
+        expect(prisma.crmEmail.updateMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('notificationEmail', () => {
+    it('prefers the verified main email', async () => {
+        prisma.crmEmail.findFirst.mockResolvedValue(crmEmail({ verified_at: new Date() }));
+
+        expect(await notificationEmail(1)).toBe('reader@example.com');
+        expect(prisma.crmEmail.findFirst).toHaveBeenCalledWith({
+            where: { crm_card: { user_id: 1 }, verified_at: { not: null } },
+            orderBy: [{ is_main: 'desc' }, { id: 'asc' }],
+        });
+    });
+});
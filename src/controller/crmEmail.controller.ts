@@ -1,24 +1,153 @@
-import { CrmEmail } from "@prisma/client";
+import { CrmEmail, Prisma } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { hashToken, randomToken } from "../utils/jwt";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { notify } from "../utils/notifier";
 
-export const getCrmEmail = async () => {
-    const crmEmails = await prisma.crmEmail.findMany();
-    return crmEmails;
+type CrmEmailInput = Pick<CrmEmail, 'email' | 'is_main' | 'crm_crard_id'>;
+
+const verificationHours = Number(process.env.EMAIL_VERIFICATION_EXPIRES_IN_HOURS) || 24;
+
+export const getCrmEmail = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { crm_card: { user_id: userId } } : undefined;
+    const [total, crmEmails] = await prisma.$transaction([
+        prisma.crmEmail.count({ where }),
+        prisma.crmEmail.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, crmEmails, total);
 }
 export const getCrmEmailById = async (id: number) => {
     const crmEmail = await prisma.crmEmail.findUnique({ where: { id } });
     return crmEmail;
 }
-export const createCrmEmail = async (data: Omit<CrmEmail, 'id'>) => {
-    const crmEmail = await prisma.crmEmail.create({ data });
+
+/**
+ * The address notifications of a user go to: the main email when it is verified, else another verified one.
+ * Users without a verified email are not mailed at all.
+ */
+export const notificationEmail = async (userId: number) => {
+    const email = await prisma.crmEmail.findFirst({
+        where: { crm_card: { user_id: userId }, verified_at: { not: null } },
+        orderBy: [{ is_main: 'desc' }, { id: 'asc' }],
+    });
+    return email?.email ?? null;
+}
+
+// A CRM card has at most one main email, setting a new one demotes the previous
+const demoteMainEmail = async (tx: Prisma.TransactionClient, crmCardId: number, exceptId?: number) => {
+    await tx.crmEmail.updateMany({
+        where: { crm_crard_id: crmCardId, is_main: true, id: exceptId ? { not: exceptId } : undefined },
+        data: { is_main: false },
+    });
+}
+
+/**
+ * New emails start unverified and get a verification token right away.
+ */
+export const createCrmEmail = async (data: CrmEmailInput) => {
+    const { email, is_main, crm_crard_id } = data;
+    const crmEmail = await prisma.$transaction(async (tx) => {
+        if (is_main) {
+            await demoteMainEmail(tx, crm_crard_id);
+        }
+        return tx.crmEmail.create({ data: { email, is_main, crm_crard_id } });
+    });
+    await sendVerification(crmEmail);
     return crmEmail;
 }
-export const updateCrmEmail = async (id: number, data: Omit<CrmEmail, 'id'>) => {
-    const crmEmail = await prisma.crmEmail.update({ where: { id }, data });
+
+/**
+ * Changing the address drops its verification, voids the tokens sent to the old address
+ * and sends a new token to the new address.
+ */
+export const updateCrmEmail = async (id: number, data: CrmEmailInput) => {
+    const { email, is_main, crm_crard_id } = data;
+    const current = await prisma.crmEmail.findUnique({ where: { id } });
+    if (!current) {
+        return null;
+    }
+
+    const changed = current.email !== email;
+    const crmEmail = await prisma.$transaction(async (tx) => {
+        if (is_main) {
+            await demoteMainEmail(tx, crm_crard_id, id);
+        }
+        if (changed) {
+            await tx.emailVerificationToken.updateMany({ where: { crm_email_id: id, used_at: null }, data: { used_at: new Date() } });
+        }
+        return tx.crmEmail.update({
+            where: { id },
+            data: { email, is_main, crm_crard_id, verified_at: changed ? null : undefined },
+        });
+    });
+    if (changed) {
+        await sendVerification(crmEmail);
+    }
     return crmEmail;
 }
 export const deleteCrmEmail = async (id: number) => {
     const crmEmail = await prisma.crmEmail.delete({ where: { id } });
     return crmEmail;
-}
\ No newline at end of file
+}
+
+const sendVerification = async (crmEmail: CrmEmail) => {
+    const token = randomToken();
+    await prisma.emailVerificationToken.create({
+        data: {
+            token_hash: hashToken(token),
+            crm_email_id: crmEmail.id,
+            email: crmEmail.email,
+            expires_at: new Date(Date.now() + verificationHours * 60 * 60 * 1000),
+        },
+    });
+
+    const link = process.env.EMAIL_VERIFICATION_URL ? `${process.env.EMAIL_VERIFICATION_URL}${token}` : token;
+    await notify({
+        to: crmEmail.email,
+        subject: 'Confirm your email',
+        text: `Use this to confirm your email within ${verificationHours} hours: ${link}`,
+    });
+}
+
+/**
+ * Sends a new verification token for an email that is not verified yet.
+ */
+export const requestVerification = async (id: number) => {
+    const crmEmail = await prisma.crmEmail.findUnique({ where: { id } });
+    if (!crmEmail) {
+        throw new HttpError(404, 'CRM email not found');
+    }
+    if (crmEmail.verified_at) {
+        throw new HttpError(409, 'Email is already verified');
+    }
+    await sendVerification(crmEmail);
+}
+
+/**
+ * Marks the email of a verification token as verified. Tokens are single-use and only
+ * valid for the address they were sent to.
+ */
+export const verifyEmail = async (token: string) => {
+    const record = await prisma.emailVerificationToken.findUnique({ where: { token_hash: hashToken(token) } });
+    if (!record || record.used_at || record.expires_at < new Date()) {
+        throw new HttpError(400, 'Invalid or expired verification token');
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const used = await tx.emailVerificationToken.updateMany({ where: { id: record.id, used_at: null }, data: { used_at: new Date() } });
+        if (!used.count) {
+            throw new HttpError(400, 'Invalid or expired verification token');
+        }
+        await tx.emailVerificationToken.updateMany({ where: { crm_email_id: record.crm_email_id, used_at: null }, data: { used_at: new Date() } });
+        const verified = await tx.crmEmail.updateMany({
+            where: { id: record.crm_email_id, email: record.email },
+            data: { verified_at: new Date() },
+        });
+        if (!verified.count) {
+            throw new HttpError(400, 'Invalid or expired verification token');
+        }
+        return tx.crmEmail.findUniqueOrThrow({ where: { id: record.crm_email_id } });
+    });
+}
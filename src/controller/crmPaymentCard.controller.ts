@@ -1,24 +1,83 @@
 import { CrmPaymentCard } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { getCardVault, isCardExpired, parseCardNumber } from "../utils/cardVault";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getCrmPaymentCard = async () => {
-    const crmPaymentCards = await prisma.crmPaymentCard.findMany();
-    return crmPaymentCards;
+// What the client sends, the card number is only ever held in memory
+export type CrmPaymentCardInput = {
+    card_title: string;
+    card_number?: string;
+    date_end: Date;
+    crm_crard_id: number;
+};
+
+/**
+ * Public shape of a stored card: the vault token is dropped and the number is masked.
+ */
+export const maskCard = <T extends Partial<CrmPaymentCard> & { id: number }>(card: T) => {
+    const { token, ...rest } = card;
+    return rest.last4 ? { ...rest, card_number: `**** **** **** ${rest.last4}` } : rest;
+}
+
+export const getCrmPaymentCard = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { crm_card: { user_id: userId } } : undefined;
+    const [total, crmPaymentCards] = await prisma.$transaction([
+        prisma.crmPaymentCard.count({ where }),
+        prisma.crmPaymentCard.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, crmPaymentCards.map(maskCard), total);
 }
 export const getCrmPaymentCardById = async (id: number) => {
     const crmPaymentCard = await prisma.crmPaymentCard.findUnique({ where: { id } });
-    return crmPaymentCard;
+    return crmPaymentCard && maskCard(crmPaymentCard);
 }
-export const createCrmPaymentCard = async (data: Omit<CrmPaymentCard, 'id'>) => {
-    const crmPaymentCard = await prisma.crmPaymentCard.create({ data });
-    return crmPaymentCard;
+
+const assertNotExpired = (dateEnd: Date) => {
+    if (isCardExpired(dateEnd)) {
+        throw new HttpError(400, 'Card has expired');
+    }
 }
-export const updateCrmPaymentCard = async (id: number, data: Omit<CrmPaymentCard, 'id'>) => {
-    const crmPaymentCard = await prisma.crmPaymentCard.update({ where: { id }, data });
-    return crmPaymentCard;
+
+/**
+ * Validates the number, hands it to the card vault and stores only the token, last four digits and brand.
+ */
+export const createCrmPaymentCard = async (data: CrmPaymentCardInput) => {
+    const { card_title, card_number, date_end, crm_crard_id } = data;
+    assertNotExpired(date_end);
+    const { pan, last4, brand } = parseCardNumber(card_number || '');
+
+    const token = await getCardVault().tokenize(pan);
+    const crmPaymentCard = await prisma.crmPaymentCard.create({ data: { card_title, token, last4, brand, date_end, crm_crard_id } });
+    return maskCard(crmPaymentCard);
+}
+
+/**
+ * A new card number replaces the stored token, without one the card keeps its token.
+ */
+export const updateCrmPaymentCard = async (id: number, data: CrmPaymentCardInput) => {
+    const { card_title, card_number, date_end, crm_crard_id } = data;
+    const current = await prisma.crmPaymentCard.findUnique({ where: { id } });
+    if (!current) {
+        return null;
+    }
+    assertNotExpired(date_end);
+
+    let card = {};
+    if (card_number) {
+        const { pan, last4, brand } = parseCardNumber(card_number);
+        card = { token: await getCardVault().tokenize(pan), last4, brand };
+    }
+
+    const crmPaymentCard = await prisma.crmPaymentCard.update({ where: { id }, data: { card_title, date_end, crm_crard_id, ...card } });
+    if (card_number) {
+        await getCardVault().remove(current.token);
+    }
+    return maskCard(crmPaymentCard);
 }
 export const deleteCrmPaymentCard = async (id: number) => {
     const crmPaymentCard = await prisma.crmPaymentCard.delete({ where: { id } });
-    return crmPaymentCard;
-}
\ No newline at end of file
+    await getCardVault().remove(crmPaymentCard.token);
+    return maskCard(crmPaymentCard);
+}
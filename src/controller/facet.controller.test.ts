@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { getBookFacets, parsePriceRange } from './facet.controller';
+
+vi.mock('../utils/prisma');
+
+describe('parsePriceRange', () => {
+    it('reads both bounds', () => {
+        expect(parsePriceRange('10-20')).toEqual({ min: 10, max: 20 });
+    });
+
+    it('reads a range without an upper bound', () => {
+        expect(parsePriceRange('100-')).toEqual({ min: 100 });
+    });
+
+    it('reads decimal bounds', () => {
+        expect(parsePriceRange('9.5-19.99')).toEqual({ min: 9.5, max: 19.99 });
+    });
+});
+
+describe('getBookFacets', () => {
+    // The facets are read in one batched transaction, one query per facet
+    beforeEach(() => {
+        prisma.$transaction.mockImplementation((queries) => typeof queries === 'function' ? queries(prisma) : Promise.all(queries));
+        prisma.$queryRaw
+            .mockResolvedValueOnce([{ count: BigInt(3) }])
+            .mockResolvedValueOnce([{ id: 4, first_name: 'Ursula', last_name: 'Le Guin', count: BigInt(2) }])
+            .mockResolvedValueOnce([{ id: 1, name: 'Fiction', slug: 'fiction', parent_id: null, count: BigInt(3) }])
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([{ bucket: 1, count: BigInt(2) }, { bucket: 4, count: BigInt(1) }])
+            .mockResolvedValueOnce([{ year: 1969, count: BigInt(3) }])
+            .mockResolvedValueOnce([{ in_stock: true, count: BigInt(3) }]);
+    });
+
+    const queries = () => prisma.$queryRaw.mock.calls.map(([query]) => query).filter((query): query is Prisma.Sql => 'values' in query);
+
+    it('counts the books per facet value with plain numbers', async () => {
+        const facets = await getBookFacets({});
+
+        expect(facets.total).toBe(3);
+        expect(facets.authors).toEqual([{ id: 4, first_name: 'Ursula', last_name: 'Le Guin', count: 2 }]);
+        expect(facets.categories).toEqual([{ id: 1, name: 'Fiction', slug: 'fiction', parent_id: null, count: 3 }]);
+        expect(facets.publishers).toEqual([]);
+        expect(facets.prices).toEqual([
+            { key: '0-10', min: 0, max: 10, count: 0 },
+            { key: '10-20', min: 10, max: 20, count: 2 },
+            { key: '20-50', min: 20, max: 50, count: 0 },
+            { key: '50-100', min: 50, max: 100, count: 0 },
+            { key: '100-', min: 100, count: 1 },
+        ]);
+        expect(facets.years).toEqual([{ year: 1969, count: 3 }]);
+        expect(facets.availability).toEqual([{ in_stock: true, count: 3 }, { in_stock: false, count: 0 }]);
+    });
+
+    it('leaves out the own filter of every facet', async () => {
+        await getBookFacets({ author_id: [4], publisher_id: [2] });
+        const [total, authors, , publishers] = queries();
+
+        expect(total.sql).toContain('bc.author_id IN');
+        expect(total.sql).toContain('b.publisher_id IN');
+        expect(authors.sql).not.toContain('bc.author_id IN');
+        expect(authors.sql).toContain('b.publisher_id IN');
+        expect(publishers.sql).toContain('bc.author_id IN');
+        expect(publishers.sql).not.toContain('b.publisher_id IN');
+    });
+
+    it('filters on any of the selected price ranges', async () => {
+        await getBookFacets({ price_range: [{ min: 10, max: 20 }, { min: 100 }] });
+        const [total] = queries();
+
+        expect(total.sql).toBe('SELECT count(*) AS count FROM book b WHERE ((b.price >= ? AND b.price < ?) OR (b.price >= ? ))');
+        expect(total.values).toEqual([10, 20, 100]);
+    });
+});
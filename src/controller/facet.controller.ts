@@ -0,0 +1,157 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { BookFilters, PriceRange } from "./book.controller";
+
+type Dimension = 'author' | 'category' | 'publisher' | 'price' | 'year' | 'availability';
+
+// Upper edges of the price buckets, the last bucket is open-ended
+const priceEdges = (process.env.FACET_PRICE_EDGES || '10,20,50,100')
+    .split(',')
+    .map(Number)
+    .filter((edge) => edge > 0)
+    .sort((a, b) => a - b);
+
+// Most frequent authors and publishers returned, categories are always returned in full
+const facetLimit = Number(process.env.FACET_LIMIT) || 50;
+
+const priceBuckets: (PriceRange & { key: string })[] = [0, ...priceEdges].map((min, index) => {
+    const max = priceEdges[index];
+    return { key: `${min}-${max ?? ''}`, min, ...(max !== undefined && { max }) };
+});
+
+/**
+ * Parses a `price_range` value in the form of a bucket key: `10-20`, or `100-` without an upper bound.
+ */
+export const parsePriceRange = (value: string): PriceRange => {
+    const [min, max] = value.split('-');
+    return { ...(min !== '' && { min: Number(min) }), ...(max !== '' && max !== undefined && { max: Number(max) }) };
+}
+
+/**
+ * The SQL twin of `bookFilterWhere` over `book b`, leaving out the filters of `except`.
+ */
+const filterSql = (filters: BookFilters, except?: Dimension) => {
+    const { author_id, role, category_id, publisher_id, min_price, max_price, price_range, year, in_stock, min_rating } = filters;
+    const conditions: Prisma.Sql[] = [];
+
+    if (except !== 'author' && (author_id?.length || role)) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM book_contributor bc
+            WHERE bc.book_id = b.id
+            ${author_id?.length ? Prisma.sql`AND bc.author_id IN (${Prisma.join(author_id)})` : Prisma.empty}
+            ${role ? Prisma.sql`AND bc.role = ${role}` : Prisma.empty}
+        )`);
+    }
+    if (except !== 'category' && category_id?.length) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM categories c
+            JOIN categories s ON s.id IN (${Prisma.join(category_id)}) AND c.path LIKE s.path || '%'
+            WHERE c.id = b.category_id
+        )`);
+    }
+    if (except !== 'publisher' && publisher_id?.length) {
+        conditions.push(Prisma.sql`b.publisher_id IN (${Prisma.join(publisher_id)})`);
+    }
+    if (except !== 'price') {
+        if (min_price !== undefined) conditions.push(Prisma.sql`b.price >= ${min_price}`);
+        if (max_price !== undefined) conditions.push(Prisma.sql`b.price <= ${max_price}`);
+        if (price_range?.length) {
+            conditions.push(Prisma.sql`(${Prisma.join(price_range.map(({ min, max }) => Prisma.sql`(b.price >= ${min ?? 0} ${max !== undefined ? Prisma.sql`AND b.price < ${max}` : Prisma.empty})`), ' OR ')})`);
+        }
+    }
+    if (except !== 'year' && year?.length) {
+        conditions.push(Prisma.sql`EXTRACT(YEAR FROM b.published_at)::int IN (${Prisma.join(year)})`);
+    }
+    if (except !== 'availability' && in_stock !== undefined) {
+        conditions.push(in_stock ? Prisma.sql`b.stock > 0` : Prisma.sql`b.stock <= 0`);
+    }
+    if (min_rating !== undefined) {
+        conditions.push(Prisma.sql`b.rating_average >= ${min_rating}`);
+    }
+
+    return conditions.length ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+}
+
+type CountRow = { count: bigint };
+
+/**
+ * Book counts per author, category, publisher, price bucket, publication year and availability
+ * for the books matching `filters`. Each facet ignores its own filter, so the counts show what
+ * selecting one more value of it would add: picking an author keeps the other authors listed.
+ *
+ * Authors count books where they have `role`, `author` by default. Categories count their whole subtree.
+ */
+export const getBookFacets = async (filters: BookFilters) => {
+    const role = filters.role || 'author';
+
+    const [total, authors, categories, publishers, prices, years, availability] = await prisma.$transaction([
+        prisma.$queryRaw<CountRow[]>(Prisma.sql`SELECT count(*) AS count FROM book b ${filterSql(filters)}`),
+        prisma.$queryRaw<(CountRow & { id: number; first_name: string; last_name: string })[]>(Prisma.sql`
+            SELECT a.id, a."firstName" AS first_name, a."lastName" AS last_name, count(*) AS count
+            FROM book b
+            JOIN book_contributor r ON r.book_id = b.id AND r.role = ${role}
+            JOIN author a ON a.id = r.author_id
+            ${filterSql(filters, 'author')}
+            GROUP BY a.id
+            ORDER BY count DESC, a.id
+            LIMIT ${facetLimit}
+        `),
+        prisma.$queryRaw<(CountRow & { id: number; name: string; slug: string; parent_id: number | null })[]>(Prisma.sql`
+            SELECT s.id, s.name, s.slug, s.parent_id, count(*) AS count
+            FROM book b
+            JOIN categories leaf ON leaf.id = b.category_id
+            JOIN categories s ON leaf.path LIKE s.path || '%'
+            ${filterSql(filters, 'category')}
+            GROUP BY s.id
+            ORDER BY s.path
+        `),
+        prisma.$queryRaw<(CountRow & { id: number; name: string })[]>(Prisma.sql`
+            SELECT p.id, p.name, count(*) AS count
+            FROM book b
+            JOIN publishers p ON p.id = b.publisher_id
+            ${filterSql(filters, 'publisher')}
+            GROUP BY p.id
+            ORDER BY count DESC, p.id
+            LIMIT ${facetLimit}
+        `),
+        // width_bucket gives 0 below the first edge and i from the i-th edge on
+        prisma.$queryRaw<(CountRow & { bucket: number })[]>(Prisma.sql`
+            SELECT width_bucket(b.price, ${priceEdges}::float8[]) AS bucket, count(*) AS count
+            FROM book b
+            ${filterSql(filters, 'price')}
+            GROUP BY bucket
+        `),
+        prisma.$queryRaw<(CountRow & { year: number })[]>(Prisma.sql`
+            SELECT EXTRACT(YEAR FROM b.published_at)::int AS year, count(*) AS count
+            FROM book b
+            ${filterSql(filters, 'year')}
+            GROUP BY year
+            ORDER BY year DESC
+        `),
+        prisma.$queryRaw<(CountRow & { in_stock: boolean })[]>(Prisma.sql`
+            SELECT b.stock > 0 AS in_stock, count(*) AS count
+            FROM book b
+            ${filterSql(filters, 'availability')}
+            GROUP BY in_stock
+        `),
+    ]);
+
+    const countOf = <T extends CountRow>(row: T) => ({ ...row, count: Number(row.count) });
+
+    return {
+        total: Number(total[0]?.count ?? 0),
+        authors: authors.map(countOf),
+        categories: categories.map(countOf),
+        publishers: publishers.map(countOf),
+        prices: priceBuckets.map((bucket, index) => ({
+            ...bucket,
+            count: Number(prices.find((row) => row.bucket === index)?.count ?? 0),
+        })),
+        years: years.map(countOf),
+        availability: [true, false].map((inStock) => ({
+            in_stock: inStock,
+            count: Number(availability.find((row) => row.in_stock === inStock)?.count ?? 0),
+        })),
+    };
+}
@@ -0,0 +1,127 @@
+import { StockReservation } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { convertReservations, moveStock, restockOrder } from './inventory.controller';
+import { triggerBackInStock } from './stockSubscription.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./stockSubscription.controller', () => ({ triggerBackInStock: vi.fn() }));
+
+const reservation = (bookId: number, quantity: number): StockReservation => ({
+    id: bookId * 10,
+    book_id: bookId,
+    order_id: 5,
+    quantity,
+    status: 'active',
+    expires_at: new Date(),
+    created_at: new Date(),
+});
+
+type GroupedMovement = Awaited<ReturnType<typeof prisma.stockMovement.groupBy>>[number];
+
+// A row of the ledger grouped by book, only `book_id` and the summed quantity are read
+const soldRow = (bookId: number, quantity: number): GroupedMovement => ({
+    id: 0,
+    book_id: bookId,
+    type: 'sale',
+    quantity: 0,
+    stock_after: 0,
+    order_id: 5,
+    return_request_id: null,
+    purchase_order_id: null,
+    actor_id: null,
+    comment: null,
+    created_at: new Date(),
+    _count: undefined,
+    _avg: undefined,
+    _sum: { quantity },
+    _min: undefined,
+    _max: undefined,
+});
+
+const ledger = () => prisma.stockMovement.create.mock.calls.map(([{ data }]) => data);
+
+describe('moveStock', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('applies the movement to the stock and appends it to the ledger', async () => {
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 4 }]);
+
+        await moveStock(prisma, 7, 'sale', -3, { orderId: 5 });
+
+        expect(prisma.book.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { stock: 1 } });
+        expect(ledger()).toEqual([expect.objectContaining({ book_id: 7, type: 'sale', quantity: -3, stock_after: 1, order_id: 5 })]);
+        expect(triggerBackInStock).not.toHaveBeenCalled();
+    });
+
+    it('never takes the stock below zero', async () => {
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 2 }]);
+
+        await expect(moveStock(prisma, 7, 'reservation', -3)).rejects.toMatchObject({
+            status: 409,
+            details: [{ bookId: 7, requested: 3, available: 2 }],
+        });
+        expect(prisma.book.update).not.toHaveBeenCalled();
+        expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('fires the back-in-stock subscriptions when a book comes back from zero', async () => {
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 0 }]);
+
+        await moveStock(prisma, 7, 'receipt', 5);
+
+        expect(triggerBackInStock).toHaveBeenCalledWith(prisma, 7);
+    });
+
+    it('fails for an unknown book', async () => {
+        prisma.$queryRaw.mockResolvedValue([]);
+
+        await expect(moveStock(prisma, 7, 'receipt', 5)).rejects.toMatchObject({ status: 404 });
+    });
+});
+
+describe('convertReservations', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('books the release and the sale without changing the stock', async () => {
+        prisma.stockReservation.findMany.mockResolvedValue([reservation(7, 2)]);
+        // The order holds the last copies
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 0 }]);
+
+        await convertReservations(prisma, 5);
+
+        expect(ledger()).toEqual([
+            expect.objectContaining({ book_id: 7, type: 'release', quantity: 2, stock_after: 2 }),
+            expect.objectContaining({ book_id: 7, type: 'sale', quantity: -2, stock_after: 0 }),
+        ]);
+        expect(prisma.book.update).not.toHaveBeenCalled();
+        expect(triggerBackInStock).not.toHaveBeenCalled();
+        expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({ where: { id: { in: [70] } }, data: { status: 'converted' } });
+    });
+});
+
+describe('restockOrder', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('releases held stock and returns what was sold less what came back', async () => {
+        prisma.stockReservation.findMany.mockResolvedValue([reservation(7, 2)]);
+        prisma.$queryRaw.mockResolvedValueOnce([{ id: 7, stock: 1 }]).mockResolvedValueOnce([{ id: 8, stock: 0 }]);
+        vi.mocked(prisma.stockMovement.groupBy).mockResolvedValue([soldRow(8, -3), soldRow(9, 0)]);
+
+        await restockOrder(prisma, 5, { actorId: 1 });
+
+        expect(ledger()).toEqual([
+            expect.objectContaining({ book_id: 7, type: 'release', quantity: 2, stock_after: 3, order_id: 5, actor_id: 1 }),
+            expect.objectContaining({ book_id: 8, type: 'return', quantity: 3, stock_after: 3, order_id: 5, actor_id: 1 }),
+        ]);
+        expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({ where: { id: { in: [70] } }, data: { status: 'released' } });
+        expect(prisma.stockReservation.updateMany).toHaveBeenCalledWith({ where: { order_id: 5, status: 'converted' }, data: { status: 'returned' } });
+    });
+});
@@ -0,0 +1,160 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { triggerBackInStock } from "./stockSubscription.controller";
+
+export type MovementType = 'receipt' | 'sale' | 'return' | 'adjustment' | 'reservation' | 'release';
+
+export type MovementRefs = { orderId?: number; returnRequestId?: number; purchaseOrderId?: number; actorId?: number; comment?: string };
+
+const reservationMinutes = Number(process.env.STOCK_RESERVATION_MINUTES) || 30;
+
+/**
+ * Locks the rows of the books until the transaction ends. Rows are locked in id order,
+ * so two transactions moving the same books cannot deadlock.
+ */
+export const lockBooks = async (tx: Prisma.TransactionClient, ids: number[]) => {
+    if (!ids.length) {
+        return [];
+    }
+    return tx.$queryRaw<{ id: number; stock: number }[]>(Prisma.sql`
+        SELECT id, stock FROM "book" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE
+    `);
+}
+
+const appendMovement = (tx: Prisma.TransactionClient, bookId: number, type: MovementType, quantity: number, stockAfter: number, refs: MovementRefs) => {
+    return tx.stockMovement.create({
+        data: {
+            book_id: bookId,
+            type,
+            quantity,
+            stock_after: stockAfter,
+            order_id: refs.orderId,
+            return_request_id: refs.returnRequestId,
+            purchase_order_id: refs.purchaseOrderId,
+            actor_id: refs.actorId,
+            comment: refs.comment,
+        },
+    });
+}
+
+/**
+ * Appends a movement to the stock ledger and applies it to `Book.stock`. Every change of the stock
+ * goes through here, so the stock always equals the sum of the ledger. Stock never drops below zero.
+ * A book coming back from zero triggers its back-in-stock subscriptions.
+ */
+export const moveStock = async (tx: Prisma.TransactionClient, bookId: number, type: MovementType, quantity: number, refs: MovementRefs = {}) => {
+    const [book] = await lockBooks(tx, [bookId]);
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+
+    const stock = book.stock + quantity;
+    if (stock < 0) {
+        throw new HttpError(409, 'Not enough books in stock', [{ bookId, requested: -quantity, available: book.stock }]);
+    }
+
+    await tx.book.update({ where: { id: bookId }, data: { stock } });
+    if (book.stock <= 0 && stock > 0) {
+        await triggerBackInStock(tx, bookId);
+    }
+    return appendMovement(tx, bookId, type, quantity, stock, refs);
+}
+
+/**
+ * Sets the stock of a book to `stock` with an adjustment movement.
+ */
+export const adjustStockTo = async (tx: Prisma.TransactionClient, bookId: number, stock: number, refs: MovementRefs = {}) => {
+    const [book] = await lockBooks(tx, [bookId]);
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+    if (book.stock !== stock) {
+        await moveStock(tx, bookId, 'adjustment', stock - book.stock, refs);
+    }
+}
+
+/**
+ * Holds stock for an order that awaits payment. The reservation expires after STOCK_RESERVATION_MINUTES.
+ */
+export const reserveStock = async (tx: Prisma.TransactionClient, orderId: number, bookId: number, quantity: number, actorId?: number) => {
+    await moveStock(tx, bookId, 'reservation', -quantity, { orderId, actorId });
+    return tx.stockReservation.create({
+        data: {
+            book_id: bookId,
+            order_id: orderId,
+            quantity,
+            expires_at: new Date(Date.now() + reservationMinutes * 60 * 1000),
+        },
+    });
+}
+
+/**
+ * Turns the reservations of a paid order into sales: each held quantity is released and sold in one step.
+ * The held copies are already off the stock, so only the ledger gets both movements and `Book.stock`
+ * never looks available in between, which would fire the back-in-stock subscriptions.
+ */
+export const convertReservations = async (tx: Prisma.TransactionClient, orderId: number, actorId?: number) => {
+    const reservations = await tx.stockReservation.findMany({ where: { order_id: orderId, status: 'active' } });
+    const books = await lockBooks(tx, reservations.map(({ book_id }) => book_id));
+    for (const reservation of reservations) {
+        const stock = books.find(({ id }) => id === reservation.book_id)?.stock ?? 0;
+        await appendMovement(tx, reservation.book_id, 'release', reservation.quantity, stock + reservation.quantity, { orderId, actorId });
+        await appendMovement(tx, reservation.book_id, 'sale', -reservation.quantity, stock, { orderId, actorId });
+    }
+    await tx.stockReservation.updateMany({ where: { id: { in: reservations.map(({ id }) => id) } }, data: { status: 'converted' } });
+}
+
+/**
+ * Puts the books of a canceled order back: held stock is released and sold stock is returned. Only what the
+ * ledger shows was taken for the order goes back, less what a return already brought back, never the raw
+ * order items.
+ */
+export const restockOrder = async (tx: Prisma.TransactionClient, orderId: number, refs: MovementRefs = {}) => {
+    const reservations = await tx.stockReservation.findMany({ where: { order_id: orderId, status: 'active' } });
+    for (const reservation of reservations) {
+        await moveStock(tx, reservation.book_id, 'release', reservation.quantity, { ...refs, orderId });
+    }
+    await tx.stockReservation.updateMany({ where: { id: { in: reservations.map(({ id }) => id) } }, data: { status: 'released' } });
+
+    const sold = await tx.stockMovement.groupBy({
+        by: ['book_id'],
+        where: { order_id: orderId, type: { in: ['sale', 'return'] } },
+        _sum: { quantity: true },
+        orderBy: { book_id: 'asc' },
+    });
+    for (const row of sold) {
+        // Sales are negative and returns positive, what is still out is the negated sum
+        const quantity = -(row._sum.quantity ?? 0);
+        if (quantity > 0) {
+            await moveStock(tx, row.book_id, 'return', quantity, { ...refs, orderId });
+        }
+    }
+    await tx.stockReservation.updateMany({ where: { order_id: orderId, status: 'converted' }, data: { status: 'returned' } });
+}
+
+export const getStockHistory = async (bookId: number, list: ListQuery) => {
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } });
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+
+    const where = { book_id: bookId };
+    const [total, movements] = await prisma.$transaction([
+        prisma.stockMovement.count({ where }),
+        prisma.stockMovement.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, movements, total);
+}
+
+export const recordStockMovement = async (bookId: number, type: 'receipt' | 'adjustment', quantity: number, refs: MovementRefs = {}) => {
+    if (type === 'receipt' && quantity <= 0) {
+        throw new HttpError(400, 'Receipt quantity must be positive');
+    }
+    if (quantity === 0) {
+        throw new HttpError(400, 'Quantity must not be zero');
+    }
+    return prisma.$transaction((tx) => moveStock(tx, bookId, type, quantity, refs));
+}
@@ -0,0 +1,267 @@
+import { Book, CrmEmail, Order, OrderItem, OrderStatus, Payment, Prisma, StockReservation } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { lockBooks, reserveStock, restockOrder } from './inventory.controller';
+import { expireReservations, getOrderHistory, moveOrderStatus, placeOrder } from './order.controller';
+import { Pricing, priceItems, redeemPromotions } from './promotion.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./inventory.controller', () => ({ convertReservations: vi.fn(), lockBooks: vi.fn(), reserveStock: vi.fn(), restockOrder: vi.fn() }));
+vi.mock('./promotion.controller', () => ({ priceItems: vi.fn(), redeemPromotions: vi.fn(), releasePromotions: vi.fn() }));
+
+const status = (id: number, flags: Partial<OrderStatus>): OrderStatus => ({
+    id,
+    title: `Status ${id}`,
+    is_done: false,
+    is_awaiting_payment: false,
+    is_paid: false,
+    is_confirmed: false,
+    is_performed: false,
+    is_canceled: false,
+    ...flags,
+});
+
+const awaitingPayment = status(1, { is_awaiting_payment: true });
+const canceled = status(6, { is_canceled: true });
+
+const order: Order & { order_status: OrderStatus; OrderItem: OrderItem[] } = {
+    id: 5,
+    subtotal_amount: 100,
+    discount_amount: 0,
+    total_amount: 100,
+    refunded_amount: 0,
+    order_status_id: awaitingPayment.id,
+    order_date: new Date(),
+    user_id: 2,
+    order_status: awaitingPayment,
+    OrderItem: [],
+};
+
+const payment = (fields: Partial<Payment>): Payment => ({
+    id: 3,
+    order_id: 5,
+    crm_payment_card_id: 1,
+    provider: 'mock',
+    reference: null,
+    amount: 100,
+    refunded_amount: 0,
+    currency: 'UAH',
+    status: 'pending',
+    error: null,
+    idempotency_key: 'key-1',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...fields,
+});
+
+const reservation: StockReservation = { id: 1, book_id: 7, order_id: 5, quantity: 1, status: 'active', expires_at: new Date(0), created_at: new Date(0) };
+
+const book = (id: number, price: number): Book => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price,
+    published_at: new Date(),
+    stock: 0,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+});
+
+const mainEmail = (verifiedAt: Date | null): CrmEmail => ({ id: 3, email: 'reader@example.com', is_main: true, verified_at: verifiedAt, crm_crard_id: 2 });
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+describe('placeOrder', () => {
+    const pricing: Pricing = {
+        subtotal_amount: 41,
+        discount_amount: 4.1,
+        total_amount: 36.9,
+        items: [
+            { bookId: 1, quantity: 2, price: 12.5, subtotal: 25, discount_amount: 2.5, discounts: [{ promotion_id: 9, amount: 2.5 }] },
+            { bookId: 2, quantity: 2, price: 8, subtotal: 16, discount_amount: 1.6, discounts: [{ promotion_id: 9, amount: 1.6 }] },
+        ],
+        promotions: [{ promotion_id: 9, name: 'Spring sale', code: null, amount: 4.1 }],
+    };
+
+    const placed: Prisma.OrderGetPayload<{ include: { OrderItem: { include: { OrderItemDiscount: true } }; order_status: true } }> = { ...order, OrderItem: [] };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        prisma.crmEmail.findFirst.mockResolvedValue(mainEmail(new Date()));
+        prisma.orderStatus.findFirst.mockResolvedValue(awaitingPayment);
+        prisma.book.findMany.mockResolvedValue([book(1, 12.5), book(2, 8)]);
+        vi.mocked(lockBooks).mockResolvedValue([{ id: 1, stock: 5 }, { id: 2, stock: 2 }]);
+        vi.mocked(priceItems).mockResolvedValue(pricing);
+        prisma.order.create.mockResolvedValue(placed);
+    });
+
+    const items = [{ bookId: 1, quantity: 1 }, { bookId: 2, quantity: 2 }, { bookId: 1, quantity: 1 }];
+
+    it('creates the order at the server-side prices and reserves the books', async () => {
+        await placeOrder(prisma, 2, items, 'SAVE10');
+
+        expect(priceItems).toHaveBeenCalledWith(expect.anything(), 2, items, 'SAVE10');
+        expect(prisma.order.create).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({
+                subtotal_amount: 41,
+                discount_amount: 4.1,
+                total_amount: 36.9,
+                order_status_id: awaitingPayment.id,
+                user_id: 2,
+                OrderItem: {
+                    create: [
+                        { bookId: 1, quantity: 2, price: 12.5, discount_amount: 2.5, OrderItemDiscount: { create: [{ promotion_id: 9, amount: 2.5 }] } },
+                        { bookId: 2, quantity: 2, price: 8, discount_amount: 1.6, OrderItemDiscount: { create: [{ promotion_id: 9, amount: 1.6 }] } },
+                    ],
+                },
+            }),
+        }));
+        expect(redeemPromotions).toHaveBeenCalledWith(expect.anything(), 5, 2, pricing);
+        expect(reserveStock).toHaveBeenCalledWith(expect.anything(), 5, 1, 2, 2);
+        expect(reserveStock).toHaveBeenCalledWith(expect.anything(), 5, 2, 2, 2);
+    });
+
+    it('rejects the whole order when a book is short', async () => {
+        vi.mocked(lockBooks).mockResolvedValue([{ id: 1, stock: 5 }, { id: 2, stock: 1 }]);
+
+        await expect(placeOrder(prisma, 2, items)).rejects.toMatchObject({
+            status: 409,
+            details: [{ bookId: 2, requested: 2, available: 1 }],
+        });
+        expect(prisma.order.create).not.toHaveBeenCalled();
+        expect(reserveStock).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 for unknown books', async () => {
+        prisma.book.findMany.mockResolvedValue([book(1, 12.5)]);
+
+        await expect(placeOrder(prisma, 2, items)).rejects.toMatchObject({ status: 404, details: { bookIds: [2] } });
+        expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+
+    it('needs a verified main email', async () => {
+        prisma.crmEmail.findFirst.mockResolvedValue(mainEmail(null));
+
+        await expect(placeOrder(prisma, 2, items)).rejects.toMatchObject({ status: 403 });
+        expect(lockBooks).not.toHaveBeenCalled();
+    });
+});
+
+describe('moveOrderStatus', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        prisma.order.findUnique.mockResolvedValue(order);
+        prisma.order.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it.each(['pending', 'authorized', 'captured', 'partially_refunded'])('refuses to cancel an order with a %s payment', async (paymentStatus) => {
+        prisma.payment.findFirst.mockResolvedValue(payment({ status: paymentStatus }));
+
+        await expect(moveOrderStatus(prisma, 5, canceled)).rejects.toMatchObject({ status: 409, details: { paymentId: 3 } });
+        expect(prisma.payment.findFirst).toHaveBeenCalledWith({
+            where: { order_id: 5, status: { in: ['pending', 'authorized', 'captured', 'partially_refunded'] } },
+        });
+        expect(restockOrder).not.toHaveBeenCalled();
+    });
+
+    it('cancels an unpaid order and puts its books back', async () => {
+        prisma.payment.findFirst.mockResolvedValue(null);
+
+        await moveOrderStatus(prisma, 5, canceled, { actorId: 1 });
+
+        expect(prisma.order.updateMany).toHaveBeenCalledWith({ where: { id: 5, order_status_id: 1 }, data: { order_status_id: 6 } });
+        expect(restockOrder).toHaveBeenCalledWith(prisma, 5, { actorId: 1, comment: undefined });
+    });
+
+    it('records the move in the status history', async () => {
+        prisma.payment.findFirst.mockResolvedValue(null);
+
+        await moveOrderStatus(prisma, 5, canceled, { actorId: 1, comment: 'Customer asked' });
+
+        expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+            data: { order_id: 5, old_status_id: 1, new_status_id: 6, actor_id: 1, comment: 'Customer asked' },
+        });
+    });
+
+    it('records nothing when another request moved the order first', async () => {
+        prisma.payment.findFirst.mockResolvedValue(null);
+        prisma.order.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(moveOrderStatus(prisma, 5, canceled)).rejects.toMatchObject({ status: 409 });
+        expect(prisma.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses moves the workflow does not allow', async () => {
+        await expect(moveOrderStatus(prisma, 5, status(4, { is_performed: true }))).rejects.toMatchObject({ status: 409 });
+        expect(prisma.order.updateMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('expireReservations', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        prisma.stockReservation.findMany.mockResolvedValue([reservation]);
+        prisma.order.findUnique.mockResolvedValue(order);
+        prisma.order.updateMany.mockResolvedValue({ count: 1 });
+        prisma.orderStatus.findMany.mockResolvedValue([canceled]);
+        prisma.payment.findFirst.mockResolvedValue(null);
+    });
+
+    it('cancels an order without payment', async () => {
+        prisma.payment.findMany.mockResolvedValue([]);
+
+        await expect(expireReservations()).resolves.toBe(1);
+        expect(restockOrder).toHaveBeenCalled();
+    });
+
+    it('leaves an order whose payment is in progress', async () => {
+        prisma.payment.findMany.mockResolvedValue([payment({ status: 'pending', created_at: new Date() })]);
+
+        await expect(expireReservations()).resolves.toBe(0);
+        expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+        expect(restockOrder).not.toHaveBeenCalled();
+    });
+
+    it('leaves an order whose payment holds money', async () => {
+        prisma.payment.findMany.mockResolvedValue([payment({ status: 'partially_refunded', created_at: hoursAgo(5) })]);
+
+        await expect(expireReservations()).resolves.toBe(0);
+        expect(restockOrder).not.toHaveBeenCalled();
+    });
+
+    it('declines a payment the provider never answered and releases the books', async () => {
+        prisma.payment.findMany.mockResolvedValue([payment({ status: 'pending', created_at: hoursAgo(5) })]);
+        prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+
+        await expect(expireReservations()).resolves.toBe(1);
+        expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: [3] }, status: 'pending' },
+            data: { status: 'declined', error: 'Payment provider did not answer' },
+        });
+        expect(restockOrder).toHaveBeenCalled();
+    });
+
+    it('keeps the order when a webhook settled the payment meanwhile', async () => {
+        prisma.payment.findMany.mockResolvedValue([payment({ status: 'pending', created_at: hoursAgo(5) })]);
+        prisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(expireReservations()).resolves.toBe(0);
+        expect(restockOrder).not.toHaveBeenCalled();
+    });
+});
+
+describe('getOrderHistory', () => {
+    it('fails for an unknown order', async () => {
+        prisma.order.findUnique.mockResolvedValue(null);
+
+        await expect(getOrderHistory(5)).rejects.toMatchObject({ status: 404 });
+        expect(prisma.orderStatusHistory.findMany).not.toHaveBeenCalled();
+    });
+});
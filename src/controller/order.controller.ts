@@ -1,24 +1,268 @@
-import { Order } from "@prisma/client";
+import { Order, OrderStatus, Prisma } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { HttpError } from "../utils/errors";
+import { OrderAction, actionTargets, canTransition, statusKind, transitions } from "../utils/orderWorkflow";
+import { openPaymentStatuses } from "../utils/paymentProvider";
+import { convertReservations, lockBooks, reserveStock, restockOrder } from "./inventory.controller";
+import { priceItems, redeemPromotions, releasePromotions } from "./promotion.controller";
 
-export const getOrder = async () => {
-    const order = await prisma.order.findMany();
-    return order;
+export const getOrder = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { user_id: userId } : undefined;
+    const [total, order] = await prisma.$transaction([
+        prisma.order.count({ where }),
+        prisma.order.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, order, total);
 }
 export const getOrderById = async (id: number) => {
     const order = await prisma.order.findUnique({ where: { id } });
-    return order;
+    return order && { ...order, net_total: order.total_amount - order.refunded_amount };
 }
-export const createOrder = async (data: Omit<Order, 'id'>) => {
-    const order = await prisma.order.create({ data });
+export const createOrder = async (data: Omit<Order, 'id' | 'refunded_amount'>, change: StatusChange = {}) => {
+    const order = await prisma.order.create({
+        data: {
+            ...data,
+            OrderStatusHistory: {
+                create: { new_status_id: data.order_status_id, actor_id: change.actorId, comment: change.comment },
+            },
+        },
+    });
     return order;
 }
-export const updateOrder = async (id: number, data: Omit<Order, 'id'>) => {
-    const order = await prisma.order.update({ where: { id }, data });
-    return order;
+export const updateOrder = async (id: number, data: Omit<Order, 'id' | 'refunded_amount'>, change: StatusChange = {}) => {
+    return prisma.$transaction(async (tx) => {
+        const current = await tx.order.findUnique({ where: { id } });
+        if (!current) {
+            return null;
+        }
+
+        const { order_status_id, ...rest } = data;
+        if (order_status_id !== undefined && Number(order_status_id) !== current.order_status_id) {
+            const status = await tx.orderStatus.findUnique({ where: { id: Number(order_status_id) } });
+            if (!status) {
+                throw new HttpError(404, 'Order status not found');
+            }
+            await moveOrderStatus(tx, id, status, change);
+        }
+
+        const order = await tx.order.update({ where: { id }, data: rest });
+        return order;
+    });
 }
 export const deleteOrder = async (id: number) => {
     const order = await prisma.order.delete({ where: { id } });
     return order;
-}
\ No newline at end of file
+}
+export type CheckoutItem = { bookId: number; quantity: number };
+
+// Who changed the order status and why, stored in the status history
+export type StatusChange = { actorId?: number; comment?: string };
+
+/**
+ * Creates an order from a list of books inside the given transaction: prices are taken from `Book.price`,
+ * promotions and the coupon are applied by `priceItems` and the books are reserved until the order is paid.
+ * Every order item records the discounts taken off it. Throws before anything is committed if a book is
+ * short, the coupon cannot be used or the user has not verified their main email.
+ */
+export const placeOrder = async (tx: Prisma.TransactionClient, userId: number, items: CheckoutItem[], couponCode?: string | null) => {
+    const mainEmail = await tx.crmEmail.findFirst({ where: { is_main: true, crm_card: { user_id: userId } } });
+    if (!mainEmail?.verified_at) {
+        throw new HttpError(403, 'Main email must be verified before checkout');
+    }
+
+    const quantities = new Map<number, number>();
+    for (const item of items) {
+        quantities.set(item.bookId, (quantities.get(item.bookId) || 0) + item.quantity);
+    }
+
+    const status = await tx.orderStatus.findFirst({ where: { is_awaiting_payment: true } });
+    if (!status) {
+        throw new HttpError(500, 'Order status awaiting payment not found');
+    }
+
+    const books = await tx.book.findMany({ where: { id: { in: [...quantities.keys()] } } });
+    const missing = [...quantities.keys()].filter((id) => !books.some((book) => book.id === id));
+    if (missing.length) {
+        throw new HttpError(404, 'Book not found', { bookIds: missing });
+    }
+
+    const shortages = (await lockBooks(tx, [...quantities.keys()]))
+        .filter((book) => book.stock < (quantities.get(book.id) as number))
+        .map((book) => ({ bookId: book.id, requested: quantities.get(book.id) as number, available: book.stock }));
+    if (shortages.length) {
+        throw new HttpError(409, 'Not enough books in stock', shortages);
+    }
+
+    const pricing = await priceItems(tx, userId, items, couponCode);
+
+    const order = await tx.order.create({
+        data: {
+            subtotal_amount: pricing.subtotal_amount,
+            discount_amount: pricing.discount_amount,
+            total_amount: pricing.total_amount,
+            order_status_id: status.id,
+            order_date: new Date(),
+            user_id: userId,
+            OrderStatusHistory: {
+                create: { new_status_id: status.id, actor_id: userId },
+            },
+            OrderItem: {
+                create: pricing.items.map((item) => ({
+                    bookId: item.bookId,
+                    quantity: item.quantity,
+                    price: item.price,
+                    discount_amount: item.discount_amount,
+                    OrderItemDiscount: { create: item.discounts },
+                })),
+            },
+        },
+        include: { OrderItem: { include: { OrderItemDiscount: true } }, order_status: true },
+    });
+    await redeemPromotions(tx, order.id, userId, pricing);
+
+    for (const book of books) {
+        await reserveStock(tx, order.id, book.id, quantities.get(book.id) as number, userId);
+    }
+    return order;
+}
+
+export const checkout = async (userId: number, items: CheckoutItem[], couponCode?: string | null) => {
+    return prisma.$transaction((tx) => placeOrder(tx, userId, items, couponCode));
+}
+
+/**
+ * Moves the order into `status` inside the given transaction. Moves the workflow does not allow are
+ * rejected with 409. Paying turns the stock reservations into sales, canceling returns the books to stock.
+ * An order cannot be canceled while its payment holds money, the payment is voided or refunded first.
+ */
+export const moveOrderStatus = async (tx: Prisma.TransactionClient, id: number, status: OrderStatus, change: StatusChange = {}) => {
+    const order = await tx.order.findUnique({ where: { id }, include: { order_status: true, OrderItem: true } });
+    if (!order) {
+        throw new HttpError(404, 'Order not found');
+    }
+
+    const from = statusKind(order.order_status);
+    const to = statusKind(status);
+    if (!to || !canTransition(from, to)) {
+        throw new HttpError(409, `Order cannot move from "${order.order_status.title}" to "${status.title}"`, {
+            from,
+            to,
+            allowed: from ? transitions[from] : [],
+        });
+    }
+
+    if (to === 'is_canceled') {
+        const payment = await tx.payment.findFirst({
+            where: { order_id: id, status: { in: openPaymentStatuses } },
+        });
+        if (payment) {
+            throw new HttpError(409, 'Order has a payment, void or refund it before canceling', { paymentId: payment.id });
+        }
+    }
+
+    // Guards against a concurrent transition that already moved the order away from `from`
+    const updated = await tx.order.updateMany({
+        where: { id, order_status_id: order.order_status_id },
+        data: { order_status_id: status.id },
+    });
+    if (!updated.count) {
+        throw new HttpError(409, 'Order status was changed by another request');
+    }
+
+    await tx.orderStatusHistory.create({
+        data: {
+            order_id: id,
+            old_status_id: order.order_status_id,
+            new_status_id: status.id,
+            actor_id: change.actorId,
+            comment: change.comment,
+        },
+    });
+
+    if (to === 'is_paid') {
+        await convertReservations(tx, id, change.actorId);
+    }
+    if (to === 'is_canceled') {
+        await restockOrder(tx, id, { actorId: change.actorId, comment: change.comment });
+        await releasePromotions(tx, id);
+    }
+
+    return tx.order.findUnique({ where: { id }, include: { OrderItem: true, order_status: true } });
+}
+
+export const applyOrderAction = async (tx: Prisma.TransactionClient, id: number, action: OrderAction, change: StatusChange = {}) => {
+    const kind = actionTargets[action];
+    const statuses = await tx.orderStatus.findMany({ where: { [kind]: true }, orderBy: { id: 'asc' } });
+    const status = statuses.find((status) => statusKind(status) === kind);
+    if (!status) {
+        throw new HttpError(500, `Order status for "${action}" not found`);
+    }
+    return moveOrderStatus(tx, id, status, change);
+}
+
+export const transitionOrder = async (id: number, action: OrderAction, change: StatusChange = {}) => {
+    return prisma.$transaction((tx) => applyOrderAction(tx, id, action, change));
+}
+
+const pendingPaymentMinutes = Number(process.env.PAYMENT_PENDING_EXPIRES_IN_MINUTES) || 60;
+
+/**
+ * Cancels the unpaid orders whose stock reservation expired, which releases the held books.
+ * Orders with a payment in progress are left for the payment to settle. A payment the provider never
+ * answered is declined after PAYMENT_PENDING_EXPIRES_IN_MINUTES, so it cannot hold the books forever.
+ */
+export const expireReservations = async () => {
+    const expired = await prisma.stockReservation.findMany({
+        where: { status: 'active', expires_at: { lt: new Date() } },
+        distinct: ['order_id'],
+        select: { order_id: true },
+    });
+
+    let canceled = 0;
+    for (const { order_id } of expired) {
+        try {
+            await prisma.$transaction(async (tx) => {
+                const payments = await tx.payment.findMany({ where: { order_id, status: { in: openPaymentStatuses } } });
+                const staleBefore = new Date(Date.now() - pendingPaymentMinutes * 60 * 1000);
+                const stale = payments.filter((payment) => payment.status === 'pending' && payment.created_at < staleBefore);
+                if (stale.length < payments.length) {
+                    return;
+                }
+                if (stale.length) {
+                    // Conditional, a webhook settling the payment meanwhile keeps the order
+                    const declined = await tx.payment.updateMany({
+                        where: { id: { in: stale.map(({ id }) => id) }, status: 'pending' },
+                        data: { status: 'declined', error: 'Payment provider did not answer' },
+                    });
+                    if (declined.count < stale.length) {
+                        return;
+                    }
+                }
+                await applyOrderAction(tx, order_id, 'cancel', { comment: 'Stock reservation expired' });
+                canceled++;
+            });
+        } catch (error: any) {
+            console.error(`Could not expire the reservation of order ${order_id}:`, error.message);
+        }
+    }
+    return canceled;
+}
+
+export const getOrderHistory = async (id: number) => {
+    const order = await prisma.order.findUnique({ where: { id }, select: { id: true } });
+    if (!order) {
+        throw new HttpError(404, 'Order not found');
+    }
+
+    return prisma.orderStatusHistory.findMany({
+        where: { order_id: id },
+        include: {
+            old_status: true,
+            new_status: true,
+            actor: { select: { id: true, login: true } },
+        },
+        orderBy: { created_at: 'asc' },
+    });
+}
@@ -1,10 +1,15 @@
 import { OrderItem } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getOrderItem = async () => {
-    const orderItem = await prisma.orderItem.findMany();
-    return orderItem;
+export const getOrderItem = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { order: { user_id: userId } } : undefined;
+    const [total, orderItem] = await prisma.$transaction([
+        prisma.orderItem.count({ where }),
+        prisma.orderItem.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, orderItem, total);
 }
 export const getOrderItemById = async (id: number) => {
     const orderItem = await prisma.orderItem.findUnique({ where: { id } });
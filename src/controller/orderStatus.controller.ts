@@ -1,10 +1,14 @@
 import { OrderStatus } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getOrderStatus = async () => {
-    const orderStatus = await prisma.orderStatus.findMany();
-    return orderStatus;
+export const getOrderStatus = async (list: ListQuery) => {
+    const [total, orderStatus] = await prisma.$transaction([
+        prisma.orderStatus.count(),
+        prisma.orderStatus.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, orderStatus, total);
 }
 export const getOrderStatusById = async (id: number) => {
     const orderStatus = await prisma.orderStatus.findUnique({ where: { id } });
@@ -0,0 +1,120 @@
+import { Payment, Prisma } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { MockPaymentProvider, WebhookEvent, setPaymentProvider } from '../utils/paymentProvider';
+import { handleWebhook, refundPayment } from './payment.controller';
+
+vi.mock('../utils/prisma');
+
+const provider = new MockPaymentProvider('success', 'test-secret');
+setPaymentProvider(provider);
+
+const payment = (fields: Partial<Payment> = {}): Payment => ({
+    id: 3,
+    order_id: 5,
+    crm_payment_card_id: 1,
+    provider: 'mock',
+    reference: 'mock_1',
+    amount: 100,
+    refunded_amount: 0,
+    currency: 'UAH',
+    status: 'captured',
+    error: null,
+    idempotency_key: 'key-1',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...fields,
+});
+
+const deliver = (event: WebhookEvent) => {
+    const body = Buffer.from(JSON.stringify(event));
+    return handleWebhook('mock', provider.sign(body), body);
+}
+
+const voided: WebhookEvent = { id: 'evt_1', type: 'payment.voided', payment_id: 3 };
+
+describe('handleWebhook', () => {
+    it('stores the event and applies it', async () => {
+        prisma.payment.findFirst.mockResolvedValue(payment({ status: 'authorized' }));
+        prisma.payment.findUniqueOrThrow.mockResolvedValue(payment({ status: 'authorized' }));
+        prisma.paymentEvent.findUnique.mockResolvedValue(null);
+
+        await expect(deliver(voided)).resolves.toEqual({ duplicate: false });
+        expect(prisma.paymentEvent.create).toHaveBeenCalledWith({
+            data: { provider: 'mock', event_id: 'evt_1', type: 'payment.voided', payment_id: 3, payload: voided },
+        });
+        expect(prisma.payment.updateMany).toHaveBeenCalledWith({ where: { id: 3, status: 'authorized' }, data: { status: 'voided' } });
+    });
+
+    it('ignores a redelivered event', async () => {
+        prisma.payment.findFirst.mockResolvedValue(payment({ status: 'authorized' }));
+        prisma.paymentEvent.findUnique.mockResolvedValue({
+            id: 1, provider: 'mock', event_id: 'evt_1', type: 'payment.voided', payment_id: 3, payload: voided, created_at: new Date(),
+        });
+
+        await expect(deliver(voided)).resolves.toEqual({ duplicate: true });
+        expect(prisma.paymentEvent.create).not.toHaveBeenCalled();
+        expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('ignores an event a concurrent delivery stored first', async () => {
+        prisma.payment.findFirst.mockResolvedValue(payment({ status: 'authorized' }));
+        prisma.paymentEvent.findUnique.mockResolvedValue(null);
+        prisma.paymentEvent.create.mockRejectedValue(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client }),
+        );
+
+        await expect(deliver(voided)).resolves.toEqual({ duplicate: true });
+        expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('books a refund against the amount read under the row lock', async () => {
+        const refunded: WebhookEvent = { id: 'evt_2', type: 'payment.refunded', payment_id: 3, amount: 60 };
+        // A refund through the API recorded 40 after the payment was first read
+        prisma.payment.findFirst.mockResolvedValue(payment());
+        prisma.payment.findUniqueOrThrow.mockResolvedValue(payment({ refunded_amount: 40, status: 'partially_refunded' }));
+        prisma.paymentEvent.findUnique.mockResolvedValue(null);
+
+        await deliver(refunded);
+
+        expect(prisma.$queryRaw).toHaveBeenCalled();
+        expect(prisma.refund.create).toHaveBeenCalledWith({ data: { order_id: 5, amount: 20, payment_id: 3 } });
+        expect(prisma.payment.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { refunded_amount: 60, status: 'partially_refunded' } });
+    });
+
+    it('checks the signature over the raw body', async () => {
+        const body = Buffer.from(JSON.stringify(voided));
+        const reformatted = Buffer.from(JSON.stringify(voided, null, 2));
+
+        await expect(handleWebhook('mock', provider.sign(body), reformatted)).rejects.toMatchObject({ status: 401 });
+        await expect(handleWebhook('mock', undefined, body)).rejects.toMatchObject({ status: 401 });
+        expect(prisma.paymentEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a signed body that is not JSON', async () => {
+        const body = Buffer.from('not json');
+
+        await expect(handleWebhook('mock', provider.sign(body), body)).rejects.toMatchObject({ status: 400 });
+    });
+});
+
+describe('refundPayment', () => {
+    it('sends the refund of a return request with a key of its own', async () => {
+        const refund = vi.spyOn(provider, 'refund');
+        prisma.payment.findUnique.mockResolvedValue(payment());
+        prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+
+        await refundPayment(3, 30, 9);
+
+        expect(refund).toHaveBeenCalledWith('mock_1', 30, 'return-request-9');
+        expect(prisma.refund.create).toHaveBeenCalledWith({ data: { order_id: 5, amount: 30, payment_id: 3, return_request_id: 9 } });
+    });
+
+    it('rejects more than is left on the payment', async () => {
+        prisma.payment.findUnique.mockResolvedValue(payment({ refunded_amount: 80, status: 'partially_refunded' }));
+
+        await expect(refundPayment(3, 30)).rejects.toMatchObject({ status: 400 });
+        expect(prisma.refund.create).not.toHaveBeenCalled();
+    });
+});
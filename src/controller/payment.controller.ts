@@ -0,0 +1,317 @@
+import { Payment, Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { isCardExpired } from "../utils/cardVault";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { statusKind } from "../utils/orderWorkflow";
+import { PaymentStatus, PaymentTimeoutError, WebhookEvent, getPaymentProvider, withTimeout } from "../utils/paymentProvider";
+import { applyOrderAction } from "./order.controller";
+
+const currency = process.env.PAYMENT_CURRENCY || 'UAH';
+
+export const getPayment = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { order: { user_id: userId } } : undefined;
+    const [total, payments] = await prisma.$transaction([
+        prisma.payment.count({ where }),
+        prisma.payment.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, payments, total);
+}
+export const getPaymentById = async (id: number) => {
+    const payment = await prisma.payment.findUnique({ where: { id } });
+    return payment;
+}
+
+const setStatus = (id: number, status: PaymentStatus, data: Prisma.PaymentUpdateInput = {}) => {
+    return prisma.payment.update({ where: { id }, data: { ...data, status } });
+}
+
+/**
+ * Marks the payment as captured and moves its order into the paid status when the order
+ * still awaits payment. Safe to call twice, e.g. from the API call and from the webhook.
+ */
+const markCaptured = async (tx: Prisma.TransactionClient, payment: Payment, actorId?: number) => {
+    const captured = await tx.payment.updateMany({
+        where: { id: payment.id, status: { in: ['pending', 'authorized'] } },
+        data: { status: 'captured', error: null },
+    });
+    if (!captured.count) {
+        return;
+    }
+
+    const order = await tx.order.findUnique({ where: { id: payment.order_id }, include: { order_status: true } });
+    if (order && statusKind(order.order_status) === 'is_awaiting_payment') {
+        await applyOrderAction(tx, order.id, 'pay', { actorId, comment: `Payment #${payment.id} captured` });
+    }
+}
+
+/**
+ * Calls the provider, a call that does not answer in time leaves the payment as it is
+ * so the webhook can settle it later.
+ */
+const callProvider = async <T>(payment: Payment, call: () => Promise<T>): Promise<T | null> => {
+    try {
+        return await withTimeout(call());
+    } catch (error) {
+        if (error instanceof PaymentTimeoutError) {
+            await prisma.payment.update({ where: { id: payment.id }, data: { error: error.message } });
+            return null;
+        }
+        throw error;
+    }
+}
+
+const capture = async (payment: Payment, actorId?: number) => {
+    const provider = getPaymentProvider(payment.provider);
+    const result = await callProvider(payment, () => provider.capture(payment.reference as string, payment.amount));
+    if (!result) {
+        return getPaymentById(payment.id);
+    }
+    if (!result.ok) {
+        return prisma.payment.update({ where: { id: payment.id }, data: { error: result.message || 'Capture failed' } });
+    }
+    await prisma.$transaction((tx) => markCaptured(tx, payment, actorId));
+    return getPaymentById(payment.id);
+}
+
+/**
+ * Charges a stored payment card for an order that awaits payment: the amount is authorized and
+ * captured right away. Repeating the request with the same idempotency key returns the first payment
+ * instead of charging again.
+ */
+export const payOrder = async (orderId: number, cardId: number, idempotencyKey: string, actorId?: number) => {
+    const existing = await prisma.payment.findUnique({ where: { order_id_idempotency_key: { order_id: orderId, idempotency_key: idempotencyKey } } });
+    if (existing) {
+        return { payment: existing, replayed: true };
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId }, include: { order_status: true } });
+    if (!order) {
+        throw new HttpError(404, 'Order not found');
+    }
+    if (statusKind(order.order_status) !== 'is_awaiting_payment') {
+        throw new HttpError(409, 'Order is not awaiting payment');
+    }
+
+    const card = await prisma.crmPaymentCard.findUnique({ where: { id: cardId }, include: { crm_card: true } });
+    if (!card || card.crm_card.user_id !== order.user_id) {
+        throw new HttpError(404, 'Payment card not found');
+    }
+    if (isCardExpired(card.date_end)) {
+        throw new HttpError(400, 'Card has expired');
+    }
+    // Cards stored before tokenization have a placeholder token
+    if (card.token.startsWith('legacy_')) {
+        throw new HttpError(400, 'Payment card must be added again');
+    }
+
+    const active = await prisma.payment.findFirst({ where: { order_id: orderId, status: { in: ['pending', 'authorized', 'captured'] } } });
+    if (active) {
+        throw new HttpError(409, 'Order already has a payment in progress', { paymentId: active.id });
+    }
+
+    const provider = getPaymentProvider();
+    let payment: Payment;
+    try {
+        payment = await prisma.payment.create({
+            data: {
+                order_id: orderId,
+                crm_payment_card_id: card.id,
+                provider: provider.name,
+                amount: order.total_amount,
+                currency,
+                idempotency_key: idempotencyKey,
+            },
+        });
+    } catch (error) {
+        // The same key was sent twice at once, the other request does the charge
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            const payment = await prisma.payment.findUnique({ where: { order_id_idempotency_key: { order_id: orderId, idempotency_key: idempotencyKey } } });
+            return { payment: payment as Payment, replayed: true };
+        }
+        throw error;
+    }
+
+    const authorization = await callProvider(payment, () => provider.authorize({
+        paymentId: payment.id,
+        amount: payment.amount,
+        currency,
+        cardToken: card.token,
+        idempotencyKey,
+    }));
+    if (!authorization) {
+        return { payment: await getPaymentById(payment.id) as Payment, replayed: false };
+    }
+    if (!authorization.ok) {
+        payment = await setStatus(payment.id, 'declined', { reference: authorization.reference, error: authorization.message || 'Payment declined' });
+        return { payment, replayed: false };
+    }
+
+    payment = await setStatus(payment.id, 'authorized', { reference: authorization.reference });
+    return { payment: await capture(payment, actorId) as Payment, replayed: false };
+}
+
+const findPayment = async (id: number) => {
+    const payment = await getPaymentById(id);
+    if (!payment) {
+        throw new HttpError(404, 'Payment not found');
+    }
+    return payment;
+}
+
+/**
+ * Captures a payment that was authorized but not captured, e.g. after the capture timed out.
+ */
+export const capturePayment = async (id: number, actorId?: number) => {
+    const payment = await findPayment(id);
+    if (payment.status !== 'authorized') {
+        throw new HttpError(409, 'Only authorized payments can be captured');
+    }
+    return capture(payment, actorId);
+}
+
+/**
+ * Releases an authorization that was not captured.
+ */
+export const voidPayment = async (id: number) => {
+    const payment = await findPayment(id);
+    if (payment.status !== 'authorized') {
+        throw new HttpError(409, 'Only authorized payments can be voided');
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    const result = await callProvider(payment, () => provider.void(payment.reference as string));
+    if (!result) {
+        throw new HttpError(504, 'Payment provider did not answer in time');
+    }
+    if (!result.ok) {
+        throw new HttpError(502, result.message || 'Void failed');
+    }
+    return setStatus(payment.id, 'voided', { error: null });
+}
+
+/**
+ * Stores a refund and lowers the net total of the order by it.
+ */
+export const recordRefund = async (tx: Prisma.TransactionClient, data: { order_id: number; amount: number; payment_id?: number; return_request_id?: number }) => {
+    await tx.refund.create({ data });
+    await tx.order.update({ where: { id: data.order_id }, data: { refunded_amount: { increment: data.amount } } });
+}
+
+/**
+ * Refunds a captured payment in full or in part. Without `amount` everything left is refunded.
+ * The refund of a return request is sent with a key of its own, so retrying it never refunds twice.
+ */
+export const refundPayment = async (id: number, amount?: number, returnRequestId?: number) => {
+    const payment = await findPayment(id);
+    if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+        throw new HttpError(409, 'Only captured payments can be refunded');
+    }
+
+    const refundable = payment.amount - payment.refunded_amount;
+    const value = amount ?? refundable;
+    if (value <= 0 || value > refundable) {
+        throw new HttpError(400, `Refund amount must be between 0 and ${refundable}`);
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    const result = await callProvider(payment, () => provider.refund(
+        payment.reference as string,
+        value,
+        returnRequestId ? `return-request-${returnRequestId}` : undefined,
+    ));
+    if (!result) {
+        throw new HttpError(504, 'Payment provider did not answer in time');
+    }
+    if (!result.ok) {
+        throw new HttpError(502, result.message || 'Refund failed');
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const refunded = payment.refunded_amount + value;
+        // Guards against a concurrent refund of the same payment
+        const updated = await tx.payment.updateMany({
+            where: { id: payment.id, refunded_amount: payment.refunded_amount },
+            data: { refunded_amount: refunded, status: refunded >= payment.amount ? 'refunded' : 'partially_refunded', error: null },
+        });
+        if (!updated.count) {
+            throw new HttpError(409, 'Payment was changed by another request');
+        }
+        await recordRefund(tx, { order_id: payment.order_id, amount: value, payment_id: payment.id, return_request_id: returnRequestId });
+        return tx.payment.findUnique({ where: { id: payment.id } });
+    });
+}
+
+/**
+ * Reads the payment with its row locked until the transaction ends, so a webhook and a refund
+ * of the same payment see each other's amounts.
+ */
+const lockPayment = async (tx: Prisma.TransactionClient, id: number) => {
+    await tx.$queryRaw(Prisma.sql`SELECT id FROM "payment" WHERE id = ${id} FOR UPDATE`);
+    return tx.payment.findUniqueOrThrow({ where: { id } });
+}
+
+const applyEvent = async (tx: Prisma.TransactionClient, payment: Payment, event: WebhookEvent) => {
+    const reference = payment.reference || event.reference;
+    switch (event.type) {
+        case 'payment.captured':
+            await tx.payment.update({ where: { id: payment.id }, data: { reference } });
+            await markCaptured(tx, payment);
+            break;
+        case 'payment.declined':
+            await tx.payment.updateMany({
+                where: { id: payment.id, status: { in: ['pending', 'authorized'] } },
+                data: { status: 'declined', reference, error: event.message || 'Payment declined' },
+            });
+            break;
+        case 'payment.voided':
+            await tx.payment.updateMany({ where: { id: payment.id, status: 'authorized' }, data: { status: 'voided' } });
+            break;
+        case 'payment.refunded': {
+            const refunded = Math.min(payment.amount, Math.max(payment.refunded_amount, event.amount ?? payment.amount));
+            // Refunds made at the provider directly are not known yet
+            if (refunded > payment.refunded_amount) {
+                await recordRefund(tx, { order_id: payment.order_id, amount: refunded - payment.refunded_amount, payment_id: payment.id });
+            }
+            await tx.payment.update({
+                where: { id: payment.id },
+                data: { refunded_amount: refunded, status: refunded >= payment.amount ? 'refunded' : 'partially_refunded' },
+            });
+            break;
+        }
+    }
+}
+
+/**
+ * Handles a provider callback. Every event is stored once, so providers may retry deliveries freely.
+ * `body` is the request body as received, the signature is checked over these bytes.
+ */
+export const handleWebhook = async (providerName: string, signature: string | undefined, body: Buffer) => {
+    const provider = getPaymentProvider(providerName);
+    const event = provider.parseWebhook(signature, body);
+
+    const found = await prisma.payment.findFirst({ where: { id: event.payment_id, provider: provider.name } });
+    if (!found) {
+        throw new HttpError(404, 'Payment not found');
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const seen = await tx.paymentEvent.findUnique({ where: { provider_event_id: { provider: provider.name, event_id: event.id } } });
+            if (seen) {
+                return { duplicate: true };
+            }
+            await tx.paymentEvent.create({
+                data: { provider: provider.name, event_id: event.id, type: event.type, payment_id: found.id, payload: event },
+            });
+            await applyEvent(tx, await lockPayment(tx, found.id), event);
+            return { duplicate: false };
+        });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return { duplicate: true };
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,209 @@
+import { Book, BookContributor, Categories, Promotion, PromotionRedemption } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { Pricing, priceItems, redeemPromotions, releasePromotions } from './promotion.controller';
+
+vi.mock('../utils/prisma');
+
+type PricedBook = Book & { category: Categories | null; BookContributor: BookContributor[] };
+
+const book = (id: number, price: number, categoryPath: string | null = null): PricedBook => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price,
+    published_at: new Date(),
+    stock: 10,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: 4,
+    category_id: null,
+    publisher_id: 2,
+    category: categoryPath ? { id: 9, name: 'Fantasy', slug: 'fantasy', parent_id: 1, path: categoryPath } : null,
+    BookContributor: [{ id: id * 10, book_id: id, author_id: 4, role: 'author', position: 0 }],
+});
+
+const promotion = (id: number, fields: Partial<Promotion> = {}): Promotion => ({
+    id,
+    name: `Promotion ${id}`,
+    code: null,
+    discount_type: 'percentage',
+    value: 10,
+    scope: 'order',
+    scope_id: null,
+    min_order_total: null,
+    usage_limit: null,
+    usage_limit_per_user: null,
+    usage_count: 0,
+    starts_at: null,
+    ends_at: null,
+    active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...fields,
+});
+
+type RedemptionCount = Awaited<ReturnType<typeof prisma.promotionRedemption.groupBy>>[number];
+
+// Uses of a promotion by the user, only `promotion_id` and the count are read
+const used = (promotionId: number, count: number): RedemptionCount => ({
+    id: 0,
+    promotion_id: promotionId,
+    order_id: 0,
+    user_id: 2,
+    amount: 0,
+    status: 'applied',
+    created_at: new Date(),
+    _count: { _all: count },
+    _avg: undefined,
+    _sum: undefined,
+    _min: undefined,
+    _max: undefined,
+});
+
+const setup = (books: PricedBook[], promotions: Promotion[]) => {
+    prisma.book.findMany.mockResolvedValue(books);
+    prisma.promotion.findMany.mockResolvedValue(promotions);
+};
+
+beforeEach(() => {
+    vi.mocked(prisma.promotionRedemption.groupBy).mockResolvedValue([]);
+});
+
+describe('priceItems', () => {
+    it('prices the books at the current price without promotions', async () => {
+        setup([book(1, 12.5), book(2, 8)], []);
+
+        const pricing = await priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }, { bookId: 2, quantity: 2 }, { bookId: 1, quantity: 1 }]);
+
+        expect(pricing).toMatchObject({ subtotal_amount: 41, discount_amount: 0, total_amount: 41, promotions: [] });
+        expect(pricing.items).toEqual([
+            { bookId: 1, quantity: 2, price: 12.5, subtotal: 25, discount_amount: 0, discounts: [] },
+            { bookId: 2, quantity: 2, price: 8, subtotal: 16, discount_amount: 0, discounts: [] },
+        ]);
+    });
+
+    it('applies the best scoped promotion of every book', async () => {
+        setup([book(1, 20, '/1/9/'), book(2, 20)], [
+            promotion(1, { scope: 'category', scope_id: 1, value: 10 }),
+            promotion(2, { scope: 'category', scope_id: 9, discount_type: 'fixed', value: 3 }),
+        ]);
+
+        const pricing = await priceItems(prisma, 2, [{ bookId: 1, quantity: 2 }, { bookId: 2, quantity: 1 }]);
+
+        expect(pricing.items[0]).toMatchObject({ discount_amount: 6, discounts: [{ promotion_id: 2, amount: 6 }] });
+        expect(pricing.items[1]).toMatchObject({ discount_amount: 0, discounts: [] });
+        expect(pricing).toMatchObject({ subtotal_amount: 60, discount_amount: 6, total_amount: 54 });
+        expect(pricing.promotions).toEqual([{ promotion_id: 2, name: 'Promotion 2', code: null, amount: 6 }]);
+    });
+
+    it('spreads a fixed order-wide discount over the lines by their amount', async () => {
+        setup([book(1, 10), book(2, 20)], [promotion(1, { discount_type: 'fixed', value: 10 })]);
+
+        const pricing = await priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }, { bookId: 2, quantity: 1 }]);
+
+        expect(pricing.items.map((item) => item.discount_amount)).toEqual([3.33, 6.67]);
+        expect(pricing.total_amount).toBe(20);
+    });
+
+    it('applies the coupon to what the automatic promotions left', async () => {
+        setup([book(1, 50)], [
+            promotion(1, { value: 10 }),
+            promotion(2, { code: 'SAVE10', discount_type: 'fixed', value: 10 }),
+        ]);
+
+        const pricing = await priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], ' save10 ');
+
+        expect(prisma.promotion.findMany).toHaveBeenCalledWith({ where: { OR: [expect.objectContaining({ code: null }), { code: 'SAVE10' }] } });
+        expect(pricing.items[0].discounts).toEqual([{ promotion_id: 1, amount: 5 }, { promotion_id: 2, amount: 10 }]);
+        expect(pricing.total_amount).toBe(35);
+    });
+
+    it('skips automatic promotions the order does not qualify for', async () => {
+        setup([book(1, 20)], [
+            promotion(1, { min_order_total: 50 }),
+            promotion(2, { usage_limit: 5, usage_count: 5 }),
+            promotion(3, { usage_limit_per_user: 1 }),
+        ]);
+        vi.mocked(prisma.promotionRedemption.groupBy).mockResolvedValue([used(3, 1)]);
+
+        const pricing = await priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }]);
+
+        expect(pricing.discount_amount).toBe(0);
+    });
+
+    it('tells why a coupon cannot be used', async () => {
+        const coupon = (fields: Partial<Promotion>) => setup([book(1, 20)], [promotion(5, { code: 'SAVE10', ...fields })]);
+
+        setup([book(1, 20)], []);
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ status: 404, message: 'Coupon not found' });
+
+        coupon({ ends_at: new Date(Date.now() - 1000) });
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ status: 409, message: 'Coupon is not valid at this time' });
+
+        coupon({ usage_limit: 1, usage_count: 1 });
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ message: 'Coupon has been used up' });
+
+        coupon({ usage_limit_per_user: 1 });
+        vi.mocked(prisma.promotionRedemption.groupBy).mockResolvedValueOnce([used(5, 1)]);
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ message: 'You have already used this coupon' });
+
+        coupon({ min_order_total: 30 });
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ status: 409, details: { subtotal_amount: 20 } });
+
+        coupon({ scope: 'publisher', scope_id: 7 });
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }], 'SAVE10')).rejects.toMatchObject({ message: 'Coupon does not apply to any book in the order' });
+    });
+
+    it('answers 404 for unknown books', async () => {
+        setup([book(1, 20)], []);
+
+        await expect(priceItems(prisma, 2, [{ bookId: 1, quantity: 1 }, { bookId: 3, quantity: 1 }])).rejects.toMatchObject({ status: 404, details: { bookIds: [3] } });
+    });
+});
+
+describe('redeemPromotions', () => {
+    const pricing = (amount: number): Pricing => ({
+        subtotal_amount: 20,
+        discount_amount: amount,
+        total_amount: 20 - amount,
+        items: [],
+        promotions: [{ promotion_id: 5, name: 'Promotion 5', code: 'SAVE10', amount }],
+    });
+
+    it('counts the use of every applied promotion', async () => {
+        prisma.$queryRaw.mockResolvedValue([promotion(5, { usage_limit: 3, usage_count: 2 })]);
+
+        await redeemPromotions(prisma, 8, 2, pricing(2));
+
+        expect(prisma.promotion.update).toHaveBeenCalledWith({ where: { id: 5 }, data: { usage_count: { increment: 1 } } });
+        expect(prisma.promotionRedemption.create).toHaveBeenCalledWith({ data: { promotion_id: 5, order_id: 8, user_id: 2, amount: 2 } });
+    });
+
+    it('rejects promotions used up by a concurrent checkout', async () => {
+        prisma.$queryRaw.mockResolvedValue([promotion(5, { usage_limit: 3, usage_count: 3 })]);
+        await expect(redeemPromotions(prisma, 8, 2, pricing(2))).rejects.toMatchObject({ status: 409, message: 'Promotion "Promotion 5" has been used up' });
+
+        prisma.$queryRaw.mockResolvedValue([promotion(5, { usage_limit_per_user: 1 })]);
+        prisma.promotionRedemption.count.mockResolvedValue(1);
+        await expect(redeemPromotions(prisma, 8, 2, pricing(2))).rejects.toMatchObject({ status: 409, message: 'Promotion "Promotion 5" was already used' });
+
+        expect(prisma.promotion.update).not.toHaveBeenCalled();
+    });
+});
+
+describe('releasePromotions', () => {
+    it('gives the uses of a canceled order back', async () => {
+        const redemption: PromotionRedemption = { id: 11, promotion_id: 5, order_id: 8, user_id: 2, amount: 2, status: 'applied', created_at: new Date() };
+        prisma.promotionRedemption.findMany.mockResolvedValue([redemption]);
+
+        await releasePromotions(prisma, 8);
+
+        expect(prisma.promotion.update).toHaveBeenCalledWith({ where: { id: 5 }, data: { usage_count: { decrement: 1 } } });
+        expect(prisma.promotionRedemption.updateMany).toHaveBeenCalledWith({ where: { id: { in: [11] } }, data: { status: 'released' } });
+    });
+});
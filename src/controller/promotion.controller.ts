@@ -0,0 +1,377 @@
+import { Prisma, Promotion } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export type PromotionScope = 'order' | 'category' | 'publisher' | 'author';
+
+export const discountTypes: DiscountType[] = ['percentage', 'fixed'];
+
+export const promotionScopes: PromotionScope[] = ['order', 'category', 'publisher', 'author'];
+
+export type PromotionInput = {
+    name: string;
+    // A coupon is redeemed with its code, a promotion without one applies automatically
+    code?: string | null;
+    discount_type: DiscountType;
+    value: number;
+    scope?: PromotionScope;
+    scope_id?: number | null;
+    min_order_total?: number | null;
+    usage_limit?: number | null;
+    usage_limit_per_user?: number | null;
+    starts_at?: Date | null;
+    ends_at?: Date | null;
+    active?: boolean;
+};
+
+export type PromotionFilters = { active?: boolean; code?: string };
+
+export type PricingItem = { bookId: number; quantity: number };
+
+export type AppliedDiscount = { promotion_id: number; amount: number };
+
+export type PricedItem = PricingItem & {
+    price: number;
+    subtotal: number;
+    discount_amount: number;
+    discounts: AppliedDiscount[];
+};
+
+export type Pricing = {
+    subtotal_amount: number;
+    discount_amount: number;
+    total_amount: number;
+    items: PricedItem[];
+    promotions: { promotion_id: number; name: string; code: string | null; amount: number }[];
+};
+
+// A line of the order with what promotions can be scoped to
+type Line = PricedItem & { remaining: number; categoryIds: number[]; publisherId: number | null; authorIds: number[] };
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+
+const normalizeCode = (code?: string | null) => code ? code.trim().toUpperCase() : code;
+
+const isRunning = (promotion: Promotion, now: Date) => promotion.active
+    && (!promotion.starts_at || promotion.starts_at <= now)
+    && (!promotion.ends_at || promotion.ends_at > now);
+
+const isUsedUp = (promotion: Promotion) => promotion.usage_limit !== null && promotion.usage_count >= promotion.usage_limit;
+
+const matches = (promotion: Promotion, line: Line) => {
+    switch (promotion.scope) {
+        case 'category':
+            return line.categoryIds.includes(promotion.scope_id as number);
+        case 'publisher':
+            return line.publisherId === promotion.scope_id;
+        case 'author':
+            return line.authorIds.includes(promotion.scope_id as number);
+        default:
+            return true;
+    }
+}
+
+/**
+ * What `promotion` takes off each of `lines`, never more than is left of a line. Percentages apply to
+ * every line, a fixed amount is taken off every copy of a scoped promotion and once off an order-wide one,
+ * spread over the lines by their amount.
+ */
+const discountsOf = (promotion: Promotion, lines: Line[]) => {
+    const base = sum(lines.map((line) => line.remaining));
+    if (promotion.discount_type === 'percentage') {
+        return lines.map((line) => money(line.remaining * Math.min(promotion.value, 100) / 100));
+    }
+    if (promotion.scope !== 'order') {
+        return lines.map((line) => money(Math.min(promotion.value * line.quantity, line.remaining)));
+    }
+    const total = money(Math.min(promotion.value, base));
+    const amounts = lines.map((line) => base ? money(total * line.remaining / base) : 0);
+    // The rounding leftover goes to the last line
+    const last = amounts.length - 1;
+    if (last >= 0) {
+        amounts[last] = money(Math.min(lines[last].remaining, amounts[last] + total - sum(amounts)));
+    }
+    return amounts;
+}
+
+const apply = (promotion: Promotion, lines: Line[], amounts: number[]) => {
+    lines.forEach((line, index) => {
+        if (amounts[index] > 0) {
+            line.discounts.push({ promotion_id: promotion.id, amount: amounts[index] });
+            line.remaining = money(line.remaining - amounts[index]);
+        }
+    });
+    return money(sum(amounts));
+}
+
+/**
+ * Prices a list of books at current `Book.price` and applies the promotions: for every book the best
+ * automatic promotion scoped to its category, publisher or author, then the best automatic order-wide
+ * promotion, then the coupon. Automatic promotions the order does not qualify for are skipped, a coupon
+ * that cannot be used is rejected with the reason.
+ */
+export const priceItems = async (tx: Prisma.TransactionClient, userId: number, items: PricingItem[], couponCode?: string | null): Promise<Pricing> => {
+    const quantities = new Map<number, number>();
+    for (const item of items) {
+        quantities.set(item.bookId, (quantities.get(item.bookId) || 0) + item.quantity);
+    }
+
+    const books = await tx.book.findMany({
+        where: { id: { in: [...quantities.keys()] } },
+        select: {
+            id: true,
+            price: true,
+            publisher_id: true,
+            category: { select: { path: true } },
+            BookContributor: { where: { role: 'author' }, select: { author_id: true } },
+        },
+    });
+    const missing = [...quantities.keys()].filter((id) => !books.some((book) => book.id === id));
+    if (missing.length) {
+        throw new HttpError(404, 'Book not found', { bookIds: missing });
+    }
+
+    const lines: Line[] = books.map((book) => {
+        const quantity = quantities.get(book.id) as number;
+        const subtotal = money(book.price * quantity);
+        return {
+            bookId: book.id,
+            quantity,
+            price: book.price,
+            subtotal,
+            discount_amount: 0,
+            discounts: [],
+            remaining: subtotal,
+            categoryIds: (book.category?.path || '').split('/').filter(Boolean).map(Number),
+            publisherId: book.publisher_id,
+            authorIds: book.BookContributor.map(({ author_id }) => author_id),
+        };
+    });
+    const subtotal = money(sum(lines.map((line) => line.subtotal)));
+
+    const now = new Date();
+    const code = normalizeCode(couponCode);
+    const running: Prisma.PromotionWhereInput = {
+        active: true,
+        AND: [{ OR: [{ starts_at: null }, { starts_at: { lte: now } }] }, { OR: [{ ends_at: null }, { ends_at: { gt: now } }] }],
+    };
+    // The running automatic promotions and the coupon, which is checked below to tell why it cannot be used
+    const candidates = await tx.promotion.findMany({
+        where: { OR: [{ code: null, ...running }, ...(code ? [{ code }] : [])] },
+    });
+    const uses = await tx.promotionRedemption.groupBy({
+        by: ['promotion_id'],
+        where: { user_id: userId, status: 'applied', promotion_id: { in: candidates.map(({ id }) => id) } },
+        _count: { _all: true },
+    });
+    const usedByUser = (promotion: Promotion) => {
+        return uses.find((use) => use.promotion_id === promotion.id)?._count._all ?? 0;
+    };
+    const usable = (promotion: Promotion) => isRunning(promotion, now)
+        && !isUsedUp(promotion)
+        && (promotion.usage_limit_per_user === null || usedByUser(promotion) < promotion.usage_limit_per_user)
+        && (promotion.min_order_total === null || subtotal >= promotion.min_order_total);
+
+    const automatic = candidates.filter((promotion) => promotion.code === null && usable(promotion));
+    const applied = new Map<number, number>();
+    const record = (promotion: Promotion, amount: number) => {
+        if (amount > 0) {
+            applied.set(promotion.id, money((applied.get(promotion.id) || 0) + amount));
+        }
+    };
+
+    for (const line of lines) {
+        const best = automatic
+            .filter((promotion) => promotion.scope !== 'order' && matches(promotion, line))
+            .map((promotion) => ({ promotion, amount: discountsOf(promotion, [line])[0] }))
+            .sort((a, b) => b.amount - a.amount)[0];
+        if (best) {
+            record(best.promotion, apply(best.promotion, [line], [best.amount]));
+        }
+    }
+
+    const orderWide = automatic
+        .filter((promotion) => promotion.scope === 'order')
+        .map((promotion) => ({ promotion, amounts: discountsOf(promotion, lines) }))
+        .sort((a, b) => sum(b.amounts) - sum(a.amounts))[0];
+    if (orderWide) {
+        record(orderWide.promotion, apply(orderWide.promotion, lines, orderWide.amounts));
+    }
+
+    if (code) {
+        const coupon = candidates.find((promotion) => promotion.code === code);
+        if (!coupon) {
+            throw new HttpError(404, 'Coupon not found');
+        }
+        if (!isRunning(coupon, now)) {
+            throw new HttpError(409, 'Coupon is not valid at this time');
+        }
+        if (isUsedUp(coupon)) {
+            throw new HttpError(409, 'Coupon has been used up');
+        }
+        if (coupon.usage_limit_per_user !== null && usedByUser(coupon) >= coupon.usage_limit_per_user) {
+            throw new HttpError(409, 'You have already used this coupon');
+        }
+        if (coupon.min_order_total !== null && subtotal < coupon.min_order_total) {
+            throw new HttpError(409, `Coupon needs an order total of at least ${coupon.min_order_total}`, { subtotal_amount: subtotal });
+        }
+        const matching = lines.filter((line) => matches(coupon, line));
+        if (!matching.length) {
+            throw new HttpError(409, 'Coupon does not apply to any book in the order');
+        }
+        record(coupon, apply(coupon, matching, discountsOf(coupon, matching)));
+    }
+
+    const pricedItems = lines.map(({ remaining, categoryIds, publisherId, authorIds, ...item }) => ({
+        ...item,
+        discount_amount: money(item.subtotal - remaining),
+    }));
+    const discount = money(sum(pricedItems.map((item) => item.discount_amount)));
+
+    return {
+        subtotal_amount: subtotal,
+        discount_amount: discount,
+        total_amount: money(subtotal - discount),
+        items: pricedItems,
+        promotions: candidates
+            .filter((promotion) => applied.has(promotion.id))
+            .map((promotion) => ({ promotion_id: promotion.id, name: promotion.name, code: promotion.code, amount: applied.get(promotion.id) as number })),
+    };
+}
+
+/**
+ * Prices the books without placing an order, e.g. to show the discounts in the cart.
+ */
+export const quotePromotions = async (userId: number, items: PricingItem[], couponCode?: string | null) => {
+    return priceItems(prisma, userId, items, couponCode);
+}
+
+/**
+ * Counts the use of every promotion applied to the order. The promotion rows stay locked until the
+ * transaction ends, so concurrent checkouts cannot exceed a usage limit together.
+ */
+export const redeemPromotions = async (tx: Prisma.TransactionClient, orderId: number, userId: number, pricing: Pricing) => {
+    const ids = pricing.promotions.map(({ promotion_id }) => promotion_id).sort((a, b) => a - b);
+    if (!ids.length) {
+        return;
+    }
+    const promotions = await tx.$queryRaw<Promotion[]>(Prisma.sql`
+        SELECT * FROM "promotion" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE
+    `);
+
+    for (const applied of pricing.promotions) {
+        const promotion = promotions.find(({ id }) => id === applied.promotion_id) as Promotion;
+        if (isUsedUp(promotion)) {
+            throw new HttpError(409, `Promotion "${promotion.name}" has been used up`);
+        }
+        if (promotion.usage_limit_per_user !== null) {
+            const used = await tx.promotionRedemption.count({ where: { promotion_id: promotion.id, user_id: userId, status: 'applied' } });
+            if (used >= promotion.usage_limit_per_user) {
+                throw new HttpError(409, `Promotion "${promotion.name}" was already used`);
+            }
+        }
+        await tx.promotion.update({ where: { id: promotion.id }, data: { usage_count: { increment: 1 } } });
+        await tx.promotionRedemption.create({
+            data: { promotion_id: promotion.id, order_id: orderId, user_id: userId, amount: applied.amount },
+        });
+    }
+}
+
+/**
+ * Gives the uses of a canceled order back to its promotions.
+ */
+export const releasePromotions = async (tx: Prisma.TransactionClient, orderId: number) => {
+    const redemptions = await tx.promotionRedemption.findMany({ where: { order_id: orderId, status: 'applied' } });
+    for (const redemption of redemptions) {
+        await tx.promotion.update({ where: { id: redemption.promotion_id }, data: { usage_count: { decrement: 1 } } });
+    }
+    await tx.promotionRedemption.updateMany({ where: { id: { in: redemptions.map(({ id }) => id) } }, data: { status: 'released' } });
+}
+
+export const getPromotion = async (list: ListQuery, filters: PromotionFilters = {}) => {
+    const where: Prisma.PromotionWhereInput = {
+        ...(filters.active !== undefined && { active: filters.active }),
+        ...(filters.code && { code: normalizeCode(filters.code) }),
+    };
+    const [total, promotions] = await prisma.$transaction([
+        prisma.promotion.count({ where }),
+        prisma.promotion.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, promotions, total);
+}
+
+export const getPromotionById = async (id: number) => {
+    return prisma.promotion.findUnique({ where: { id } });
+}
+
+// The category, publisher or author a scoped promotion points to must exist
+const checkScope = async (data: PromotionInput) => {
+    const scope = data.scope || 'order';
+    if (scope === 'order') {
+        return;
+    }
+    const id = Number(data.scope_id);
+    const found = scope === 'category'
+        ? await prisma.categories.findUnique({ where: { id }, select: { id: true } })
+        : scope === 'publisher'
+            ? await prisma.publishers.findUnique({ where: { id }, select: { id: true } })
+            : await prisma.author.findUnique({ where: { id }, select: { id: true } });
+    if (!found) {
+        throw new HttpError(404, `Promotion ${scope} not found`);
+    }
+}
+
+const promotionData = (data: PromotionInput) => ({
+    ...data,
+    code: normalizeCode(data.code),
+    scope: data.scope || 'order',
+    scope_id: (data.scope || 'order') === 'order' ? null : data.scope_id,
+});
+
+const codeTaken = (error: any) => {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+        ? new HttpError(409, 'A promotion with this code already exists')
+        : error;
+}
+
+export const createPromotion = async (data: PromotionInput) => {
+    await checkScope(data);
+    return prisma.promotion.create({ data: promotionData(data) }).catch((error) => {
+        throw codeTaken(error);
+    });
+}
+
+export const updatePromotion = async (id: number, data: PromotionInput) => {
+    const promotion = await prisma.promotion.findUnique({ where: { id } });
+    if (!promotion) {
+        return null;
+    }
+    await checkScope(data);
+    return prisma.promotion.update({ where: { id }, data: promotionData(data) }).catch((error) => {
+        throw codeTaken(error);
+    });
+}
+
+/**
+ * Deletes a promotion that was never used. Used promotions are kept for the orders, deactivate them instead.
+ */
+export const deletePromotion = async (id: number) => {
+    const promotion = await prisma.promotion.findUnique({ where: { id } });
+    if (!promotion) {
+        return null;
+    }
+    try {
+        return await prisma.promotion.delete({ where: { id } });
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+            throw new HttpError(409, 'Promotion was applied to orders, deactivate it instead');
+        }
+        throw error;
+    }
+}
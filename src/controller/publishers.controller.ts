@@ -1,10 +1,14 @@
 import { Publishers } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getPublishers = async () => {
-    const publishers = await prisma.publishers.findMany();
-    return publishers;
+export const getPublishers = async (list: ListQuery) => {
+    const [total, publishers] = await prisma.$transaction([
+        prisma.publishers.count(),
+        prisma.publishers.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, publishers, total);
 }
 export const getPublishersById = async (id: number) => {
     const publishers = await prisma.publishers.findUnique({ where: { id } });
@@ -0,0 +1,149 @@
+import { Book, Prisma, PurchaseOrder, PurchaseOrderLine } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { moveStock } from './inventory.controller';
+import { cancelPurchaseOrder, getPurchaseOrderById, receivePurchaseOrder, submitPurchaseOrder } from './purchaseOrder.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./inventory.controller', () => ({ moveStock: vi.fn() }));
+
+const purchaseOrder = (status: string): PurchaseOrder => ({
+    id: 3,
+    publisher_id: 2,
+    status,
+    expected_at: null,
+    ordered_at: new Date(),
+    comment: null,
+    created_by_id: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+});
+
+const line = (bookId: number, quantity: number, received: number, cost: number): PurchaseOrderLine => ({
+    id: bookId * 10,
+    purchase_order_id: 3,
+    book_id: bookId,
+    quantity,
+    received_quantity: received,
+    cost_price: cost,
+});
+
+const book = (id: number, price: number): Book => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price,
+    published_at: new Date(),
+    stock: 0,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: 2,
+});
+
+const withLines = (status: string, lines: PurchaseOrderLine[]): PurchaseOrder & { PurchaseOrderLine: PurchaseOrderLine[] } => ({
+    ...purchaseOrder(status),
+    PurchaseOrderLine: lines,
+});
+
+type PurchaseOrderDetails = Prisma.PurchaseOrderGetPayload<{ include: { publisher: true; PurchaseOrderLine: { include: { book: true } } } }>;
+
+const withDetails = (status: string, lines: PurchaseOrderDetails['PurchaseOrderLine']): PurchaseOrderDetails => ({
+    ...purchaseOrder(status),
+    publisher: { id: 2, name: 'Publisher', address: '', contact: '' },
+    PurchaseOrderLine: lines,
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('getPurchaseOrderById', () => {
+    it('adds the margins against the current book price and the totals', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValue(withDetails('partially_received', [
+            { ...line(1, 4, 2, 6), book: book(1, 10) },
+            { ...line(2, 1, 0, 5), book: book(2, 0) },
+        ]));
+
+        const result = await getPurchaseOrderById(3);
+
+        expect(result?.PurchaseOrderLine).toEqual([
+            expect.objectContaining({ book_id: 1, margin: 4, margin_percent: 40 }),
+            expect.objectContaining({ book_id: 2, margin: -5, margin_percent: null }),
+        ]);
+        expect(result).toMatchObject({ total_cost: 29, received_cost: 12 });
+    });
+});
+
+describe('receivePurchaseOrder', () => {
+    it('books the delivery as receipts and keeps the order open until every line is in', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValueOnce(withLines('ordered', [line(1, 4, 0, 6), line(2, 2, 0, 5)]));
+
+        await receivePurchaseOrder(3, [{ book_id: 1, quantity: 1 }, { book_id: 1, quantity: 2 }], 8);
+
+        expect(prisma.purchaseOrderLine.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { received_quantity: 3 } });
+        expect(moveStock).toHaveBeenCalledTimes(1);
+        expect(moveStock).toHaveBeenCalledWith(expect.anything(), 1, 'receipt', 3, { purchaseOrderId: 3, actorId: 8, comment: 'Purchase order #3' });
+        expect(prisma.purchaseOrder.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { status: 'partially_received' } });
+    });
+
+    it('marks the order received with the last delivery', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValueOnce(withLines('partially_received', [line(1, 4, 3, 6), line(2, 2, 2, 5)]));
+
+        await receivePurchaseOrder(3, [{ book_id: 1, quantity: 1 }]);
+
+        expect(prisma.purchaseOrder.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { status: 'received' } });
+    });
+
+    it('rejects deliveries beyond the ordered quantity or of books not ordered', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValueOnce(withLines('ordered', [line(1, 4, 3, 6)]));
+
+        await expect(receivePurchaseOrder(3, [{ book_id: 1, quantity: 2 }, { book_id: 5, quantity: 1 }])).rejects.toMatchObject({
+            status: 409,
+            details: [
+                { bookId: 1, message: 'Received quantity exceeds the ordered quantity', remaining: 1 },
+                { bookId: 5, message: 'Book is not in the purchase order' },
+            ],
+        });
+        expect(moveStock).not.toHaveBeenCalled();
+        expect(prisma.purchaseOrder.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses drafts and canceled orders', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValueOnce(withLines('draft', [line(1, 4, 0, 6)]));
+
+        await expect(receivePurchaseOrder(3, [{ book_id: 1, quantity: 1 }])).rejects.toMatchObject({ status: 409, message: 'Purchase order is draft' });
+        expect(moveStock).not.toHaveBeenCalled();
+    });
+});
+
+describe('submitPurchaseOrder', () => {
+    it('sends only drafts with lines', async () => {
+        prisma.purchaseOrderLine.count.mockResolvedValue(0);
+        await expect(submitPurchaseOrder(3)).rejects.toMatchObject({ status: 409, message: 'Purchase order has no lines' });
+
+        prisma.purchaseOrderLine.count.mockResolvedValue(2);
+        prisma.purchaseOrder.findUnique.mockResolvedValueOnce(purchaseOrder('draft')).mockResolvedValueOnce(withDetails('ordered', []));
+        prisma.purchaseOrder.updateMany.mockResolvedValue({ count: 1 });
+        await submitPurchaseOrder(3);
+
+        expect(prisma.purchaseOrder.updateMany).toHaveBeenCalledWith({
+            where: { id: 3, status: { in: ['draft'] } },
+            data: { ordered_at: expect.any(Date), status: 'ordered' },
+        });
+    });
+});
+
+describe('cancelPurchaseOrder', () => {
+    it('cannot cancel an order that was fully received', async () => {
+        prisma.purchaseOrder.findUnique.mockResolvedValue(purchaseOrder('received'));
+        prisma.purchaseOrder.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(cancelPurchaseOrder(3)).rejects.toMatchObject({ status: 409, message: 'Purchase order cannot move from "received" to "canceled"' });
+    });
+});
@@ -0,0 +1,198 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { moveStock } from "./inventory.controller";
+
+export type PurchaseOrderLineInput = { book_id: number; quantity: number; cost_price: number };
+
+export type PurchaseOrderInput = {
+    publisher_id: number;
+    expected_at?: Date | null;
+    comment?: string | null;
+    lines: PurchaseOrderLineInput[];
+};
+
+export type PurchaseOrderFilters = { publisher_id?: number; status?: string };
+
+const details = { publisher: true, PurchaseOrderLine: { include: { book: true } } };
+
+type PurchaseOrderDetails = Prisma.PurchaseOrderGetPayload<{ include: typeof details }>;
+
+/**
+ * Adds the margin of every line against the current `Book.price` and the totals of the order.
+ */
+const withMargins = (order: PurchaseOrderDetails) => {
+    const lines = order.PurchaseOrderLine.map((line) => {
+        const margin = line.book.price - line.cost_price;
+        return {
+            ...line,
+            margin,
+            margin_percent: line.book.price ? Math.round((margin / line.book.price) * 10000) / 100 : null,
+        };
+    });
+    const { PurchaseOrderLine, ...rest } = order;
+    return {
+        ...rest,
+        PurchaseOrderLine: lines,
+        total_cost: lines.reduce((sum, line) => sum + line.cost_price * line.quantity, 0),
+        received_cost: lines.reduce((sum, line) => sum + line.cost_price * line.received_quantity, 0),
+    };
+}
+
+export const getPurchaseOrder = async (list: ListQuery, filters: PurchaseOrderFilters = {}) => {
+    const where = { publisher_id: filters.publisher_id, status: filters.status };
+    const [total, purchaseOrders] = await prisma.$transaction([
+        prisma.purchaseOrder.count({ where }),
+        prisma.purchaseOrder.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, purchaseOrders, total);
+}
+export const getPurchaseOrderById = async (id: number) => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({ where: { id }, include: details });
+    return purchaseOrder && withMargins(purchaseOrder);
+}
+
+const assertLines = async (tx: Prisma.TransactionClient, publisherId: number, lines: PurchaseOrderLineInput[]) => {
+    const publisher = await tx.publishers.findUnique({ where: { id: publisherId } });
+    if (!publisher) {
+        throw new HttpError(404, 'Publisher not found');
+    }
+
+    const ids = lines.map((line) => line.book_id);
+    if (new Set(ids).size !== ids.length) {
+        throw new HttpError(400, 'Every book can appear only once in a purchase order');
+    }
+    const books = await tx.book.findMany({ where: { id: { in: ids } }, select: { id: true } });
+    const missing = ids.filter((id) => !books.some((book) => book.id === id));
+    if (missing.length) {
+        throw new HttpError(404, 'Book not found', { bookIds: missing });
+    }
+}
+
+export const createPurchaseOrder = async (data: PurchaseOrderInput, actorId?: number) => {
+    const { publisher_id, expected_at, comment, lines } = data;
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+        await assertLines(tx, publisher_id, lines);
+        return tx.purchaseOrder.create({
+            data: {
+                publisher_id,
+                expected_at,
+                comment,
+                created_by_id: actorId,
+                PurchaseOrderLine: { create: lines.map(({ book_id, quantity, cost_price }) => ({ book_id, quantity, cost_price })) },
+            },
+            include: details,
+        });
+    });
+    return withMargins(purchaseOrder);
+}
+
+/**
+ * Replaces the header and the lines of a draft. Orders sent to the publisher cannot be edited.
+ */
+export const updatePurchaseOrder = async (id: number, data: PurchaseOrderInput) => {
+    const { publisher_id, expected_at, comment, lines } = data;
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+        const current = await tx.purchaseOrder.findUnique({ where: { id } });
+        if (!current) {
+            return null;
+        }
+        if (current.status !== 'draft') {
+            throw new HttpError(409, 'Only draft purchase orders can be edited');
+        }
+        await assertLines(tx, publisher_id, lines);
+        await tx.purchaseOrderLine.deleteMany({ where: { purchase_order_id: id } });
+        return tx.purchaseOrder.update({
+            where: { id },
+            data: {
+                publisher_id,
+                expected_at,
+                comment,
+                PurchaseOrderLine: { create: lines.map(({ book_id, quantity, cost_price }) => ({ book_id, quantity, cost_price })) },
+            },
+            include: details,
+        });
+    });
+    return purchaseOrder && withMargins(purchaseOrder);
+}
+
+// Moves the order from one of `from` to `to`, guarded against a concurrent change of the status
+const moveStatus = async (tx: Prisma.TransactionClient, id: number, from: string[], to: string, data: Prisma.PurchaseOrderUpdateManyMutationInput = {}) => {
+    const current = await tx.purchaseOrder.findUnique({ where: { id } });
+    if (!current) {
+        throw new HttpError(404, 'Purchase order not found');
+    }
+    const updated = await tx.purchaseOrder.updateMany({ where: { id, status: { in: from } }, data: { ...data, status: to } });
+    if (!updated.count) {
+        throw new HttpError(409, `Purchase order cannot move from "${current.status}" to "${to}"`);
+    }
+}
+
+export const submitPurchaseOrder = async (id: number) => {
+    await prisma.$transaction(async (tx) => {
+        const lines = await tx.purchaseOrderLine.count({ where: { purchase_order_id: id } });
+        if (!lines) {
+            throw new HttpError(409, 'Purchase order has no lines');
+        }
+        await moveStatus(tx, id, ['draft'], 'ordered', { ordered_at: new Date() });
+    });
+    return getPurchaseOrderById(id);
+}
+
+/**
+ * Cancels what was not received yet. Books received so far stay in stock.
+ */
+export const cancelPurchaseOrder = async (id: number) => {
+    await prisma.$transaction((tx) => moveStatus(tx, id, ['draft', 'ordered', 'partially_received'], 'canceled'));
+    return getPurchaseOrderById(id);
+}
+
+/**
+ * Books a delivery: every received quantity is added to the stock as a receipt. A line can be received
+ * in several deliveries up to its ordered quantity.
+ */
+export const receivePurchaseOrder = async (id: number, items: { book_id: number; quantity: number }[], actorId?: number) => {
+    const quantities = new Map<number, number>();
+    for (const item of items) {
+        quantities.set(item.book_id, (quantities.get(item.book_id) || 0) + item.quantity);
+    }
+    const received = [...quantities.entries()].map(([book_id, quantity]) => ({ book_id, quantity }));
+
+    await prisma.$transaction(async (tx) => {
+        // Locks the order, so two deliveries of the same order are booked one after the other
+        await tx.$queryRaw(Prisma.sql`SELECT id FROM "purchase_order" WHERE id = ${id} FOR UPDATE`);
+        const order = await tx.purchaseOrder.findUnique({ where: { id }, include: { PurchaseOrderLine: true } });
+        if (!order) {
+            throw new HttpError(404, 'Purchase order not found');
+        }
+        if (order.status !== 'ordered' && order.status !== 'partially_received') {
+            throw new HttpError(409, `Purchase order is ${order.status}`);
+        }
+
+        const errors = [];
+        for (const item of received) {
+            const line = order.PurchaseOrderLine.find((line) => line.book_id === item.book_id);
+            if (!line) {
+                errors.push({ bookId: item.book_id, message: 'Book is not in the purchase order' });
+            } else if (line.received_quantity + item.quantity > line.quantity) {
+                errors.push({ bookId: item.book_id, message: 'Received quantity exceeds the ordered quantity', remaining: line.quantity - line.received_quantity });
+            }
+        }
+        if (errors.length) {
+            throw new HttpError(409, 'Delivery does not match the purchase order', errors);
+        }
+
+        for (const item of received) {
+            const line = order.PurchaseOrderLine.find((line) => line.book_id === item.book_id)!;
+            line.received_quantity += item.quantity;
+            await tx.purchaseOrderLine.update({ where: { id: line.id }, data: { received_quantity: line.received_quantity } });
+            await moveStock(tx, item.book_id, 'receipt', item.quantity, { purchaseOrderId: id, actorId, comment: `Purchase order #${id}` });
+        }
+
+        const complete = order.PurchaseOrderLine.every((line) => line.received_quantity >= line.quantity);
+        await tx.purchaseOrder.update({ where: { id }, data: { status: complete ? 'received' : 'partially_received' } });
+    });
+    return getPurchaseOrderById(id);
+}
@@ -0,0 +1,138 @@
+import { OrderItem, Payment, Refund, ReturnItem, ReturnRequest } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { moveStock } from './inventory.controller';
+import { refundPayment } from './payment.controller';
+import { approveReturnRequest } from './returnRequest.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./inventory.controller', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./inventory.controller')>(),
+    moveStock: vi.fn(),
+}));
+vi.mock('./payment.controller', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./payment.controller')>(),
+    refundPayment: vi.fn(),
+}));
+
+const returnRequest = (status: string, refunds: Refund[] = []): ReturnRequest & { Refund: Refund[] } => ({
+    id: 9,
+    order_id: 5,
+    user_id: 2,
+    status,
+    reason: null,
+    comment: null,
+    decided_by_id: null,
+    decided_at: null,
+    refund_amount: 30,
+    created_at: new Date(),
+    Refund: refunds,
+});
+
+const payment = (refundedAmount: number): Payment => ({
+    id: 3,
+    order_id: 5,
+    crm_payment_card_id: 1,
+    provider: 'mock',
+    reference: 'mock_1',
+    amount: 50,
+    refunded_amount: refundedAmount,
+    currency: 'UAH',
+    status: refundedAmount ? 'partially_refunded' : 'captured',
+    error: null,
+    idempotency_key: 'key-1',
+    created_at: new Date(),
+    updated_at: new Date(),
+});
+
+const refund: Refund = { id: 1, order_id: 5, payment_id: 3, return_request_id: 9, amount: 30, created_at: new Date() };
+
+describe('approveReturnRequest', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('restocks the books and refunds the captured payment', async () => {
+        prisma.returnRequest.findUnique
+            .mockResolvedValueOnce(returnRequest('requested'))
+            .mockResolvedValueOnce(returnRequest('requested'))
+            .mockResolvedValueOnce(returnRequest('refund_pending'));
+        prisma.returnRequest.updateMany.mockResolvedValue({ count: 1 });
+        prisma.payment.findFirst.mockResolvedValue(payment(0));
+        const item: ReturnItem & { order_item: OrderItem } = {
+            id: 1, return_request_id: 9, order_item_id: 4, quantity: 2, order_item: { id: 4, quantity: 3, price: 15, discount_amount: 0, orderId: 5, bookId: 7 },
+        };
+        prisma.returnItem.findMany.mockResolvedValue([item]);
+
+        await approveReturnRequest(9, 1);
+
+        expect(prisma.returnRequest.update).toHaveBeenCalledWith({ where: { id: 9 }, data: { status: 'refund_pending' } });
+        expect(moveStock).toHaveBeenCalledWith(expect.anything(), 7, 'return', 2, { orderId: 5, returnRequestId: 9, actorId: 1 });
+        expect(refundPayment).toHaveBeenCalledWith(3, 30, 9);
+        expect(prisma.returnRequest.updateMany).toHaveBeenLastCalledWith({ where: { id: 9, status: 'refund_pending' }, data: { status: 'approved' } });
+    });
+
+    it('only records the refund of an order paid outside of the provider', async () => {
+        prisma.returnRequest.findUnique
+            .mockResolvedValueOnce(returnRequest('requested'))
+            .mockResolvedValueOnce(returnRequest('requested'))
+            .mockResolvedValueOnce(returnRequest('approved', [refund]));
+        prisma.returnRequest.updateMany.mockResolvedValue({ count: 1 });
+        prisma.payment.findFirst.mockResolvedValue(null);
+        prisma.returnItem.findMany.mockResolvedValue([]);
+
+        await approveReturnRequest(9);
+
+        expect(prisma.refund.create).toHaveBeenCalledWith({ data: { order_id: 5, amount: 30, return_request_id: 9 } });
+        expect(refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('retries a pending refund without deciding or restocking again', async () => {
+        prisma.returnRequest.findUnique.mockResolvedValue(returnRequest('refund_pending'));
+        prisma.payment.findFirst.mockResolvedValue(payment(0));
+
+        await approveReturnRequest(9);
+
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+        expect(moveStock).not.toHaveBeenCalled();
+        expect(refundPayment).toHaveBeenCalledWith(3, 30, 9);
+    });
+
+    it('does not refund again once the refund is recorded', async () => {
+        prisma.returnRequest.findUnique.mockResolvedValue(returnRequest('refund_pending', [refund]));
+
+        await approveReturnRequest(9);
+
+        expect(refundPayment).not.toHaveBeenCalled();
+        expect(prisma.returnRequest.updateMany).toHaveBeenCalledWith({ where: { id: 9, status: 'refund_pending' }, data: { status: 'approved' } });
+    });
+
+    it('caps the refund at what is left on the payment', async () => {
+        prisma.returnRequest.findUnique.mockResolvedValue(returnRequest('refund_pending'));
+        prisma.payment.findFirst.mockResolvedValue(payment(35));
+
+        await approveReturnRequest(9);
+
+        expect(refundPayment).toHaveBeenCalledWith(3, 15, 9);
+    });
+
+    it('approves without a refund when the payment was refunded in full meanwhile', async () => {
+        prisma.returnRequest.findUnique.mockResolvedValue(returnRequest('refund_pending'));
+        prisma.payment.findFirst.mockResolvedValue(null);
+
+        await approveReturnRequest(9);
+
+        expect(refundPayment).not.toHaveBeenCalled();
+        expect(prisma.returnRequest.updateMany).toHaveBeenCalledWith({ where: { id: 9, status: 'refund_pending' }, data: { status: 'approved' } });
+    });
+
+    it('keeps the return pending when the provider refund fails', async () => {
+        prisma.returnRequest.findUnique.mockResolvedValue(returnRequest('refund_pending'));
+        prisma.payment.findFirst.mockResolvedValue(payment(0));
+        vi.mocked(refundPayment).mockRejectedValueOnce(new Error('Refund failed'));
+
+        await expect(approveReturnRequest(9)).rejects.toThrow('Refund failed');
+        expect(prisma.returnRequest.updateMany).not.toHaveBeenCalled();
+    });
+});
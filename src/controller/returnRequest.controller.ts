@@ -0,0 +1,163 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { statusKind } from "../utils/orderWorkflow";
+import { moveStock } from "./inventory.controller";
+import { recordRefund, refundPayment } from "./payment.controller";
+
+export type ReturnLine = { orderItemId: number; quantity: number };
+
+const details = { ReturnItem: { include: { order_item: true } }, Refund: true };
+
+export const getReturnRequest = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { user_id: userId } : undefined;
+    const [total, returnRequests] = await prisma.$transaction([
+        prisma.returnRequest.count({ where }),
+        prisma.returnRequest.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, returnRequests, total);
+}
+export const getReturnRequestById = async (id: number) => {
+    const returnRequest = await prisma.returnRequest.findUnique({ where: { id }, include: details });
+    return returnRequest;
+}
+
+/**
+ * Requests the return of some order lines of a completed order. A line can be returned up to its
+ * ordered quantity, counting every return of it that was not rejected.
+ */
+export const createReturnRequest = async (userId: number, orderId: number, lines: ReturnLine[], reason?: string) => {
+    const quantities = new Map<number, number>();
+    for (const line of lines) {
+        quantities.set(line.orderItemId, (quantities.get(line.orderItemId) || 0) + line.quantity);
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({ where: { id: orderId }, include: { order_status: true, OrderItem: true } });
+        if (!order) {
+            throw new HttpError(404, 'Order not found');
+        }
+        if (statusKind(order.order_status) !== 'is_done') {
+            throw new HttpError(409, 'Only completed orders can be returned');
+        }
+
+        const missing = [...quantities.keys()].filter((id) => !order.OrderItem.some((item) => item.id === id));
+        if (missing.length) {
+            throw new HttpError(404, 'Order item not found', { orderItemIds: missing });
+        }
+
+        const returned = await tx.returnItem.findMany({
+            where: { order_item_id: { in: [...quantities.keys()] }, return_request: { status: { not: 'rejected' } } },
+        });
+
+        const exceeded = [];
+        let refundAmount = 0;
+        for (const item of order.OrderItem.filter((item) => quantities.has(item.id))) {
+            const requested = quantities.get(item.id) as number;
+            const available = item.quantity - returned
+                .filter((line) => line.order_item_id === item.id)
+                .reduce((sum, line) => sum + line.quantity, 0);
+            if (requested > available) {
+                exceeded.push({ orderItemId: item.id, requested, available });
+            }
+            // The customer paid the price less the discounts of the line
+            refundAmount += (item.price - item.discount_amount / item.quantity) * requested;
+        }
+        if (exceeded.length) {
+            throw new HttpError(409, 'Return quantity exceeds what can be returned', exceeded);
+        }
+
+        return tx.returnRequest.create({
+            data: {
+                order_id: order.id,
+                user_id: userId,
+                reason,
+                refund_amount: Math.round(refundAmount * 100) / 100,
+                ReturnItem: {
+                    create: [...quantities.entries()].map(([orderItemId, quantity]) => ({ order_item_id: orderItemId, quantity })),
+                },
+            },
+            include: details,
+        });
+    });
+}
+
+// Moves a requested return into its decision, fails when it was decided by another request
+const decide = async (tx: Prisma.TransactionClient, id: number, status: 'approved' | 'rejected', actorId?: number, comment?: string) => {
+    const request = await tx.returnRequest.findUnique({ where: { id } });
+    if (!request) {
+        throw new HttpError(404, 'Return request not found');
+    }
+    const updated = await tx.returnRequest.updateMany({
+        where: { id, status: 'requested' },
+        data: { status, comment, decided_by_id: actorId, decided_at: new Date() },
+    });
+    if (!updated.count) {
+        throw new HttpError(409, `Return request is already ${request.status}`);
+    }
+    return request;
+}
+
+const capturedPayment = (tx: Prisma.TransactionClient, orderId: number) => {
+    return tx.payment.findFirst({
+        where: { order_id: orderId, status: { in: ['captured', 'partially_refunded'] } },
+        orderBy: { id: 'desc' },
+    });
+}
+
+/**
+ * Refunds a return that waits for its refund at the provider, a refund already recorded for it is not repeated.
+ * The amount is capped at what is left on the payment, so a payment refunded in the meantime cannot keep
+ * the return pending. The provider gets the same idempotency key on every retry.
+ */
+const settleRefund = async (id: number) => {
+    const request = await prisma.returnRequest.findUnique({ where: { id }, include: { Refund: true } });
+    if (!request || request.status !== 'refund_pending') {
+        return;
+    }
+    if (!request.Refund.length) {
+        const payment = await capturedPayment(prisma, request.order_id);
+        const refundable = payment ? Math.round((payment.amount - payment.refunded_amount) * 100) / 100 : 0;
+        const amount = Math.min(request.refund_amount, refundable);
+        if (payment && amount > 0) {
+            await refundPayment(payment.id, amount, request.id);
+        }
+    }
+    await prisma.returnRequest.updateMany({ where: { id, status: 'refund_pending' }, data: { status: 'approved' } });
+}
+
+/**
+ * Approves a return: the books go back to stock and the amount is refunded to the captured payment of
+ * the order, or only recorded when the order was paid outside of the payment provider. The decision and
+ * the restock are committed first and the return waits in `refund_pending` for the provider. When the
+ * refund fails, approving the return again retries it.
+ */
+export const approveReturnRequest = async (id: number, actorId?: number, comment?: string) => {
+    const current = await prisma.returnRequest.findUnique({ where: { id } });
+    if (current?.status !== 'refund_pending') {
+        await prisma.$transaction(async (tx) => {
+            const request = await decide(tx, id, 'approved', actorId, comment);
+            const payment = await capturedPayment(tx, request.order_id);
+            if (payment) {
+                await tx.returnRequest.update({ where: { id }, data: { status: 'refund_pending' } });
+            } else {
+                await recordRefund(tx, { order_id: request.order_id, amount: request.refund_amount, return_request_id: id });
+            }
+
+            const items = await tx.returnItem.findMany({ where: { return_request_id: id }, include: { order_item: true } });
+            for (const item of items) {
+                await moveStock(tx, item.order_item.bookId, 'return', item.quantity, { orderId: request.order_id, returnRequestId: id, actorId });
+            }
+        });
+    }
+
+    await settleRefund(id);
+    return getReturnRequestById(id);
+}
+
+export const rejectReturnRequest = async (id: number, actorId?: number, comment?: string) => {
+    await prisma.$transaction((tx) => decide(tx, id, 'rejected', actorId, comment));
+    return getReturnRequestById(id);
+}
@@ -0,0 +1,77 @@
+import { Review } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { deleteReview, moderateReview, updateReview } from './review.controller';
+
+vi.mock('../utils/prisma');
+vi.mock('./inventory.controller', () => ({ lockBooks: vi.fn() }));
+
+const review = (status: string): Review => ({
+    id: 4,
+    book_id: 7,
+    user_id: 2,
+    rating: 5,
+    title: 'Great',
+    body: null,
+    status,
+    verified_purchase: false,
+    moderated_by_id: status === 'pending' ? null : 1,
+    moderated_at: status === 'pending' ? null : new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+});
+
+describe('reviews', () => {
+    beforeEach(() => {
+        vi.mocked(prisma.review.aggregate).mockResolvedValue({ _avg: { rating: 4.333 }, _count: { _all: 3 }, _sum: undefined, _min: undefined, _max: undefined });
+        prisma.orderItem.count.mockResolvedValue(1);
+    });
+
+    it('sends an edited review back to moderation and recounts the rating', async () => {
+        prisma.review.findUnique.mockResolvedValue(review('approved'));
+
+        await updateReview(4, { rating: 2 }, 2);
+
+        expect(prisma.review.update).toHaveBeenCalledWith({
+            where: { id: 4 },
+            data: expect.objectContaining({ rating: 2, status: 'pending', verified_purchase: true, moderated_by_id: null }),
+        });
+        expect(prisma.book.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { rating_average: 4.33, rating_count: 3 } });
+    });
+
+    it('keeps authors from editing or deleting a hidden review', async () => {
+        prisma.review.findUnique.mockResolvedValue(review('hidden'));
+
+        await expect(updateReview(4, { rating: 5 }, 2)).rejects.toMatchObject({ status: 409 });
+        await expect(deleteReview(4, 2)).rejects.toMatchObject({ status: 409 });
+        expect(prisma.review.update).not.toHaveBeenCalled();
+        expect(prisma.review.delete).not.toHaveBeenCalled();
+    });
+
+    it('lets staff delete a hidden review', async () => {
+        prisma.review.findUnique.mockResolvedValue(review('hidden'));
+
+        await deleteReview(4);
+
+        expect(prisma.review.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+    });
+
+    it('records who moderated a review', async () => {
+        prisma.review.findUnique.mockResolvedValue(review('pending'));
+
+        await moderateReview(4, 'hidden', 1);
+
+        expect(prisma.review.update).toHaveBeenCalledWith({
+            where: { id: 4 },
+            data: { status: 'hidden', moderated_by_id: 1, moderated_at: expect.any(Date) },
+        });
+        expect(prisma.book.update).toHaveBeenCalled();
+    });
+
+    it('fails for an unknown review', async () => {
+        prisma.review.findUnique.mockResolvedValue(null);
+
+        await expect(deleteReview(4)).rejects.toMatchObject({ status: 404 });
+    });
+});
@@ -0,0 +1,169 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { lockBooks } from "./inventory.controller";
+
+export type ReviewStatus = 'pending' | 'approved' | 'hidden';
+
+export const reviewStatuses: ReviewStatus[] = ['pending', 'approved', 'hidden'];
+
+export type ReviewInput = { rating: number; title?: string | null; body?: string | null };
+
+export type ReviewFilters = { book_id?: number; status?: ReviewStatus; user_id?: number; verified_purchase?: boolean };
+
+const findReview = async (tx: Prisma.TransactionClient, id: number) => {
+    const review = await tx.review.findUnique({ where: { id } });
+    if (!review) {
+        throw new HttpError(404, 'Review not found');
+    }
+    return review;
+}
+
+/**
+ * A review hidden by a moderator stays as it is until a moderator acts again, so its author
+ * cannot send it back to the queue by editing it or drop the moderation by deleting it.
+ */
+const assertNotHidden = (review: { status: string }, userId?: number) => {
+    if (userId && review.status === 'hidden') {
+        throw new HttpError(409, 'Review was hidden by a moderator');
+    }
+}
+
+/**
+ * Whether the user has a completed order containing the book.
+ */
+const isVerifiedPurchase = async (tx: Prisma.TransactionClient, userId: number, bookId: number) => {
+    const count = await tx.orderItem.count({
+        where: { bookId, order: { user_id: userId, order_status: { is_done: true, is_canceled: false } } },
+    });
+    return count > 0;
+}
+
+/**
+ * Recounts `Book.rating_average` and `Book.rating_count` from the approved reviews. The book row
+ * stays locked until the transaction ends, so concurrent changes of its reviews count each other.
+ */
+const refreshRating = async (tx: Prisma.TransactionClient, bookId: number) => {
+    await lockBooks(tx, [bookId]);
+    const { _avg, _count } = await tx.review.aggregate({
+        where: { book_id: bookId, status: 'approved' },
+        _avg: { rating: true },
+        _count: { _all: true },
+    });
+    await tx.book.update({
+        where: { id: bookId },
+        data: { rating_average: Math.round((_avg.rating ?? 0) * 100) / 100, rating_count: _count._all },
+    });
+}
+
+export const getReview = async (list: ListQuery, filters: ReviewFilters = {}) => {
+    const where: Prisma.ReviewWhereInput = {
+        ...(filters.book_id && { book_id: filters.book_id }),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.user_id && { user_id: filters.user_id }),
+        ...(filters.verified_purchase !== undefined && { verified_purchase: filters.verified_purchase }),
+    };
+    const [total, reviews] = await prisma.$transaction([
+        prisma.review.count({ where }),
+        prisma.review.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, reviews, total);
+}
+
+/**
+ * The approved reviews of a book, as shown to customers.
+ */
+export const getBookReviews = async (bookId: number, list: ListQuery, verifiedOnly = false) => {
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } });
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+    return getReview(list, { book_id: bookId, status: 'approved', ...(verifiedOnly && { verified_purchase: true }) });
+}
+
+export const getReviewById = async (id: number) => {
+    return prisma.review.findUnique({ where: { id } });
+}
+
+/**
+ * Reviews a book, once per user. The review waits for moderation before it counts towards the rating.
+ */
+export const createReview = async (userId: number, bookId: number, data: ReviewInput) => {
+    return prisma.$transaction(async (tx) => {
+        const book = await tx.book.findUnique({ where: { id: bookId }, select: { id: true } });
+        if (!book) {
+            throw new HttpError(404, 'Book not found');
+        }
+        const existing = await tx.review.findUnique({ where: { book_id_user_id: { book_id: bookId, user_id: userId } }, select: { id: true } });
+        if (existing) {
+            throw new HttpError(409, 'You have already reviewed this book', { reviewId: existing.id });
+        }
+        return tx.review.create({
+            data: {
+                book_id: bookId,
+                user_id: userId,
+                rating: data.rating,
+                title: data.title,
+                body: data.body,
+                verified_purchase: await isVerifiedPurchase(tx, userId, bookId),
+            },
+        });
+    }).catch((error) => {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new HttpError(409, 'You have already reviewed this book');
+        }
+        throw error;
+    });
+}
+
+/**
+ * Edits a review. The edited text goes back to moderation, so the rating stops counting until approved again.
+ * `userId` is set when the author edits, who cannot touch a hidden review.
+ */
+export const updateReview = async (id: number, data: ReviewInput, userId?: number) => {
+    return prisma.$transaction(async (tx) => {
+        const review = await findReview(tx, id);
+        assertNotHidden(review, userId);
+        const updated = await tx.review.update({
+            where: { id },
+            data: {
+                rating: data.rating,
+                title: data.title,
+                body: data.body,
+                status: 'pending',
+                verified_purchase: await isVerifiedPurchase(tx, review.user_id, review.book_id),
+                moderated_by_id: null,
+                moderated_at: null,
+            },
+        });
+        await refreshRating(tx, review.book_id);
+        return updated;
+    });
+}
+
+export const deleteReview = async (id: number, userId?: number) => {
+    return prisma.$transaction(async (tx) => {
+        const review = await findReview(tx, id);
+        assertNotHidden(review, userId);
+        await tx.review.delete({ where: { id } });
+        await refreshRating(tx, review.book_id);
+        return review;
+    });
+}
+
+/**
+ * Approves or hides a review. Only approved reviews are shown and count towards the rating of the book.
+ */
+export const moderateReview = async (id: number, status: Exclude<ReviewStatus, 'pending'>, actorId?: number) => {
+    return prisma.$transaction(async (tx) => {
+        const review = await findReview(tx, id);
+        const updated = await tx.review.update({
+            where: { id },
+            data: { status, moderated_by_id: actorId, moderated_at: new Date() },
+        });
+        await refreshRating(tx, review.book_id);
+        return updated;
+    });
+}
@@ -0,0 +1,117 @@
+import { Book, CrmEmail, StockAlert } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { MemoryNotifier, setNotifier } from '../utils/notifier';
+import { acknowledgeStockAlert, checkLowStock, snoozeStockAlert } from './stockAlert.controller';
+
+vi.mock('../utils/prisma');
+
+const book = (id: number, stock: number, threshold: number): Book => ({
+    id,
+    title: `Book ${id}`,
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price: 10,
+    published_at: new Date(),
+    stock,
+    reorder_threshold: threshold,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+});
+
+const alert = (fields: Partial<StockAlert> = {}): StockAlert => ({
+    id: 4,
+    book_id: 1,
+    stock: 1,
+    threshold: 3,
+    status: 'open',
+    snoozed_until: null,
+    acknowledged_by_id: null,
+    acknowledged_at: null,
+    resolved_at: null,
+    created_at: new Date(),
+    ...fields,
+});
+
+const lowBook = (stock: number, alerts: StockAlert[]): Book & { StockAlert: StockAlert[] } => ({ ...book(1, stock, 3), StockAlert: alerts });
+
+const managerEmail: CrmEmail = { id: 3, email: 'manager@example.com', is_main: true, verified_at: new Date(), crm_crard_id: 2 };
+
+let notifier: MemoryNotifier;
+
+beforeEach(() => {
+    notifier = new MemoryNotifier();
+    setNotifier(notifier);
+});
+
+describe('checkLowStock', () => {
+    it('opens one alert per low book and mails the managers with a verified email', async () => {
+        prisma.book.findMany.mockResolvedValue([lowBook(1, [])]);
+        prisma.stockAlert.create.mockResolvedValue(alert());
+        prisma.user.findMany.mockResolvedValue([{ id: 8, login: 'manager', password: '' }, { id: 9, login: 'unverified', password: '' }]);
+        prisma.crmEmail.findFirst.mockResolvedValueOnce(managerEmail).mockResolvedValueOnce(null);
+        prisma.stockAlert.findMany.mockResolvedValue([]);
+
+        expect(await checkLowStock()).toEqual({ opened: 1, resolved: 0 });
+        expect(prisma.stockAlert.create).toHaveBeenCalledWith({ data: { book_id: 1, stock: 1, threshold: 3 } });
+        expect(notifier.sent).toEqual([expect.objectContaining({ to: 'manager@example.com', subject: 'Low stock: Book 1' })]);
+    });
+
+    it('leaves books that already have an active alert alone', async () => {
+        prisma.book.findMany.mockResolvedValue([lowBook(1, [alert({ status: 'acknowledged' })])]);
+        prisma.stockAlert.findMany.mockResolvedValue([]);
+
+        expect(await checkLowStock()).toEqual({ opened: 0, resolved: 0 });
+        expect(prisma.stockAlert.create).not.toHaveBeenCalled();
+        expect(notifier.sent).toEqual([]);
+    });
+
+    it('resolves the alerts of restocked books', async () => {
+        prisma.book.findMany.mockResolvedValue([lowBook(1, [alert()])]);
+        prisma.stockAlert.findMany.mockResolvedValue([alert({ id: 6, book_id: 2 })]);
+
+        expect(await checkLowStock()).toEqual({ opened: 0, resolved: 1 });
+        expect(prisma.stockAlert.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { status: { in: ['open', 'acknowledged'] }, book_id: { notIn: [1] } },
+        }));
+        expect(prisma.stockAlert.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: [6] } },
+            data: { status: 'resolved', resolved_at: expect.any(Date) },
+        });
+    });
+});
+
+describe('acknowledgeStockAlert', () => {
+    it('records who acknowledged the alert', async () => {
+        prisma.stockAlert.findUnique.mockResolvedValue(alert());
+
+        await acknowledgeStockAlert(4, 8);
+
+        expect(prisma.stockAlert.update).toHaveBeenCalledWith({
+            where: { id: 4 },
+            data: { status: 'acknowledged', acknowledged_by_id: 8, acknowledged_at: expect.any(Date) },
+        });
+    });
+
+    it('refuses resolved and unknown alerts', async () => {
+        prisma.stockAlert.findUnique.mockResolvedValue(alert({ status: 'resolved' }));
+        await expect(acknowledgeStockAlert(4, 8)).rejects.toMatchObject({ status: 409, message: 'Stock alert is already resolved' });
+
+        prisma.stockAlert.findUnique.mockResolvedValue(null);
+        await expect(acknowledgeStockAlert(4, 8)).rejects.toMatchObject({ status: 404 });
+
+        expect(prisma.stockAlert.update).not.toHaveBeenCalled();
+    });
+});
+
+describe('snoozeStockAlert', () => {
+    it('only snoozes into the future', async () => {
+        await expect(snoozeStockAlert(4, new Date(Date.now() - 1000))).rejects.toMatchObject({ status: 400 });
+        expect(prisma.stockAlert.update).not.toHaveBeenCalled();
+    });
+});
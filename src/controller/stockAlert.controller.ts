@@ -0,0 +1,104 @@
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { notify } from "../utils/notifier";
+import { notificationEmail } from "./crmEmail.controller";
+
+export type StockAlertFilters = { status?: string; include_snoozed?: boolean };
+
+// Alerts that still need attention, a resolved alert is closed for good
+const activeStatuses = ['open', 'acknowledged'];
+
+/**
+ * Lists alerts, by default the active ones that are not snoozed.
+ */
+export const getStockAlert = async (list: ListQuery, filters: StockAlertFilters = {}) => {
+    const now = new Date();
+    const where = {
+        status: filters.status || { in: activeStatuses },
+        ...(filters.include_snoozed ? {} : { OR: [{ snoozed_until: null }, { snoozed_until: { lte: now } }] }),
+    };
+    const [total, alerts] = await prisma.$transaction([
+        prisma.stockAlert.count({ where }),
+        prisma.stockAlert.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, alerts, total);
+}
+
+const notifyManagers = async (subject: string, text: string) => {
+    const managers = await prisma.user.findMany({
+        where: { CrmCard: { some: { user_type: { is_menejer: true } } } },
+        select: { id: true },
+    });
+    for (const manager of managers) {
+        const email = await notificationEmail(manager.id);
+        if (email) {
+            await notify({ to: email, subject, text });
+        }
+    }
+}
+
+/**
+ * Opens an alert for every book whose stock dropped below its reorder threshold and resolves
+ * the alerts of books that were restocked. A background job runs it every LOW_STOCK_CHECK_SECONDS,
+ * so alerts follow any sale or adjustment shortly.
+ */
+export const checkLowStock = async () => {
+    const low = await prisma.book.findMany({
+        where: { reorder_threshold: { not: null }, stock: { lt: prisma.book.fields.reorder_threshold } },
+        include: { StockAlert: { where: { status: { in: activeStatuses } } } },
+    });
+
+    const opened = [];
+    for (const book of low.filter((book) => !book.StockAlert.length)) {
+        const alert = await prisma.stockAlert.create({
+            data: { book_id: book.id, stock: book.stock, threshold: book.reorder_threshold as number },
+        });
+        opened.push(alert);
+        await notifyManagers(
+            `Low stock: ${book.title}`,
+            `"${book.title}" (#${book.id}) has ${book.stock} copies left, the reorder threshold is ${book.reorder_threshold}.`,
+        );
+    }
+
+    const restocked = await prisma.stockAlert.findMany({
+        where: { status: { in: activeStatuses }, book_id: { notIn: low.map((book) => book.id) } },
+        select: { id: true },
+    });
+    await prisma.stockAlert.updateMany({
+        where: { id: { in: restocked.map(({ id }) => id) } },
+        data: { status: 'resolved', resolved_at: new Date() },
+    });
+
+    return { opened: opened.length, resolved: restocked.length };
+}
+
+const findActive = async (id: number) => {
+    const alert = await prisma.stockAlert.findUnique({ where: { id } });
+    if (!alert) {
+        throw new HttpError(404, 'Stock alert not found');
+    }
+    if (!activeStatuses.includes(alert.status)) {
+        throw new HttpError(409, `Stock alert is already ${alert.status}`);
+    }
+    return alert;
+}
+
+export const acknowledgeStockAlert = async (id: number, actorId: number) => {
+    await findActive(id);
+    return prisma.stockAlert.update({
+        where: { id },
+        data: { status: 'acknowledged', acknowledged_by_id: actorId, acknowledged_at: new Date() },
+    });
+}
+
+/**
+ * Hides the alert from the default list until `until`.
+ */
+export const snoozeStockAlert = async (id: number, until: Date) => {
+    if (until <= new Date()) {
+        throw new HttpError(400, 'Snooze time must be in the future');
+    }
+    await findActive(id);
+    return prisma.stockAlert.update({ where: { id }, data: { snoozed_until: until } });
+}
@@ -0,0 +1,126 @@
+import { Book, CrmEmail, StockSubscription } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { MemoryNotifier, Notification, setNotifier } from '../utils/notifier';
+import { sendBackInStockNotifications, subscribeToStock, triggerBackInStock } from './stockSubscription.controller';
+
+vi.mock('../utils/prisma');
+
+const book = (stock: number): Book => ({
+    id: 7,
+    title: 'The Dispossessed',
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price: 10,
+    published_at: new Date(),
+    stock,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+});
+
+const subscription = (id: number, stock: number): StockSubscription & { book: Book } => ({
+    id,
+    book_id: 7,
+    user_id: id * 10,
+    status: 'triggered',
+    created_at: new Date(),
+    triggered_at: new Date(),
+    notified_at: null,
+    book: book(stock),
+});
+
+const email: CrmEmail = { id: 3, email: 'reader@example.com', is_main: true, verified_at: new Date(), crm_crard_id: 2 };
+
+let notifier: MemoryNotifier;
+
+beforeEach(() => {
+    notifier = new MemoryNotifier();
+    setNotifier(notifier);
+});
+
+describe('subscribeToStock', () => {
+    it('subscribes to a sold out book, starting over after an earlier notification', async () => {
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 0 }]);
+
+        await subscribeToStock(2, 7);
+
+        expect(prisma.stockSubscription.upsert).toHaveBeenCalledWith({
+            where: { book_id_user_id: { book_id: 7, user_id: 2 } },
+            create: { book_id: 7, user_id: 2 },
+            update: { status: 'active', triggered_at: null, notified_at: null },
+        });
+    });
+
+    it('refuses books in stock and unknown books', async () => {
+        prisma.$queryRaw.mockResolvedValue([{ id: 7, stock: 2 }]);
+        await expect(subscribeToStock(2, 7)).rejects.toMatchObject({ status: 409 });
+
+        prisma.$queryRaw.mockResolvedValue([]);
+        await expect(subscribeToStock(2, 7)).rejects.toMatchObject({ status: 404 });
+
+        expect(prisma.stockSubscription.upsert).not.toHaveBeenCalled();
+    });
+});
+
+describe('triggerBackInStock', () => {
+    it('marks the active subscriptions of the book for sending', async () => {
+        await triggerBackInStock(prisma, 7);
+
+        expect(prisma.stockSubscription.updateMany).toHaveBeenCalledWith({
+            where: { book_id: 7, status: 'active' },
+            data: { status: 'triggered', triggered_at: expect.any(Date) },
+        });
+    });
+});
+
+describe('sendBackInStockNotifications', () => {
+    it('claims every subscription before sending it', async () => {
+        prisma.stockSubscription.findMany.mockResolvedValue([subscription(1, 3)]);
+        prisma.crmEmail.findFirst.mockResolvedValue(email);
+        prisma.stockSubscription.updateMany.mockResolvedValue({ count: 1 });
+
+        expect(await sendBackInStockNotifications()).toEqual({ sent: 1 });
+        expect(prisma.stockSubscription.updateMany).toHaveBeenCalledWith({
+            where: { id: 1, status: 'triggered' },
+            data: { status: 'notified', notified_at: expect.any(Date) },
+        });
+        expect(notifier.sent).toEqual([expect.objectContaining({ to: 'reader@example.com', subject: 'Back in stock: The Dispossessed' })]);
+    });
+
+    it('puts subscriptions of books that sold out again back to waiting', async () => {
+        prisma.stockSubscription.findMany.mockResolvedValue([subscription(1, 0)]);
+
+        expect(await sendBackInStockNotifications()).toEqual({ sent: 0 });
+        expect(prisma.stockSubscription.updateMany).toHaveBeenCalledWith({
+            where: { id: 1, status: 'triggered' },
+            data: { status: 'active', triggered_at: null },
+        });
+        expect(notifier.sent).toEqual([]);
+    });
+
+    it('skips users without a verified email and subscriptions claimed by another run', async () => {
+        prisma.stockSubscription.findMany.mockResolvedValue([subscription(1, 3), subscription(2, 3)]);
+        prisma.crmEmail.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(email);
+        prisma.stockSubscription.updateMany.mockResolvedValue({ count: 0 });
+
+        expect(await sendBackInStockNotifications()).toEqual({ sent: 0 });
+        expect(prisma.stockSubscription.updateMany).toHaveBeenCalledTimes(1);
+        expect(notifier.sent).toEqual([]);
+    });
+
+    it('releases the claim when sending fails', async () => {
+        prisma.stockSubscription.findMany.mockResolvedValue([subscription(1, 3)]);
+        prisma.crmEmail.findFirst.mockResolvedValue(email);
+        prisma.stockSubscription.updateMany.mockResolvedValue({ count: 1 });
+        setNotifier({ send: (_notification: Notification) => Promise.reject(new Error('SMTP down')) });
+
+        await expect(sendBackInStockNotifications()).rejects.toThrow('SMTP down');
+        expect(prisma.stockSubscription.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { status: 'triggered', notified_at: null } });
+    });
+});
@@ -0,0 +1,113 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+import { notify } from "../utils/notifier";
+import { notificationEmail } from "./crmEmail.controller";
+import { lockBooks } from "./inventory.controller";
+
+// Link to the book in the notification, the book id is appended
+const bookUrl = process.env.BOOK_URL;
+
+export const getStockSubscription = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { user_id: userId } : undefined;
+    const [total, subscriptions] = await prisma.$transaction([
+        prisma.stockSubscription.count({ where }),
+        prisma.stockSubscription.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, subscriptions, total);
+}
+
+export const getStockSubscriptionById = async (id: number) => {
+    return prisma.stockSubscription.findUnique({ where: { id }, include: { book: true } });
+}
+
+/**
+ * Asks to be told when an out-of-stock book is back. Subscribing again after a notification starts over.
+ */
+export const subscribeToStock = async (userId: number, bookId: number) => {
+    return prisma.$transaction(async (tx) => {
+        // Holds off stock changes until the subscription is stored, so a restock cannot slip by unseen
+        const [book] = await lockBooks(tx, [bookId]);
+        if (!book) {
+            throw new HttpError(404, 'Book not found');
+        }
+        if (book.stock > 0) {
+            throw new HttpError(409, 'Book is in stock');
+        }
+        return tx.stockSubscription.upsert({
+            where: { book_id_user_id: { book_id: bookId, user_id: userId } },
+            create: { book_id: bookId, user_id: userId },
+            update: { status: 'active', triggered_at: null, notified_at: null },
+        });
+    });
+}
+
+export const deleteStockSubscription = async (id: number) => {
+    return prisma.stockSubscription.delete({ where: { id } });
+}
+
+/**
+ * Marks the subscriptions of a book that came back in stock for sending. Runs inside the transaction
+ * that changed the stock, so a rolled back change notifies nobody.
+ */
+export const triggerBackInStock = async (tx: Prisma.TransactionClient, bookId: number) => {
+    await tx.stockSubscription.updateMany({
+        where: { book_id: bookId, status: 'active' },
+        data: { status: 'triggered', triggered_at: new Date() },
+    });
+}
+
+/**
+ * Sends the triggered back-in-stock notifications. A background job runs it every BACK_IN_STOCK_CHECK_SECONDS.
+ * Subscriptions of books that sold out again before the message went out keep waiting, and so do those of
+ * users without a verified email until they verify one.
+ */
+export const sendBackInStockNotifications = async () => {
+    const subscriptions = await prisma.stockSubscription.findMany({
+        where: { status: 'triggered' },
+        include: { book: { select: { id: true, title: true, stock: true } } },
+        orderBy: { id: 'asc' },
+    });
+
+    let sent = 0;
+    for (const subscription of subscriptions) {
+        const { book } = subscription;
+        if (book.stock <= 0) {
+            await prisma.stockSubscription.updateMany({
+                where: { id: subscription.id, status: 'triggered' },
+                data: { status: 'active', triggered_at: null },
+            });
+            continue;
+        }
+
+        const email = await notificationEmail(subscription.user_id);
+        if (!email) {
+            continue;
+        }
+
+        // Claimed before sending, so a subscription is never sent twice
+        const claimed = await prisma.stockSubscription.updateMany({
+            where: { id: subscription.id, status: 'triggered' },
+            data: { status: 'notified', notified_at: new Date() },
+        });
+        if (!claimed.count) {
+            continue;
+        }
+
+        try {
+            await notify({
+                to: email,
+                subject: `Back in stock: ${book.title}`,
+                text: `"${book.title}" is available again.${bookUrl ? ` ${bookUrl}${book.id}` : ''}`,
+            });
+            sent++;
+        } catch (error) {
+            await prisma.stockSubscription.update({ where: { id: subscription.id }, data: { status: 'triggered', notified_at: null } });
+            throw error;
+        }
+    }
+
+    return { sent };
+}
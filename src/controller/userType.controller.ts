@@ -1,10 +1,14 @@
 import { UserType } from "@prisma/client";
 
 import prisma from "../utils/prisma";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
 
-export const getUserType = async () => {
-    const userTypes = await prisma.userType.findMany();
-    return userTypes;
+export const getUserType = async (list: ListQuery) => {
+    const [total, userTypes] = await prisma.$transaction([
+        prisma.userType.count(),
+        prisma.userType.findMany(findManyArgs(list)),
+    ]);
+    return toPage(list, userTypes, total);
 }
 export const getUserTypeById = async (id: number) => {
     const userType = await prisma.userType.findUnique({ where: { id } });
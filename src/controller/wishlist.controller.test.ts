@@ -0,0 +1,113 @@
+import { Book, Prisma, Wishlist } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from '../utils/__mocks__/prisma';
+import { hashToken } from '../utils/jwt';
+import { addWishlistItem, getSharedWishlist, getWishlistById, removeWishlistItem, shareWishlist } from './wishlist.controller';
+
+vi.mock('../utils/prisma');
+
+const wishlist = (shareTokenHash: string | null = null): Wishlist => ({
+    id: 3,
+    user_id: 2,
+    name: 'Birthday',
+    share_token_hash: shareTokenHash,
+    created_at: new Date(),
+    updated_at: new Date(),
+});
+
+type WishlistWithItems = Prisma.WishlistGetPayload<{ include: { WishlistItem: { include: { book: { include: { author: true } } } } } }>;
+
+const withItems = (shareTokenHash: string | null = null): WishlistWithItems => ({ ...wishlist(shareTokenHash), WishlistItem: [] });
+
+const book: Book = {
+    id: 7,
+    title: 'The Dispossessed',
+    description: '',
+    isbn_13: null,
+    isbn_10: null,
+    price: 10,
+    published_at: new Date(),
+    stock: 0,
+    reorder_threshold: null,
+    rating_average: 0,
+    rating_count: 0,
+    author_id: null,
+    category_id: null,
+    publisher_id: null,
+};
+
+describe('shareWishlist', () => {
+    it('returns the share token once and stores only its hash', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(wishlist());
+        prisma.wishlist.update.mockResolvedValue(wishlist('stored-hash'));
+
+        const shared = await shareWishlist(3);
+
+        expect(prisma.wishlist.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { share_token_hash: hashToken(shared.share_token) } });
+        expect(shared).toMatchObject({ id: 3, shared: true, share_url: shared.share_token });
+        expect(shared).not.toHaveProperty('share_token_hash');
+    });
+
+    it('answers 404 for an unknown wishlist', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(null);
+
+        await expect(shareWishlist(3)).rejects.toMatchObject({ status: 404 });
+        expect(prisma.wishlist.update).not.toHaveBeenCalled();
+    });
+});
+
+describe('getSharedWishlist', () => {
+    it('finds the wishlist by the hash of the token and hides the owner', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(withItems(hashToken('share-token')));
+
+        const shared = await getSharedWishlist('share-token');
+
+        expect(prisma.wishlist.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { share_token_hash: hashToken('share-token') } }));
+        expect(shared).toEqual({ id: 3, name: 'Birthday', created_at: expect.any(Date), updated_at: expect.any(Date), WishlistItem: [] });
+    });
+});
+
+describe('getWishlistById', () => {
+    it('tells the owner whether the list is shared without the hash', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(withItems(hashToken('share-token')));
+
+        const result = await getWishlistById(3);
+
+        expect(result).toMatchObject({ id: 3, user_id: 2, shared: true });
+        expect(result).not.toHaveProperty('share_token_hash');
+    });
+});
+
+describe('addWishlistItem', () => {
+    it('adds the book or updates its note', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(wishlist());
+        prisma.book.findUnique.mockResolvedValue(book);
+
+        await addWishlistItem(3, 7, 'paperback');
+
+        expect(prisma.wishlistItem.upsert).toHaveBeenCalledWith({
+            where: { wishlist_id_book_id: { wishlist_id: 3, book_id: 7 } },
+            create: { wishlist_id: 3, book_id: 7, note: 'paperback' },
+            update: { note: 'paperback' },
+        });
+        expect(prisma.wishlist.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { updated_at: expect.any(Date) } });
+    });
+
+    it('answers 404 for an unknown book', async () => {
+        prisma.wishlist.findUnique.mockResolvedValue(wishlist());
+        prisma.book.findUnique.mockResolvedValue(null);
+
+        await expect(addWishlistItem(3, 7)).rejects.toMatchObject({ status: 404, message: 'Book not found' });
+        expect(prisma.wishlistItem.upsert).not.toHaveBeenCalled();
+    });
+});
+
+describe('removeWishlistItem', () => {
+    it('answers 404 for a book that is not on the wishlist', async () => {
+        prisma.wishlistItem.findUnique.mockResolvedValue(null);
+
+        await expect(removeWishlistItem(3, 7)).rejects.toMatchObject({ status: 404 });
+        expect(prisma.wishlistItem.delete).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,115 @@
+import { Prisma } from "@prisma/client";
+
+import prisma from "../utils/prisma";
+import { HttpError } from "../utils/errors";
+import { hashToken, randomToken } from "../utils/jwt";
+import { ListQuery, findManyArgs, toPage } from "../utils/list";
+
+export type WishlistInput = { name?: string };
+
+const shareUrl = process.env.WISHLIST_SHARE_URL;
+
+const items = {
+    WishlistItem: {
+        include: { book: { include: { author: true } } },
+        orderBy: { added_at: 'desc' },
+    },
+} as const;
+
+// Only the hash of the share token is stored, owners see whether the list is shared
+const withoutToken = <T extends { share_token_hash: string | null }>(wishlist: T) => {
+    const { share_token_hash, ...rest } = wishlist;
+    return { ...rest, shared: !!share_token_hash };
+}
+
+const findWishlist = async (tx: Prisma.TransactionClient, id: number) => {
+    const wishlist = await tx.wishlist.findUnique({ where: { id } });
+    if (!wishlist) {
+        throw new HttpError(404, 'Wishlist not found');
+    }
+    return wishlist;
+}
+
+export const getWishlist = async (list: ListQuery, userId?: number) => {
+    const where = userId ? { user_id: userId } : undefined;
+    const [total, wishlists] = await prisma.$transaction([
+        prisma.wishlist.count({ where }),
+        prisma.wishlist.findMany({ ...findManyArgs(list), where }),
+    ]);
+    return toPage(list, wishlists.map((wishlist) => 'share_token_hash' in wishlist ? withoutToken(wishlist) : wishlist), total);
+}
+
+export const getWishlistById = async (id: number) => {
+    const wishlist = await prisma.wishlist.findUnique({ where: { id }, include: items });
+    return wishlist && withoutToken(wishlist);
+}
+
+/**
+ * A shared wishlist as anyone with the link sees it, without the owner and the token.
+ */
+export const getSharedWishlist = async (token: string) => {
+    const wishlist = await prisma.wishlist.findUnique({ where: { share_token_hash: hashToken(token) }, include: items });
+    if (!wishlist) {
+        return null;
+    }
+    const { user_id, share_token_hash, ...shared } = wishlist;
+    return shared;
+}
+
+export const createWishlist = async (userId: number, data: WishlistInput) => {
+    return withoutToken(await prisma.wishlist.create({ data: { user_id: userId, name: data.name || 'Wishlist' } }));
+}
+
+export const updateWishlist = async (id: number, data: WishlistInput) => {
+    await findWishlist(prisma, id);
+    return withoutToken(await prisma.wishlist.update({ where: { id }, data: { name: data.name } }));
+}
+
+export const deleteWishlist = async (id: number) => {
+    await findWishlist(prisma, id);
+    return withoutToken(await prisma.wishlist.delete({ where: { id } }));
+}
+
+/**
+ * Saves a book to the wishlist. Adding a book that is already there only updates its note.
+ */
+export const addWishlistItem = async (id: number, bookId: number, note?: string | null) => {
+    await findWishlist(prisma, id);
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } });
+    if (!book) {
+        throw new HttpError(404, 'Book not found');
+    }
+    const item = await prisma.wishlistItem.upsert({
+        where: { wishlist_id_book_id: { wishlist_id: id, book_id: bookId } },
+        create: { wishlist_id: id, book_id: bookId, note },
+        update: { note },
+    });
+    await prisma.wishlist.update({ where: { id }, data: { updated_at: new Date() } });
+    return item;
+}
+
+export const removeWishlistItem = async (id: number, bookId: number) => {
+    const item = await prisma.wishlistItem.findUnique({ where: { wishlist_id_book_id: { wishlist_id: id, book_id: bookId } } });
+    if (!item) {
+        throw new HttpError(404, 'Book is not on the wishlist');
+    }
+    await prisma.wishlistItem.delete({ where: { id: item.id } });
+    await prisma.wishlist.update({ where: { id }, data: { updated_at: new Date() } });
+    return item;
+}
+
+/**
+ * Makes the wishlist readable through a public link, returned only this once. Sharing again
+ * replaces the link, so the old one stops working.
+ */
+export const shareWishlist = async (id: number) => {
+    await findWishlist(prisma, id);
+    const token = randomToken();
+    const wishlist = await prisma.wishlist.update({ where: { id }, data: { share_token_hash: hashToken(token) } });
+    return { ...withoutToken(wishlist), share_token: token, share_url: shareUrl ? `${shareUrl}${token}` : token };
+}
+
+export const unshareWishlist = async (id: number) => {
+    await findWishlist(prisma, id);
+    return withoutToken(await prisma.wishlist.update({ where: { id }, data: { share_token_hash: null } }));
+}
@@ -5,10 +5,17 @@ import swaggerUi from 'swagger-ui-express';
 import swaggerDocs from './swaggerOptions';
 
 import apiRoutes from "./routes/api.routes";
+import { failInterruptedImports } from "./controller/catalogImport.controller";
+import { expireReservations } from "./controller/order.controller";
+import { checkLowStock } from "./controller/stockAlert.controller";
+import { sendBackInStockNotifications } from "./controller/stockSubscription.controller";
+import { every } from "./utils/jobs";
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Webhook signatures are checked over the body exactly as the provider sent it
+app.use('/api/payment/webhook', express.raw({ type: '*/*' }));
 app.use(express.json());
 app.use(cors());
 
@@ -20,3 +27,9 @@ app.use('/api', apiRoutes)
 app.listen(port, () => {
   console.log(`Server is running on port ${port}`);
 });
+
+failInterruptedImports().catch((error) => console.error('Could not fail interrupted catalog imports:', error.message));
+
+every('expire-reservations', Number(process.env.STOCK_RESERVATION_SWEEP_SECONDS) || 60, expireReservations);
+every('low-stock', Number(process.env.LOW_STOCK_CHECK_SECONDS) || 60, checkLowStock);
+every('back-in-stock', Number(process.env.BACK_IN_STOCK_CHECK_SECONDS) || 60, sendBackInStockNotifications);
@@ -0,0 +1,146 @@
+import { CrmCard, Order, UserType } from '@prisma/client';
+import { Request, Response } from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import prisma from '../utils/__mocks__/prisma';
+import { orderOwner, param, requireAdminFor, requireOwner, requireRole, resolveAccess } from './access.middleware';
+
+vi.mock('../utils/prisma');
+
+const userType = (id: number, flags: Partial<UserType>): UserType => ({
+    id,
+    title: `Type ${id}`,
+    is_admin: false,
+    is_menejer: false,
+    is_user: false,
+    ...flags,
+});
+
+const card = (id: number, type: UserType): CrmCard & { user_type: UserType } => ({
+    id,
+    user_name: null,
+    user_surname: null,
+    user_patronymic: null,
+    title_card: null,
+    active: true,
+    card_photo: null,
+    user_id: 2,
+    user_type_id: type.id,
+    birthday: null,
+    user_type: type,
+});
+
+const order = (userId: number): Order => ({
+    id: 5,
+    subtotal_amount: 0,
+    discount_amount: 0,
+    total_amount: 0,
+    refunded_amount: 0,
+    order_status_id: 1,
+    order_date: new Date(),
+    user_id: userId,
+});
+
+const user: Express.Access = { user_id: 2, is_admin: false, is_menejer: false, is_user: true };
+const manager: Express.Access = { user_id: 8, is_admin: false, is_menejer: true, is_user: false };
+
+// Fields are assigned rather than passed to `mock`, which would turn nested objects like `body` into mocks too
+const request = (fields: Partial<Request>) => Object.assign(mock<Request>(), fields);
+
+const response = () => {
+    const res = mock<Response>();
+    res.status.mockReturnValue(res);
+    return res;
+};
+
+describe('resolveAccess', () => {
+    it('merges the flags of every CRM card of the caller', async () => {
+        prisma.crmCard.findMany.mockResolvedValue([card(1, userType(1, { is_user: true })), card(2, userType(2, { is_menejer: true }))]);
+        const req = request({ user: { id: 2 } });
+        const next = vi.fn();
+
+        await resolveAccess(req, response(), next);
+
+        expect(req.access).toEqual({ user_id: 2, is_admin: false, is_menejer: true, is_user: true });
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('answers 401 without a user in the token', async () => {
+        const res = response();
+        const next = vi.fn();
+
+        await resolveAccess(request({ user: {} }), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+    });
+});
+
+describe('requireRole', () => {
+    it('lets any of the roles through', () => {
+        const next = vi.fn();
+        requireRole('is_admin', 'is_menejer')(request({ access: manager }), response(), next);
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('answers 403 to everybody else', () => {
+        const res = response();
+        const next = vi.fn();
+        requireRole('is_admin')(request({ access: manager }), res, next);
+
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(next).not.toHaveBeenCalled();
+    });
+});
+
+describe('requireOwner', () => {
+    const ownOrder = requireOwner(orderOwner(param('id')));
+
+    it('lets the owner of the order through', async () => {
+        prisma.order.findUnique.mockResolvedValue(order(2));
+        const next = vi.fn();
+
+        await ownOrder(request({ access: user, params: { id: '5' } }), response(), next);
+
+        expect(prisma.order.findUnique).toHaveBeenCalledWith({ where: { id: 5 }, select: { user_id: true } });
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('answers 403 for the order of another user and 404 for an unknown one', async () => {
+        const res = response();
+        const next = vi.fn();
+
+        prisma.order.findUnique.mockResolvedValue(order(3));
+        await ownOrder(request({ access: user, params: { id: '5' } }), res, next);
+        expect(res.status).toHaveBeenLastCalledWith(403);
+
+        prisma.order.findUnique.mockResolvedValue(null);
+        await ownOrder(request({ access: user, params: { id: '5' } }), res, next);
+        expect(res.status).toHaveBeenLastCalledWith(404);
+
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('lets staff through without a lookup', async () => {
+        const next = vi.fn();
+
+        await ownOrder(request({ access: manager, params: { id: '5' } }), response(), next);
+
+        expect(next).toHaveBeenCalled();
+        expect(prisma.order.findUnique).not.toHaveBeenCalled();
+    });
+});
+
+describe('requireAdminFor', () => {
+    it('keeps non-admins from setting the fields', () => {
+        const res = response();
+        const next = vi.fn();
+
+        requireAdminFor('user_type_id')(request({ access: manager, body: { user_type_id: 1 } }), res, next);
+        expect(res.status).toHaveBeenCalledWith(403);
+
+        requireAdminFor('user_type_id')(request({ access: manager, body: { name: 'Card' } }), res, next);
+        expect(next).toHaveBeenCalledTimes(1);
+    });
+});
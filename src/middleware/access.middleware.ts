@@ -0,0 +1,184 @@
+/// <reference path="../types.d.ts" />
+
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { JwtPayload } from "jsonwebtoken";
+
+import prisma from "../utils/prisma";
+import { authenticateToken } from "./jwt.middleware";
+
+type Role = 'is_admin' | 'is_menejer' | 'is_user';
+
+/**
+ * Returns the id of the user owning the resource addressed by the request,
+ * `null` when the resource does not exist and `undefined` when the request
+ * does not address a resource (the validators report that case).
+ */
+export type OwnerResolver = (req: Request) => Promise<number | null | undefined>;
+
+export const isStaff = (access?: Express.Access): boolean => {
+  return !!access && (access.is_admin || access.is_menejer);
+};
+
+/**
+ * User id the list endpoints must be narrowed to: staff see every record,
+ * everybody else only their own.
+ */
+export const ownerScope = (req: Request): number | undefined => {
+  return isStaff(req.access) ? undefined : req.access?.user_id;
+};
+
+/**
+ * Loads the caller's CRM cards and merges their user type flags into `req.access`.
+ * Must run after `authenticateToken`.
+ */
+export const resolveAccess = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = Number((req.user as JwtPayload | undefined)?.id);
+
+  if (!userId) {
+    res.status(401).json({ message: "Token required" });
+    return;
+  }
+
+  try {
+    const cards = await prisma.crmCard.findMany({ where: { user_id: userId }, include: { user_type: true } });
+
+    req.access = {
+      user_id: userId,
+      is_admin: cards.some((card) => card.user_type.is_admin),
+      is_menejer: cards.some((card) => card.user_type.is_menejer),
+      is_user: cards.some((card) => card.user_type.is_user),
+    };
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const requireRole = (...roles: Role[]): RequestHandler => (req, res, next) => {
+  if (!req.access || !roles.some((role) => req.access?.[role])) {
+    res.status(403).json({ message: "Access denied" });
+    return;
+  }
+  next();
+};
+
+/**
+ * Lets staff through and otherwise requires the caller to own the resource found by `resolve`.
+ */
+export const requireOwner = (resolve: OwnerResolver): RequestHandler => async (req, res, next) => {
+  if (isStaff(req.access)) {
+    return next();
+  }
+
+  try {
+    const ownerId = await resolve(req);
+
+    if (ownerId === null) {
+      res.status(404).json({ message: "Resource not found" });
+      return;
+    }
+    if (ownerId !== undefined && ownerId !== req.access?.user_id) {
+      res.status(403).json({ message: "Access denied" });
+      return;
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+/**
+ * Rejects requests from non-admins that try to set any of the given body fields.
+ */
+export const requireAdminFor = (...fields: string[]): RequestHandler => (req, res, next) => {
+  if (!req.access?.is_admin && fields.some((field) => req.body?.[field] !== undefined)) {
+    res.status(403).json({ message: `Only admin can change: ${fields.join(', ')}` });
+    return;
+  }
+  next();
+};
+
+export const param = (name: string) => (req: Request) => Number(req.params[name]);
+export const field = (name: string) => (req: Request) => Number(req.body?.[name]);
+
+const resolveBy = (id: (req: Request) => number, find: (id: number) => Promise<number | undefined>): OwnerResolver => {
+  return async (req) => {
+    const value = id(req);
+    if (!Number.isInteger(value)) {
+      return undefined;
+    }
+    const ownerId = await find(value);
+    return ownerId === undefined ? null : ownerId;
+  };
+};
+
+export const userOwner = (id: (req: Request) => number): OwnerResolver => {
+  return async (req) => {
+    const value = id(req);
+    return Number.isInteger(value) ? value : undefined;
+  };
+};
+
+export const crmCardOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const card = await prisma.crmCard.findUnique({ where: { id }, select: { user_id: true } });
+  return card?.user_id;
+});
+
+export const crmEmailOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const email = await prisma.crmEmail.findUnique({ where: { id }, select: { crm_card: { select: { user_id: true } } } });
+  return email?.crm_card.user_id;
+});
+
+export const crmPaymentCardOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const card = await prisma.crmPaymentCard.findUnique({ where: { id }, select: { crm_card: { select: { user_id: true } } } });
+  return card?.crm_card.user_id;
+});
+
+export const crmAddressOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const address = await prisma.crmAddress.findUnique({ where: { id }, select: { crm_card: { select: { user_id: true } } } });
+  return address?.crm_card.user_id;
+});
+
+export const orderOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const order = await prisma.order.findUnique({ where: { id }, select: { user_id: true } });
+  return order?.user_id;
+});
+
+export const orderItemOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const item = await prisma.orderItem.findUnique({ where: { id }, select: { order: { select: { user_id: true } } } });
+  return item?.order.user_id;
+});
+
+export const paymentOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const payment = await prisma.payment.findUnique({ where: { id }, select: { order: { select: { user_id: true } } } });
+  return payment?.order.user_id;
+});
+
+export const returnRequestOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const request = await prisma.returnRequest.findUnique({ where: { id }, select: { user_id: true } });
+  return request?.user_id;
+});
+
+export const reviewOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const review = await prisma.review.findUnique({ where: { id }, select: { user_id: true } });
+  return review?.user_id;
+});
+
+export const wishlistOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const wishlist = await prisma.wishlist.findUnique({ where: { id }, select: { user_id: true } });
+  return wishlist?.user_id;
+});
+
+export const stockSubscriptionOwner = (id: (req: Request) => number) => resolveBy(id, async (id) => {
+  const subscription = await prisma.stockSubscription.findUnique({ where: { id }, select: { user_id: true } });
+  return subscription?.user_id;
+});
+
+// Route policies, spread in front of the validators: `router.post('/', ...adminOnly, body(...), handler)`
+export const authenticated: RequestHandler[] = [authenticateToken, resolveAccess];
+export const adminOnly: RequestHandler[] = [...authenticated, requireRole('is_admin')];
+export const managerOrAdmin: RequestHandler[] = [...authenticated, requireRole('is_admin', 'is_menejer')];
+export const ownerOf = (...resolvers: OwnerResolver[]): RequestHandler[] => [
+  ...authenticated,
+  ...resolvers.map((resolve) => requireOwner(resolve)),
+];
@@ -0,0 +1,44 @@
+import { ValidationChain, body, validationResult } from "express-validator";
+
+import { contributorRoles } from "../controller/book.controller";
+import { isValidIsbn } from "../utils/isbn";
+
+/**
+ * Validation rules of a book body, shared by the book routes and the catalog import. The stock is
+ * only set on creation, see `stockRule`.
+ */
+export const bookRules = () => [
+  body('title').notEmpty().isString(),
+  body('description').notEmpty().isString(),
+  body('isbn').optional({ values: 'null' }).isString().custom(isValidIsbn).withMessage('Invalid ISBN'),
+  body('price').notEmpty().isFloat(),
+  body('published_at').notEmpty().isISO8601().toDate(),
+  body('reorder_threshold').optional({ values: 'null' }).isInt({ min: 0 }),
+  body('author_id').if(body('author_id').notEmpty()).isInt(),
+  body('contributors').optional().isArray(),
+  body('contributors.*.author_id').notEmpty().isInt().toInt(),
+  body('contributors.*.role').optional().isIn(contributorRoles),
+  body('category_id').if(body('category_id').notEmpty()).isInt(),
+  body('publisher_id').if(body('publisher_id').notEmpty()).isInt(),
+];
+
+/**
+ * The initial stock of a new book. Later changes go through stock movements only.
+ */
+export const stockRule = () => body('stock').notEmpty().isInt({ min: 0 });
+
+/**
+ * Runs validation rules over book data that does not come in as a request body, e.g. an imported row.
+ * Returns the sanitized data and the first error of each field.
+ */
+export const validateBookData = async (data: Record<string, unknown>, rules: ValidationChain[]) => {
+    const context = { body: { ...data } };
+    for (const rule of rules) {
+        await rule.run(context);
+    }
+    const errors = validationResult(context).array({ onlyFirstError: true }).map((error) => ({
+        field: error.type === 'field' ? error.path : error.type,
+        message: String(error.msg),
+    }));
+    return { body: context.body as Record<string, unknown>, errors };
+}
@@ -1,7 +1,9 @@
 /// <reference path="../types.d.ts" />
 
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
+import jwt, { JwtPayload } from "jsonwebtoken";
+
+import { SecretKey, isTokenRevoked } from "../utils/jwt";
 
 export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
   const authHeader = req.headers["authorization"];
@@ -12,14 +14,24 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     return;
   }
 
-  jwt.verify(token, process.env.SECRET_KEY || 'test', (err, user) => {
+  jwt.verify(token, SecretKey, async (err, user) => {
     if (err) {
       console.log("Invalid token:", err.message);
       res.status(403).json({ message: "Invalid or expired token" });
       return;
     }
 
+    try {
+      if (await isTokenRevoked(user as JwtPayload)) {
+        res.status(401).json({ message: "Token revoked" });
+        return;
+      }
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+      return;
+    }
+
     req.user = user;
     next();
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,18 @@
+/// <reference path="../types.d.ts" />
+
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+import { ListConfig, parseListQuery } from "../utils/list";
+import { errorBody, errorStatus } from "../utils/errors";
+
+/**
+ * Parses the pagination, sorting and field selection parameters into `req.list`.
+ */
+export const listQuery = (config: ListConfig): RequestHandler => (req: Request, res: Response, next: NextFunction) => {
+  try {
+    req.list = parseListQuery(req.query, config, req.baseUrl + (req.path === '/' ? '' : req.path));
+    next();
+  } catch (error: any) {
+    res.status(errorStatus(error)).json(errorBody(error));
+  }
+};
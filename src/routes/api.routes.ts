@@ -8,11 +8,20 @@ import { crmAddressRouter } from "./crmAddress.routes";
 import { authorRouter } from "./author.routes";
 import { categoriesRouter } from "./categories.routes";
 import { publishersRouter } from "./publishers.routes";
-import { authenticateToken } from "../middleware/jwt.middleware";
 import { bookRouter } from "./book.routes";
 import { orderStatusRouter } from "./orderStatus.routes";
 import { orderRouter } from "./order.routers";
 import { orderItemRouter } from "./orderItem.routes";
+import { cartRouter } from "./cart.routes";
+import { paymentRouter } from "./payment.routes";
+import { returnRequestRouter } from "./returnRequest.routes";
+import { stockAlertRouter } from "./stockAlert.routes";
+import { purchaseOrderRouter } from "./purchaseOrder.routes";
+import { catalogImportRouter } from "./catalogImport.routes";
+import { reviewRouter } from "./review.routes";
+import { wishlistRouter } from "./wishlist.routes";
+import { stockSubscriptionRouter } from "./stockSubscription.routes";
+import { promotionRouter } from "./promotion.routes";
 
 const apiRoutes = Router();
 
@@ -45,6 +54,96 @@ const apiRoutes = Router();
  *     description: API for managing Order
  *   - name: OrderItem
  *     description: API for managing Order item
+ *   - name: Cart
+ *     description: API for managing the current user's cart
+ *   - name: Payment
+ *     description: API for paying orders through the payment provider
+ *   - name: Return
+ *     description: API for returns of order items and their refunds
+ *   - name: Stock Alert
+ *     description: API for low-stock alerts of books
+ *   - name: Purchase Order
+ *     description: API for ordering books from publishers
+ *   - name: Catalog Import
+ *     description: API for bulk imports of the book catalog
+ *   - name: Review
+ *     description: API for book reviews and ratings and their moderation
+ *   - name: Wishlist
+ *     description: API for named wishlists of books and sharing them
+ *   - name: Stock Subscription
+ *     description: API for back-in-stock notifications
+ *   - name: Promotion
+ *     description: API for promotions and coupon codes and pricing with them
+ */
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     limit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         default: 20
+ *         minimum: 1
+ *         maximum: 100
+ *       description: Number of records per page
+ *     offset:
+ *       in: query
+ *       name: offset
+ *       schema:
+ *         type: integer
+ *         default: 0
+ *       description: Number of records to skip, ignored when cursor is set
+ *     cursor:
+ *       in: query
+ *       name: cursor
+ *       schema:
+ *         type: integer
+ *       description: ID of the last record of the previous page (meta.next_cursor)
+ *     sort:
+ *       in: query
+ *       name: sort
+ *       schema:
+ *         type: string
+ *       description: Comma separated fields to sort by, a leading "-" sorts descending
+ *       example: "-price,title"
+ *     fields:
+ *       in: query
+ *       name: fields
+ *       schema:
+ *         type: string
+ *       description: Comma separated fields and relations to return, the id is always returned
+ *       example: "id,title,price"
+ *   schemas:
+ *     PageMeta:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           description: Number of records matching the request
+ *         limit:
+ *           type: integer
+ *         offset:
+ *           type: integer
+ *           nullable: true
+ *         cursor:
+ *           type: integer
+ *           nullable: true
+ *         next_cursor:
+ *           type: integer
+ *           nullable: true
+ *           description: Cursor of the next page, null on the last page
+ *     PageLinks:
+ *       type: object
+ *       properties:
+ *         self:
+ *           type: string
+ *           example: "/api/book?offset=20&limit=20"
+ *         next:
+ *           type: string
+ *           nullable: true
+ *           example: "/api/book?offset=40&limit=20"
  */
 apiRoutes.use('/auth', authRouter );
 apiRoutes.use('/user_type', userTypeRouter );
@@ -59,5 +158,15 @@ apiRoutes.use('/book', bookRouter);
 apiRoutes.use('/order_status', orderStatusRouter);
 apiRoutes.use('/order', orderRouter);
 apiRoutes.use('/order_item', orderItemRouter);
+apiRoutes.use('/cart', cartRouter);
+apiRoutes.use('/payment', paymentRouter);
+apiRoutes.use('/return_request', returnRequestRouter);
+apiRoutes.use('/stock_alert', stockAlertRouter);
+apiRoutes.use('/purchase_order', purchaseOrderRouter);
+apiRoutes.use('/catalog_import', catalogImportRouter);
+apiRoutes.use('/review', reviewRouter);
+apiRoutes.use('/wishlist', wishlistRouter);
+apiRoutes.use('/stock_subscription', stockSubscriptionRouter);
+apiRoutes.use('/promotion', promotionRouter);
 
 export default apiRoutes;
\ No newline at end of file
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
+import { JwtPayload } from 'jsonwebtoken';
 import * as AuthController from "../controller/auth.controller";
+import { authenticateToken } from '../middleware/jwt.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
 
 export const authRouter = express.Router();
 
@@ -27,6 +30,10 @@ export const authRouter = express.Router();
  *                 type: string
  *                 description: The user's password
  *                 example: "P@ssw0rd"
+ *               email:
+ *                 type: string
+ *                 description: Main email of the user, a verification token is sent to it
+ *                 example: "user@example.com"
  *             required:
  *               - login
  *               - password
@@ -49,6 +56,7 @@ export const authRouter = express.Router();
 authRouter.post('/signup',
   body('login').notEmpty().isString(),
   body('password').notEmpty().isString(),
+  body('email').optional().isEmail(),
   async (request: Request, response: Response): Promise<any> => {
     console.log('SIGNUP', request.body);
     const errors = validationResult(request);
@@ -102,6 +110,9 @@ authRouter.post('/signup',
  *                 token:
  *                   type: string
  *                   description: JWT token
+ *                 refresh_token:
+ *                   type: string
+ *                   description: Single-use token to get a new JWT token from /auth/refresh
  *       400:
  *         description: Validation errors
  *       401:
@@ -128,3 +139,237 @@ authRouter.post('/signin',
     }
   }
 );
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     tags:
+ *      - User
+ *     summary: Refresh the access token
+ *     description: Exchanges a refresh token for a new JWT token and a new refresh token. Each refresh token can be used once, reusing one revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *                 description: Refresh token from /auth/signin or the previous refresh
+ *             required:
+ *               - refresh_token
+ *     responses:
+ *       200:
+ *         description: New tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                   description: JWT token
+ *                 refresh_token:
+ *                   type: string
+ *                   description: Refresh token to use next time
+ *       400:
+ *         description: Validation errors
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ *       500:
+ *         description: Internal server error
+ */
+authRouter.post('/refresh',
+  body('refresh_token').notEmpty().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await AuthController.refresh(request.body.refresh_token);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     tags:
+ *      - User
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Log out
+ *     description: Revokes the current session with all its refresh tokens and the JWT token used for this request.
+ *     responses:
+ *       200:
+ *         description: Successfully logged out
+ *       401:
+ *         description: Token required
+ *       500:
+ *         description: Internal server error
+ */
+authRouter.post('/logout', authenticateToken, async (request: Request, response: Response): Promise<any> => {
+  try {
+    await AuthController.logout(request.user as JwtPayload);
+    return response.status(200).json({ message: 'Logged out successfully' });
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /auth/password/forgot:
+ *   post:
+ *     tags:
+ *      - User
+ *     summary: Request a password reset
+ *     description: Sends a single-use, time-limited reset token to the verified email of the user. The response is the same whether the login exists or not, and whether the user has a verified email.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               login:
+ *                 type: string
+ *                 description: The user's login
+ *                 example: "user123"
+ *             required:
+ *               - login
+ *     responses:
+ *       200:
+ *         description: The request was accepted
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+authRouter.post('/password/forgot',
+  body('login').notEmpty().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      await AuthController.forgotPassword(request.body.login);
+      return response.status(200).json({ message: 'If the account exists, a reset token has been sent' });
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/password/reset:
+ *   post:
+ *     tags:
+ *      - User
+ *     summary: Reset the password with a reset token
+ *     description: Sets a new password. The token can be used once and all sessions of the user are revoked.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from /auth/password/forgot
+ *               password:
+ *                 type: string
+ *                 description: The new password
+ *                 example: "N3wP@ssw0rd"
+ *             required:
+ *               - token
+ *               - password
+ *     responses:
+ *       200:
+ *         description: The password was changed
+ *       400:
+ *         description: Validation errors or invalid, used or expired token
+ *       500:
+ *         description: Internal server error
+ */
+authRouter.post('/password/reset',
+  body('token').notEmpty().isString(),
+  body('password').notEmpty().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      await AuthController.resetPassword(request.body.token, request.body.password);
+      return response.status(200).json({ message: 'Password changed successfully' });
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/password/change:
+ *   post:
+ *     tags:
+ *      - User
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Change the password
+ *     description: Changes the password of the logged in user. Every other session of the user is revoked.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               old_password:
+ *                 type: string
+ *                 example: "P@ssw0rd"
+ *               new_password:
+ *                 type: string
+ *                 example: "N3wP@ssw0rd"
+ *             required:
+ *               - old_password
+ *               - new_password
+ *     responses:
+ *       200:
+ *         description: The password was changed
+ *       400:
+ *         description: Validation errors or wrong old password
+ *       401:
+ *         description: Token required
+ *       500:
+ *         description: Internal server error
+ */
+authRouter.post('/password/change',
+  authenticateToken,
+  body('old_password').notEmpty().isString(),
+  body('new_password').notEmpty().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { old_password, new_password } = request.body;
+      await AuthController.changePassword(request.user as JwtPayload, old_password, new_password);
+      return response.status(200).json({ message: 'Password changed successfully' });
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as AuthorController from '../controller/author.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const authorRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const authorRouter = express.Router();
  *   post:
  *     tags:
  *       - Author
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new author
  *     description: Endpoint to create a new author record in the system.
  *     requestBody:
@@ -87,6 +92,7 @@ export const authorRouter = express.Router();
  *                   example: "Internal server error"
  */
 authorRouter.post('/',
+  ...managerOrAdmin,
   body('firstName').notEmpty().isString(),
   body('lastName').notEmpty().isString(),
   body('biography').if(body('biography').notEmpty()).isString(),
@@ -112,6 +118,8 @@ authorRouter.post('/',
  *   put:
  *     tags:
  *       - Author
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing author
  *     description: Endpoint to update the details of an existing author by ID.
  *     parameters:
@@ -207,6 +215,7 @@ authorRouter.post('/',
  *                   example: "Internal server error"
  */
 authorRouter.put('/:id',
+    ...managerOrAdmin,
     body('firstName').notEmpty().isString(),
     body('lastName').notEmpty().isString(),
     body('biography').if(body('biography').notEmpty()).isString(),
@@ -239,32 +248,45 @@ authorRouter.put('/:id',
  *       - Author
  *     summary: Retrieve a list of authors
  *     description: Endpoint to fetch a list of all authors in the system.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of authors
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the author
- *                     example: 1
- *                   firstName:
- *                     type: string
- *                     description: First name of the author
- *                     example: "John"
- *                   lastName:
- *                     type: string
- *                     description: Last name of the author
- *                     example: "Doe"
- *                   biography:
- *                     type: string
- *                     description: A brief biography of the author
- *                     example: "John Doe is a prolific writer of science fiction."
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the author
+ *                         example: 1
+ *                       firstName:
+ *                         type: string
+ *                         description: First name of the author
+ *                         example: "John"
+ *                       lastName:
+ *                         type: string
+ *                         description: Last name of the author
+ *                         example: "Doe"
+ *                       biography:
+ *                         type: string
+ *                         description: A brief biography of the author
+ *                         example: "John Doe is a prolific writer of science fiction."
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -276,9 +298,9 @@ authorRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-authorRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+authorRouter.get('/', listQuery({ fields: Object.values(Prisma.AuthorScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await AuthorController.getAuthor();
+    const records = await AuthorController.getAuthor(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -325,6 +347,13 @@ authorRouter.get('/', async (request: Request, response: Response): Promise<any>
  *                   type: string
  *                   description: A brief biography of the author
  *                   example: "John Doe is a prolific writer of science fiction."
+ *                 books:
+ *                   type: object
+ *                   description: Books the author contributed to, grouped by role (author, translator, illustrator, editor), newest first
+ *                   additionalProperties:
+ *                     type: array
+ *                     items:
+ *                       type: object
  *       404:
  *         description: Author not found
  *         content:
@@ -365,6 +394,8 @@ authorRouter.get('/:id', async (request: Request, response: Response): Promise<a
  *   delete:
  *     tags:
  *       - Author
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete an author by ID
  *     description: Endpoint to delete an author by their unique ID.
  *     parameters:
@@ -407,7 +438,7 @@ authorRouter.get('/:id', async (request: Request, response: Response): Promise<a
  *                   type: string
  *                   example: "Internal server error"
  */
-authorRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+authorRouter.delete('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await AuthorController.deleteAuthor(Number(id));
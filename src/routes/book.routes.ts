@@ -1,15 +1,134 @@
 import express, { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { body, matchedData, query, validationResult } from 'express-validator';
 import * as BookController from '../controller/book.controller';
+import * as CatalogExportController from '../controller/catalogExport.controller';
+import * as FacetController from '../controller/facet.controller';
+import * as InventoryController from '../controller/inventory.controller';
+import * as ReviewController from '../controller/review.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { bookRules, stockRule } from '../middleware/book.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
 
 export const bookRouter = express.Router();
 
+const bookRelations = ['author', 'category', 'publisher'];
+
+// `author_id=1,2` and `author_id=1&author_id=2` both select several values
+const listOf = (value: unknown) => {
+  const values = ([] as unknown[]).concat(value ?? []).flatMap((item) => String(item).split(',')).filter(Boolean);
+  return values.length ? values : undefined;
+};
+
+const idsOf = (value: unknown) => listOf(value)?.map(Number);
+
+const filtersOf = (request: Request): BookController.BookFilters => ({
+  author_id: idsOf(request.query.author_id),
+  role: request.query.role ? request.query.role as BookController.ContributorRole : undefined,
+  category_id: idsOf(request.query.category_id),
+  publisher_id: idsOf(request.query.publisher_id),
+  min_price: request.query.min_price ? Number(request.query.min_price) : undefined,
+  max_price: request.query.max_price ? Number(request.query.max_price) : undefined,
+  price_range: listOf(request.query.price_range)?.map(FacetController.parsePriceRange),
+  year: idsOf(request.query.year),
+  in_stock: request.query.in_stock !== undefined ? request.query.in_stock === 'true' : undefined,
+  min_rating: request.query.min_rating ? Number(request.query.min_rating) : undefined,
+});
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     bookAuthorId:
+ *       in: query
+ *       name: author_id
+ *       schema:
+ *         type: string
+ *       description: Comma separated ids of contributors, books with any of them match
+ *       example: "1,4"
+ *     bookRole:
+ *       in: query
+ *       name: role
+ *       schema:
+ *         type: string
+ *         enum: [author, translator, illustrator, editor]
+ *       description: Only count contributors with this role
+ *     bookCategoryId:
+ *       in: query
+ *       name: category_id
+ *       schema:
+ *         type: string
+ *       description: Comma separated category ids, each including all its subcategories
+ *       example: "2"
+ *     bookPublisherId:
+ *       in: query
+ *       name: publisher_id
+ *       schema:
+ *         type: string
+ *       description: Comma separated publisher ids
+ *       example: "3,5"
+ *     bookMinPrice:
+ *       in: query
+ *       name: min_price
+ *       schema:
+ *         type: number
+ *         format: float
+ *       description: Minimum price of the book
+ *     bookMaxPrice:
+ *       in: query
+ *       name: max_price
+ *       schema:
+ *         type: number
+ *         format: float
+ *       description: Maximum price of the book
+ *     bookPriceRange:
+ *       in: query
+ *       name: price_range
+ *       schema:
+ *         type: string
+ *       description: Comma separated price ranges as the price facet keys them, lower bound inclusive and upper bound exclusive
+ *       example: "10-20,100-"
+ *     bookYear:
+ *       in: query
+ *       name: year
+ *       schema:
+ *         type: string
+ *       description: Comma separated publication years
+ *       example: "2023,2024"
+ *     bookInStock:
+ *       in: query
+ *       name: in_stock
+ *       schema:
+ *         type: boolean
+ *       description: Only books in stock, or with false only books out of stock
+ *     bookMinRating:
+ *       in: query
+ *       name: min_rating
+ *       schema:
+ *         type: number
+ *         minimum: 0
+ *         maximum: 5
+ *       description: Minimum average rating of the approved reviews
+ */
+// Validators for the query parameters `filtersOf` reads
+const filterRules = () => [
+  query(['author_id', 'category_id', 'publisher_id', 'year']).optional().matches(/^\d+(,\d+)*$/).withMessage('Expected comma-separated ids'),
+  query('role').optional().isIn(BookController.contributorRoles),
+  query(['min_price', 'max_price']).optional().isFloat(),
+  query('price_range').optional().matches(/^\d+(\.\d+)?-(\d+(\.\d+)?)?(,\d+(\.\d+)?-(\d+(\.\d+)?)?)*$/).withMessage('Expected ranges like 10-20 or 100-'),
+  query('in_stock').optional().isBoolean(),
+  query('min_rating').optional().isFloat({ min: 0, max: 5 }),
+];
+
 /**
  * @swagger
  * /book:
  *   post:
  *     tags:
  *       - Book
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new book
  *     description: Endpoint to create a new book record in the system.
  *     requestBody:
@@ -27,6 +146,11 @@ export const bookRouter = express.Router();
  *                 type: string
  *                 description: Description or summary of the book
  *                 example: "A novel about the American dream."
+ *               isbn:
+ *                 type: string
+ *                 nullable: true
+ *                 description: ISBN-10 or ISBN-13, hyphens allowed. Stored as isbn_13 and isbn_10, null removes it
+ *                 example: "978-0-7432-7356-5"
  *               price:
  *                 type: number
  *                 format: float
@@ -39,12 +163,32 @@ export const bookRouter = express.Router();
  *                 example: "2024-11-18T00:00:00Z"
  *               stock:
  *                 type: integer
- *                 description: Number of copies available
+ *                 description: Number of copies available, booked as a receipt in the stock ledger
  *                 example: 100
+ *               reorder_threshold:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: A low-stock alert is raised when the stock drops below it, null disables alerts
+ *                 example: 5
  *               author_id:
  *                 type: integer
- *                 description: ID of the author of the book
+ *                 description: ID of the primary author, used when contributors are not sent
  *                 example: 1
+ *               contributors:
+ *                 type: array
+ *                 description: Authors, translators, illustrators and editors in display order. The first author becomes author_id
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     author_id:
+ *                       type: integer
+ *                       example: 1
+ *                     role:
+ *                       type: string
+ *                       enum: [author, translator, illustrator, editor]
+ *                       default: author
+ *                   required:
+ *                     - author_id
  *               category_id:
  *                 type: integer
  *                 description: ID of the category the book belongs to
@@ -76,6 +220,12 @@ export const bookRouter = express.Router();
  *                 description:
  *                   type: string
  *                   description: Description of the book
+ *                 isbn_13:
+ *                   type: string
+ *                   nullable: true
+ *                 isbn_10:
+ *                   type: string
+ *                   nullable: true
  *                 price:
  *                   type: number
  *                   format: float
@@ -87,9 +237,30 @@ export const bookRouter = express.Router();
  *                 stock:
  *                   type: integer
  *                   description: Number of copies available
+ *                 rating_average:
+ *                   type: number
+ *                   format: float
+ *                   description: Average rating of the approved reviews, 0 without any
+ *                 rating_count:
+ *                   type: integer
+ *                   description: Number of approved reviews
  *                 author_id:
  *                   type: integer
- *                   description: ID of the author of the book
+ *                   description: ID of the primary author of the book
+ *                 BookContributor:
+ *                   type: array
+ *                   description: Contributors in display order, with their author
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       author_id:
+ *                         type: integer
+ *                       role:
+ *                         type: string
+ *                       position:
+ *                         type: integer
+ *                       author:
+ *                         type: object
  *                 category_id:
  *                   type: integer
  *                   description: ID of the category the book belongs to
@@ -117,6 +288,8 @@ export const bookRouter = express.Router();
  *                       location:
  *                         type: string
  *                         description: Location of the error
+ *       409:
+ *         description: Another book has the ISBN
  *       500:
  *         description: Internal server error
  *         content:
@@ -129,26 +302,20 @@ export const bookRouter = express.Router();
  *                   example: "Internal server error"
  */
 bookRouter.post('/',
-  body('title').notEmpty().isString(),
-  body('description').notEmpty().isString(),
-  body('price').notEmpty().isFloat(),
-  body('published_at').notEmpty().isISO8601().toDate(),
-  body('stock').notEmpty().isInt(),
-  body('author_id').if(body('author_id').notEmpty()).isInt(),
-  body('category_id').if(body('category_id').notEmpty()).isInt(),
-  body('publisher_id').if(body('publisher_id').notEmpty()).isInt(),
+  ...managerOrAdmin,
+  ...bookRules(),
+  stockRule(),
   async (request: Request, response: Response): Promise<any> => {
-    console.log('SIGNUP', request.body);
     const errors = validationResult(request);
     if (!errors.isEmpty()) {
       return response.status(400).json({ errors: errors.array() });
     }
     try {
-      const data = request.body;
-      const record = await BookController.createBook(data);
+      const data = matchedData<BookController.BookInput>(request, { locations: ['body'] });
+      const record = await BookController.createBook(data, request.access!.user_id);
       return response.status(201).json(record);
     } catch (error: any) {
-      return response.status(500).json({ message: error.message });
+      return response.status(errorStatus(error)).json(errorBody(error));
     }
   }
 );
@@ -159,8 +326,10 @@ bookRouter.post('/',
  *   put:
  *     tags:
  *       - Book
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing book
- *     description: Endpoint to update an existing book record in the system.
+ *     description: Endpoint to update an existing book record in the system. The stock is not changed here, book a movement with /book/{id}/stock instead.
  *     parameters:
  *       - in: path
  *         name: id
@@ -183,6 +352,11 @@ bookRouter.post('/',
  *                 type: string
  *                 description: Description or summary of the book
  *                 example: "A revised edition of the classic novel."
+ *               isbn:
+ *                 type: string
+ *                 nullable: true
+ *                 description: ISBN-10 or ISBN-13, hyphens allowed. Stored as isbn_13 and isbn_10, null removes it
+ *                 example: "978-0-7432-7356-5"
  *               price:
  *                 type: number
  *                 format: float
@@ -193,14 +367,30 @@ bookRouter.post('/',
  *                 format: date-time
  *                 description: Publication date of the book
  *                 example: "2025-01-01T00:00:00Z"
- *               stock:
+ *               reorder_threshold:
  *                 type: integer
- *                 description: Number of copies available
- *                 example: 50
+ *                 nullable: true
+ *                 description: A low-stock alert is raised when the stock drops below it, null disables alerts
+ *                 example: 5
  *               author_id:
  *                 type: integer
- *                 description: ID of the author of the book
+ *                 description: ID of the primary author, used when contributors are not sent
  *                 example: 1
+ *               contributors:
+ *                 type: array
+ *                 description: Authors, translators, illustrators and editors in display order. The first author becomes author_id
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     author_id:
+ *                       type: integer
+ *                       example: 1
+ *                     role:
+ *                       type: string
+ *                       enum: [author, translator, illustrator, editor]
+ *                       default: author
+ *                   required:
+ *                     - author_id
  *               category_id:
  *                 type: integer
  *                 description: ID of the category the book belongs to
@@ -214,7 +404,6 @@ bookRouter.post('/',
  *               - description
  *               - price
  *               - published_at
- *               - stock
  *     responses:
  *       200:
  *         description: The book was successfully updated
@@ -232,6 +421,12 @@ bookRouter.post('/',
  *                 description:
  *                   type: string
  *                   description: Description of the book
+ *                 isbn_13:
+ *                   type: string
+ *                   nullable: true
+ *                 isbn_10:
+ *                   type: string
+ *                   nullable: true
  *                 price:
  *                   type: number
  *                   format: float
@@ -243,9 +438,30 @@ bookRouter.post('/',
  *                 stock:
  *                   type: integer
  *                   description: Number of copies available
+ *                 rating_average:
+ *                   type: number
+ *                   format: float
+ *                   description: Average rating of the approved reviews, 0 without any
+ *                 rating_count:
+ *                   type: integer
+ *                   description: Number of approved reviews
  *                 author_id:
  *                   type: integer
- *                   description: ID of the author of the book
+ *                   description: ID of the primary author of the book
+ *                 BookContributor:
+ *                   type: array
+ *                   description: Contributors in display order, with their author
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       author_id:
+ *                         type: integer
+ *                       role:
+ *                         type: string
+ *                       position:
+ *                         type: integer
+ *                       author:
+ *                         type: object
  *                 category_id:
  *                   type: integer
  *                   description: ID of the category the book belongs to
@@ -283,6 +499,8 @@ bookRouter.post('/',
  *                 message:
  *                   type: string
  *                   example: "CRM card not found"
+ *       409:
+ *         description: Another book has the ISBN
  *       500:
  *         description: Internal server error
  *         content:
@@ -295,14 +513,8 @@ bookRouter.post('/',
  *                   example: "Internal server error"
  */
 bookRouter.put('/:id',
-    body('title').notEmpty().isString(),
-    body('description').notEmpty().isString(),
-    body('price').notEmpty().isFloat(),
-    body('published_at').notEmpty().isISO8601().toDate(),
-    body('stock').notEmpty().isInt(),
-    body('author_id').if(body('author_id').notEmpty()).isInt(),
-    body('category_id').if(body('category_id').notEmpty()).isInt(),
-    body('publisher_id').if(body('publisher_id').notEmpty()).isInt(),
+    ...managerOrAdmin,
+    ...bookRules(),
     async (request: Request, response: Response): Promise<any> => {
       const errors = validationResult(request);
       if (!errors.isEmpty()) {
@@ -310,7 +522,7 @@ bookRouter.put('/:id',
       }
       try {
         const { id } = request.params;
-        const data = request.body;
+        const data = matchedData<Omit<BookController.BookInput, 'stock'>>(request, { locations: ['body'] });
         const updatedRecord = await BookController.updateBook(Number(id), data);
   
         if (!updatedRecord) {
@@ -319,7 +531,7 @@ bookRouter.put('/:id',
   
         return response.status(200).json(updatedRecord);
       } catch (error: any) {
-        return response.status(500).json({ message: error.message });
+        return response.status(errorStatus(error)).json(errorBody(error));
       }
     }
 );
@@ -331,55 +543,75 @@ bookRouter.put('/:id',
  *     tags:
  *       - Book
  *     summary: Retrieve all books
- *     description: Endpoint to fetch a list of all books in the system.
+ *     description: Endpoint to fetch a list of all books in the system. `sort=-rating_average,-rating_count` lists the best rated books first.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: Successfully retrieved the list of books
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the book
- *                     example: 1
- *                   title:
- *                     type: string
- *                     description: Title of the book
- *                     example: "The Great Gatsby"
- *                   description:
- *                     type: string
- *                     description: Description or summary of the book
- *                     example: "A novel about the American dream."
- *                   price:
- *                     type: number
- *                     format: float
- *                     description: Price of the book
- *                     example: 19.99
- *                   published_at:
- *                     type: string
- *                     format: date-time
- *                     description: Publication date of the book
- *                     example: "2024-11-18T00:00:00Z"
- *                   stock:
- *                     type: integer
- *                     description: Number of copies available
- *                     example: 100
- *                   author_id:
- *                     type: integer
- *                     description: ID of the author of the book
- *                     example: 1
- *                   category_id:
- *                     type: integer
- *                     description: ID of the category the book belongs to
- *                     example: 2
- *                   publisher_id:
- *                     type: integer
- *                     description: ID of the publisher of the book
- *                     example: 3
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the book
+ *                         example: 1
+ *                       title:
+ *                         type: string
+ *                         description: Title of the book
+ *                         example: "The Great Gatsby"
+ *                       description:
+ *                         type: string
+ *                         description: Description or summary of the book
+ *                         example: "A novel about the American dream."
+ *                       price:
+ *                         type: number
+ *                         format: float
+ *                         description: Price of the book
+ *                         example: 19.99
+ *                       published_at:
+ *                         type: string
+ *                         format: date-time
+ *                         description: Publication date of the book
+ *                         example: "2024-11-18T00:00:00Z"
+ *                       stock:
+ *                         type: integer
+ *                         description: Number of copies available
+ *                       rating_average:
+ *                         type: number
+ *                         format: float
+ *                         description: Average rating of the approved reviews, 0 without any
+ *                       rating_count:
+ *                         type: integer
+ *                         description: Number of approved reviews
+ *                         example: 100
+ *                       author_id:
+ *                         type: integer
+ *                         description: ID of the author of the book
+ *                         example: 1
+ *                       category_id:
+ *                         type: integer
+ *                         description: ID of the category the book belongs to
+ *                         example: 2
+ *                       publisher_id:
+ *                         type: integer
+ *                         description: ID of the publisher of the book
+ *                         example: 3
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -391,9 +623,9 @@ bookRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-bookRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+bookRouter.get('/', listQuery({ fields: Object.values(Prisma.BookScalarFieldEnum), relations: bookRelations }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await BookController.getBook();
+    const records = await BookController.getBook(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -448,6 +680,13 @@ bookRouter.get('/', async (request: Request, response: Response): Promise<any> =
  *                 stock:
  *                   type: integer
  *                   description: Number of copies available
+ *                 rating_average:
+ *                   type: number
+ *                   format: float
+ *                   description: Average rating of the approved reviews, 0 without any
+ *                 rating_count:
+ *                   type: integer
+ *                   description: Number of approved reviews
  *                   example: 100
  *                 author_id:
  *                   type: integer
@@ -497,12 +736,51 @@ bookRouter.get('/get/:id', async (request: Request, response: Response): Promise
 });
 
 
+/**
+ * @swagger
+ * /book/isbn/{isbn}:
+ *   get:
+ *     tags:
+ *       - Book
+ *     summary: Retrieve a book by ISBN
+ *     description: Accepts an ISBN-10 or ISBN-13, with or without hyphens.
+ *     parameters:
+ *       - in: path
+ *         name: isbn
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "0-7432-7356-7"
+ *     responses:
+ *       200:
+ *         description: The book with its author, category and publisher
+ *       400:
+ *         description: Invalid ISBN
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/isbn/:isbn', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await BookController.getBookByIsbn(String(request.params.isbn));
+    if (!record) {
+      return response.status(404).json({ message: 'Book not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
 /**
  * @swagger
  * /book/{id}:
  *   delete:
  *     tags:
  *       - Book
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a book by ID
  *     description: Endpoint to delete a specific book by its unique ID.
  *     parameters:
@@ -544,7 +822,7 @@ bookRouter.get('/get/:id', async (request: Request, response: Response): Promise
  *                   type: string
  *                   example: "Internal server error"
  */
-bookRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+bookRouter.delete('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await BookController.deleteBook(Number(id));
@@ -569,33 +847,21 @@ bookRouter.delete('/:id', async (request: Request, response: Response): Promise<
  *     summary: Retrieve a book by filters
  *     description: Endpoint to fetch a specific book by its unique ID.
  *     parameters:
- *     - in: query
- *       name: author_id
- *       schema:
- *         type: integer
- *       description: Filter books by author ID
- *     - in: query
- *       name: category_id
- *       schema:
- *         type: integer
- *       description: Filter books by category ID
- *     - in: query
- *       name: publisher_id
- *       schema:
- *         type: integer
- *       description: Filter books by publisher ID
- *     - in: query
- *       name: min_price
- *       schema:
- *         type: number
- *         format: float
- *       description: Minimum price of the book
- *     - in: query
- *       name: max_price
- *       schema:
- *         type: number
- *         format: float
- *       description: Maximum price of the book
+ *     - $ref: '#/components/parameters/bookAuthorId'
+ *     - $ref: '#/components/parameters/bookRole'
+ *     - $ref: '#/components/parameters/bookCategoryId'
+ *     - $ref: '#/components/parameters/bookPublisherId'
+ *     - $ref: '#/components/parameters/bookMinPrice'
+ *     - $ref: '#/components/parameters/bookMaxPrice'
+ *     - $ref: '#/components/parameters/bookPriceRange'
+ *     - $ref: '#/components/parameters/bookYear'
+ *     - $ref: '#/components/parameters/bookInStock'
+ *     - $ref: '#/components/parameters/bookMinRating'
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: Successfully retrieved the book
@@ -604,44 +870,60 @@ bookRouter.delete('/:id', async (request: Request, response: Response): Promise<
  *             schema:
  *               type: object
  *               properties:
- *                 id:
- *                   type: integer
- *                   description: Unique ID of the book
- *                   example: 1
- *                 title:
- *                   type: string
- *                   description: Title of the book
- *                   example: "The Great Gatsby"
- *                 description:
- *                   type: string
- *                   description: Description or summary of the book
- *                   example: "A novel about the American dream."
- *                 price:
- *                   type: number
- *                   format: float
- *                   description: Price of the book
- *                   example: 19.99
- *                 published_at:
- *                   type: string
- *                   format: date-time
- *                   description: Publication date of the book
- *                   example: "2024-11-18T00:00:00Z"
- *                 stock:
- *                   type: integer
- *                   description: Number of copies available
- *                   example: 100
- *                 author_id:
- *                   type: integer
- *                   description: ID of the author of the book
- *                   example: 1
- *                 category_id:
- *                   type: integer
- *                   description: ID of the category the book belongs to
- *                   example: 2
- *                 publisher_id:
- *                   type: integer
- *                   description: ID of the publisher of the book
- *                   example: 3
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the book
+ *                         example: 1
+ *                       title:
+ *                         type: string
+ *                         description: Title of the book
+ *                         example: "The Great Gatsby"
+ *                       description:
+ *                         type: string
+ *                         description: Description or summary of the book
+ *                         example: "A novel about the American dream."
+ *                       price:
+ *                         type: number
+ *                         format: float
+ *                         description: Price of the book
+ *                         example: 19.99
+ *                       published_at:
+ *                         type: string
+ *                         format: date-time
+ *                         description: Publication date of the book
+ *                         example: "2024-11-18T00:00:00Z"
+ *                       stock:
+ *                         type: integer
+ *                         description: Number of copies available
+ *                       rating_average:
+ *                         type: number
+ *                         format: float
+ *                         description: Average rating of the approved reviews, 0 without any
+ *                       rating_count:
+ *                         type: integer
+ *                         description: Number of approved reviews
+ *                         example: 100
+ *                       author_id:
+ *                         type: integer
+ *                         description: ID of the author of the book
+ *                         example: 1
+ *                       category_id:
+ *                         type: integer
+ *                         description: ID of the category the book belongs to
+ *                         example: 2
+ *                       publisher_id:
+ *                         type: integer
+ *                         description: ID of the publisher of the book
+ *                         example: 3
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       404:
  *         description: Book not found
  *         content:
@@ -663,20 +945,521 @@ bookRouter.delete('/:id', async (request: Request, response: Response): Promise<
  *                   type: string
  *                   example: "Internal server error"
  */
-bookRouter.get('/filters', async (request: Request, response: Response): Promise<any> => {
-
+bookRouter.get('/filters', ...filterRules(), listQuery({ fields: Object.values(Prisma.BookScalarFieldEnum), relations: bookRelations }), async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
   try {    
-      const filters = {
-          author_id: request.query.author_id ? Number(request.query.author_id) : undefined,
-          category_id: request.query.category_id ? Number(request.query.category_id) : undefined,
-          publisher_id: request.query.publisher_id ? Number(request.query.publisher_id) : undefined,
-          min_price: request.query.min_price ? Number(request.query.min_price) : undefined,
-          max_price: request.query.max_price ? Number(request.query.max_price) : undefined,
-      };
-
-      const records = await BookController.getBookByFilter(filters);
+      const records = await BookController.getBookByFilter(filtersOf(request), request.list!);
       return response.status(200).json(records);
   } catch (error: any) {
       return response.status(500).json({ message: error.message });
   }
 });
+
+/**
+ * @swagger
+ * /book/facets:
+ *   get:
+ *     tags:
+ *       - Book
+ *     summary: Facet counts for catalog browsing
+ *     description: |
+ *       Counts the books matching the filters per author, category, publisher, price bucket, publication year
+ *       and availability. Each facet ignores its own filter, so after selecting an author the other authors
+ *       still show how many books selecting them as well would add. Authors count books where they have `role`,
+ *       `author` by default, categories count their whole subtree. Authors and publishers are limited to the most frequent.
+ *     parameters:
+ *     - $ref: '#/components/parameters/bookAuthorId'
+ *     - $ref: '#/components/parameters/bookRole'
+ *     - $ref: '#/components/parameters/bookCategoryId'
+ *     - $ref: '#/components/parameters/bookPublisherId'
+ *     - $ref: '#/components/parameters/bookMinPrice'
+ *     - $ref: '#/components/parameters/bookMaxPrice'
+ *     - $ref: '#/components/parameters/bookPriceRange'
+ *     - $ref: '#/components/parameters/bookYear'
+ *     - $ref: '#/components/parameters/bookInStock'
+ *     - $ref: '#/components/parameters/bookMinRating'
+ *     responses:
+ *       200:
+ *         description: Facet counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                   description: Number of books matching all filters
+ *                 authors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       first_name:
+ *                         type: string
+ *                       last_name:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *                 categories:
+ *                   type: array
+ *                   description: Categories in tree order, parent_id nests them
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       slug:
+ *                         type: string
+ *                       parent_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       count:
+ *                         type: integer
+ *                 publishers:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *                 prices:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                         description: Value for the price_range filter
+ *                         example: "10-20"
+ *                       min:
+ *                         type: number
+ *                       max:
+ *                         type: number
+ *                         description: Exclusive, missing on the last bucket
+ *                       count:
+ *                         type: integer
+ *                 years:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       year:
+ *                         type: integer
+ *                       count:
+ *                         type: integer
+ *                 availability:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       in_stock:
+ *                         type: boolean
+ *                       count:
+ *                         type: integer
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/facets', ...filterRules(), async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
+  try {
+    const facets = await FacetController.getBookFacets(filtersOf(request));
+    return response.status(200).json(facets);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /book/export:
+ *   get:
+ *     tags:
+ *       - Book
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Export the catalog
+ *     description: |
+ *       Streams the books with their author, category and publisher, filtered like `GET /book/filters`.
+ *       `csv` and `jsonl` use the columns the catalog import reads, `onix` is a simplified ONIX 3.0 feed.
+ *     parameters:
+ *     - in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [csv, jsonl, onix]
+ *         default: csv
+ *     - $ref: '#/components/parameters/bookAuthorId'
+ *     - $ref: '#/components/parameters/bookRole'
+ *     - $ref: '#/components/parameters/bookCategoryId'
+ *     - $ref: '#/components/parameters/bookPublisherId'
+ *     - $ref: '#/components/parameters/bookMinPrice'
+ *     - $ref: '#/components/parameters/bookMaxPrice'
+ *     - $ref: '#/components/parameters/bookPriceRange'
+ *     - $ref: '#/components/parameters/bookYear'
+ *     - $ref: '#/components/parameters/bookInStock'
+ *     - $ref: '#/components/parameters/bookMinRating'
+ *     responses:
+ *       200:
+ *         description: The export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/export',
+  ...managerOrAdmin,
+  query('format').optional().isIn(Object.keys(CatalogExportController.exportFormats)),
+  ...filterRules(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    const format = (request.query.format || 'csv') as CatalogExportController.ExportFormat;
+    const { contentType, extension } = CatalogExportController.exportFormats[format];
+    try {
+      await CatalogExportController.exportCatalog(filtersOf(request), format, response, () => {
+        response.setHeader('Content-Type', contentType);
+        response.setHeader('Content-Disposition', `attachment; filename="catalog-${new Date().toISOString().slice(0, 10)}.${extension}"`);
+      });
+    } catch (error: any) {
+      if (!response.headersSent) {
+        return response.status(errorStatus(error)).json(errorBody(error));
+      }
+      // The status line is gone, cutting the stream tells the client the file is incomplete
+      console.error('Catalog export failed:', error.message);
+      response.destroy(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /book/search:
+ *   get:
+ *     tags:
+ *       - Book
+ *     summary: Full-text search for books
+ *     description: Searches book titles, descriptions and author names, ranked by relevance. Supports quoted phrases ("great gatsby"), prefixes (gats*) and exclusions (-musical).
+ *     parameters:
+ *     - in: query
+ *       name: q
+ *       required: true
+ *       schema:
+ *         type: string
+ *       description: Search query
+ *       example: "\"great gatsby\" fitz"
+ *     - in: query
+ *       name: prefix
+ *       schema:
+ *         type: boolean
+ *         default: true
+ *       description: Match the last word as a prefix, for search-as-you-type
+ *     - in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         default: 20
+ *         maximum: 100
+ *     - in: query
+ *       name: offset
+ *       schema:
+ *         type: integer
+ *         default: 0
+ *     responses:
+ *       200:
+ *         description: Matching books ordered by relevance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                   description: Number of matching books
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       title:
+ *                         type: string
+ *                       rank:
+ *                         type: number
+ *                         description: Relevance of the book to the query
+ *                       highlight:
+ *                         type: object
+ *                         description: HTML-escaped text with the matches wrapped in <mark> tags
+ *                         properties:
+ *                           title:
+ *                             type: string
+ *                             example: "The <mark>Great</mark> <mark>Gatsby</mark>"
+ *                           description:
+ *                             type: string
+ *                             description: Fragments of the description with the matches marked
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/search',
+  query('q').notEmpty().isString(),
+  query('prefix').optional().isBoolean().toBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  query('offset').optional().isInt({ min: 0 }).toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const records = await BookController.searchBooks(matchedData<BookController.BookSearch>(request, { locations: ['query'] }));
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(500).json({ message: error.message });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /book/{id}/reviews:
+ *   get:
+ *     tags:
+ *       - Book
+ *     summary: Retrieve the reviews of a book
+ *     description: The approved reviews, newest first. The average and count of their ratings are on the book as rating_average and rating_count.
+ *     parameters:
+ *     - in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: integer
+ *     - in: query
+ *       name: verified_only
+ *       schema:
+ *         type: boolean
+ *         default: false
+ *       description: Only reviews of verified purchases
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of reviews
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Review'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/:id/reviews',
+  query('verified_only').optional().isBoolean().toBoolean(),
+  listQuery({ fields: Object.values(Prisma.ReviewScalarFieldEnum), defaultSort: '-id' }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { verified_only } = matchedData<{ verified_only?: boolean }>(request, { locations: ['query'] });
+      const records = await ReviewController.getBookReviews(Number(request.params.id), request.list!, verified_only);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /book/{id}/stock-history:
+ *   get:
+ *     tags:
+ *       - Book
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Stock movements of a book
+ *     description: The append-only ledger of the book stock, newest first by default. Types are receipt, sale, return, adjustment, reservation and release; `quantity` is the signed change and `stock_after` the stock after it.
+ *     parameters:
+ *     - in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: integer
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of stock movements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       book_id:
+ *                         type: integer
+ *                       type:
+ *                         type: string
+ *                         enum: [receipt, sale, return, adjustment, reservation, release]
+ *                       quantity:
+ *                         type: integer
+ *                         example: -2
+ *                       stock_after:
+ *                         type: integer
+ *                         example: 8
+ *                       order_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       return_request_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       actor_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       comment:
+ *                         type: string
+ *                         nullable: true
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.get('/:id/stock-history',
+  ...managerOrAdmin,
+  listQuery({ fields: Object.values(Prisma.StockMovementScalarFieldEnum), defaultSort: '-id' }),
+  async (request: Request, response: Response): Promise<any> => {
+    try {
+      const records = await InventoryController.getStockHistory(Number(request.params.id), request.list!);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /book/{id}/stock:
+ *   post:
+ *     tags:
+ *       - Book
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Book a stock movement
+ *     description: Records received books or a manual correction of the stock. Receipts must be positive, adjustments are signed.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [receipt, adjustment]
+ *               quantity:
+ *                 type: integer
+ *                 example: 10
+ *               comment:
+ *                 type: string
+ *                 example: "Delivery 2024-12-01"
+ *             required:
+ *               - type
+ *               - quantity
+ *     responses:
+ *       201:
+ *         description: The stock movement
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book not found
+ *       409:
+ *         description: The adjustment would make the stock negative
+ *       500:
+ *         description: Internal server error
+ */
+bookRouter.post('/:id/stock',
+  ...managerOrAdmin,
+  body('type').isIn(['receipt', 'adjustment']),
+  body('quantity').notEmpty().isInt().toInt(),
+  body('comment').optional().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { type, quantity, comment } = request.body;
+      const record = await InventoryController.recordStockMovement(Number(request.params.id), type, quantity, { actorId: request.access!.user_id, comment });
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
@@ -0,0 +1,327 @@
+import express, { Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import * as CartController from '../controller/cart.controller';
+import { authenticated } from '../middleware/access.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const cartRouter = express.Router();
+
+cartRouter.use(...authenticated);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Cart:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Unique ID of the cart
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               book_id:
+ *                 type: integer
+ *               book:
+ *                 type: object
+ *               quantity:
+ *                 type: integer
+ *                 example: 2
+ *               added_price:
+ *                 type: number
+ *                 format: float
+ *                 description: Price of the book when it was added to the cart
+ *                 example: 19.99
+ *               price:
+ *                 type: number
+ *                 format: float
+ *                 description: Current price of the book
+ *                 example: 17.99
+ *               price_changed:
+ *                 type: boolean
+ *                 description: Whether the price changed since the book was added
+ *               stock_warning:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [out_of_stock, insufficient_stock]
+ *               subtotal:
+ *                 type: number
+ *                 format: float
+ *         total:
+ *           type: number
+ *           format: float
+ *           description: Total at current prices
+ *         has_price_changes:
+ *           type: boolean
+ *         has_stock_warnings:
+ *           type: boolean
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /cart:
+ *   get:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve the current user's cart
+ *     description: Endpoint to fetch the cart with live prices and stock warnings.
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved the cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Cart'
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await CartController.getCart(request.access!.user_id);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /cart/items:
+ *   post:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Add a book to the cart
+ *     description: Adds the book to the cart or increases its quantity if it is already there.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               bookId:
+ *                 type: integer
+ *                 example: 1
+ *               quantity:
+ *                 type: integer
+ *                 example: 1
+ *             required:
+ *               - bookId
+ *               - quantity
+ *     responses:
+ *       201:
+ *         description: The updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.post('/items',
+  body('bookId').notEmpty().isInt().toInt(),
+  body('quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { bookId, quantity } = request.body;
+      const record = await CartController.addCartItem(request.access!.user_id, bookId, quantity);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /cart/items/{bookId}:
+ *   put:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Change the quantity of a book in the cart
+ *     parameters:
+ *       - in: path
+ *         name: bookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 example: 3
+ *             required:
+ *               - quantity
+ *     responses:
+ *       200:
+ *         description: The updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book is not in the cart
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.put('/items/:bookId',
+  param('bookId').isInt().toInt(),
+  body('quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { bookId } = request.params;
+      const record = await CartController.updateCartItem(request.access!.user_id, Number(bookId), request.body.quantity);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /cart/items/{bookId}:
+ *   delete:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Remove a book from the cart
+ *     parameters:
+ *       - in: path
+ *         name: bookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The updated cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Cart'
+ *       404:
+ *         description: Book is not in the cart
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.delete('/items/:bookId', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const { bookId } = request.params;
+    const record = await CartController.removeCartItem(request.access!.user_id, Number(bookId));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /cart:
+ *   delete:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Remove every book from the cart
+ *     responses:
+ *       200:
+ *         description: The emptied cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Cart'
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.delete('/', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await CartController.clearCart(request.access!.user_id);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /cart/checkout:
+ *   post:
+ *     tags:
+ *       - Cart
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Convert the cart into an order
+ *     description: Creates an order at current prices, less the running promotions and the coupon, and empties the cart in one transaction.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               coupon_code:
+ *                 type: string
+ *                 description: Code of a coupon promotion
+ *                 example: SPRING10
+ *     responses:
+ *       201:
+ *         description: The order was successfully created
+ *       400:
+ *         description: Cart is empty or validation errors
+ *       403:
+ *         description: Main email is not verified
+ *       404:
+ *         description: Coupon not found
+ *       409:
+ *         description: Not enough books in stock, or the coupon cannot be used
+ *       500:
+ *         description: Internal server error
+ */
+cartRouter.post('/checkout',
+  body('coupon_code').optional({ values: 'null' }).isString().trim().notEmpty(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await CartController.checkoutCart(request.access!.user_id, request.body.coupon_code);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
@@ -0,0 +1,293 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { query, validationResult } from 'express-validator';
+import * as CatalogImportController from '../controller/catalogImport.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const catalogImportRouter = express.Router();
+
+catalogImportRouter.use(...managerOrAdmin);
+
+const formats: Record<string, CatalogImportController.ImportFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'jsonl',
+  'application/jsonl': 'jsonl',
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CatalogImport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         format:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *         dry_run:
+ *           type: boolean
+ *         status:
+ *           type: string
+ *           enum: [running, done, failed]
+ *           description: An import cut off by a server restart is failed when the server starts again
+ *         total_rows:
+ *           type: integer
+ *           description: Rows processed so far
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         unchanged:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         message:
+ *           type: string
+ *           nullable: true
+ *           description: Why the whole import failed
+ *         created_by_id:
+ *           type: integer
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         finished_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /catalog_import:
+ *   post:
+ *     tags:
+ *       - Catalog Import
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Import books from a CSV or JSON Lines file
+ *     description: |
+ *       Every row is a book with the fields of `POST /book` and the same validation rules.
+ *       Instead of `author_id`, `category_id` and `publisher_id` a row may name them with
+ *       `author_first_name` and `author_last_name`, `category` and `publisher` (plus optional
+ *       `publisher_address` and `publisher_contact`); missing ones are created. A category may be
+ *       given with its ancestors, `Fiction > Fantasy`.
+ *       A row with an `id` updates that book, otherwise the book with the same `isbn`, then the one with
+ *       the same title and author is updated, or a new one created. Empty cells are ignored.
+ *
+ *       The import runs in the background, poll `GET /catalog_import/{id}` and download the per-row report when it is done.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *         description: Defaults to the format of the content type
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *         description: Report what would change without writing anything
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               title,description,price,published_at,stock,author_first_name,author_last_name,category,publisher
+ *               The Great Gatsby,A novel about the American dream.,19.99,1925-04-10,100,F. Scott,Fitzgerald,Novel,Scribner
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               {"title":"The Great Gatsby","description":"A novel about the American dream.","price":19.99,"published_at":"1925-04-10","stock":100,"author_first_name":"F. Scott","author_last_name":"Fitzgerald"}
+ *     responses:
+ *       202:
+ *         description: The import was started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogImport'
+ *       400:
+ *         description: Validation errors or an empty file
+ *       500:
+ *         description: Internal server error
+ */
+catalogImportRouter.post('/',
+  express.text({ type: [...Object.keys(formats), 'text/plain'], limit: process.env.CATALOG_IMPORT_MAX_SIZE || '50mb' }),
+  query('format').optional().isIn(['csv', 'jsonl']),
+  query('dry_run').optional().isBoolean().toBoolean(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    const format = (request.query.format as CatalogImportController.ImportFormat | undefined)
+      || formats[String(request.headers['content-type']).split(';')[0].trim()];
+    if (!format) {
+      return response.status(400).json({ message: 'Unknown format, send text/csv or application/x-ndjson or pass format' });
+    }
+    if (typeof request.body !== 'string' || !request.body.trim()) {
+      return response.status(400).json({ message: 'The file is empty' });
+    }
+    try {
+      const run = await CatalogImportController.createCatalogImport(format, Boolean(request.query.dry_run), request.access!.user_id);
+      CatalogImportController.runCatalogImport(run.id, request.body, request.access!.user_id)
+        .catch((error) => {
+          console.error(`Catalog import ${run.id} failed:`, error.message);
+          return CatalogImportController.failCatalogImport(run.id, error.message);
+        })
+        .catch((error) => console.error(`Could not mark catalog import ${run.id} as failed:`, error.message));
+      return response.status(202).json(run);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /catalog_import:
+ *   get:
+ *     tags:
+ *       - Catalog Import
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve catalog imports
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of catalog imports, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CatalogImport'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       500:
+ *         description: Internal server error
+ */
+catalogImportRouter.get('/',
+  listQuery({
+    fields: Object.values(Prisma.CatalogImportScalarFieldEnum).filter((field) => field !== 'report'),
+    defaultSort: '-id',
+  }),
+  async (request: Request, response: Response): Promise<any> => {
+    try {
+      const records = await CatalogImportController.getCatalogImport(request.list!);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /catalog_import/{id}:
+ *   get:
+ *     tags:
+ *       - Catalog Import
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve the progress and counters of an import
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The catalog import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CatalogImport'
+ *       404:
+ *         description: Catalog import not found
+ *       500:
+ *         description: Internal server error
+ */
+catalogImportRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await CatalogImportController.getCatalogImportById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Catalog import not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /catalog_import/{id}/report:
+ *   get:
+ *     tags:
+ *       - Catalog Import
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Download the per-row report of an import
+ *     description: CSV with the columns row, action, book_id, title, field and message. A row with several errors has a line for each.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: errors_only
+ *         schema:
+ *           type: boolean
+ *         description: Leave out the rows that were imported
+ *     responses:
+ *       200:
+ *         description: The report
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Catalog import not found
+ *       409:
+ *         description: The import is still running
+ *       500:
+ *         description: Internal server error
+ */
+catalogImportRouter.get('/:id/report',
+  query('errors_only').optional().isBoolean().toBoolean(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const id = Number(request.params.id);
+      const csv = await CatalogImportController.getCatalogImportReport(id, Boolean(request.query.errors_only));
+      response.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      response.setHeader('Content-Disposition', `attachment; filename="catalog-import-${id}-report.csv"`);
+      return response.status(200).send(csv);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
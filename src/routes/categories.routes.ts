@@ -1,6 +1,10 @@
 import express, { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { body, query, validationResult } from 'express-validator';
 import * as CategoriesController from '../controller/categories.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
 
 export const categoriesRouter = express.Router();
 
@@ -10,6 +14,8 @@ export const categoriesRouter = express.Router();
  *   post:
  *     tags:
  *       - Categories
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new category
  *     description: Endpoint to create a new category in the system.
  *     requestBody:
@@ -23,6 +29,15 @@ export const categoriesRouter = express.Router();
  *                 type: string
  *                 description: Name of the category
  *                 example: "Fiction"
+ *               slug:
+ *                 type: string
+ *                 description: URL name, made from the name when left out. A number is appended while it is taken
+ *                 example: "fiction"
+ *               parent_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Parent category, null or left out for a root category. Changing it moves the whole subtree
+ *                 example: null
  *             required:
  *               - name
  *     responses:
@@ -41,6 +56,15 @@ export const categoriesRouter = express.Router();
  *                   type: string
  *                   description: Name of the category
  *                   example: "Fiction"
+ *                 slug:
+ *                   type: string
+ *                 parent_id:
+ *                   type: integer
+ *                   nullable: true
+ *                 path:
+ *                   type: string
+ *                   description: Ids from the root down to the category
+ *                   example: "/1/"
  *       400:
  *         description: Validation errors
  *         content:
@@ -74,19 +98,21 @@ export const categoriesRouter = express.Router();
  *                   example: "Internal server error"
  */
 categoriesRouter.post('/',
+  ...managerOrAdmin,
   body('name').notEmpty().isString(),
+  body('slug').optional().matches(/^[a-z0-9]+(-[a-z0-9]+)*$/).withMessage('Slug may only contain lower-case letters, digits and dashes'),
+  body('parent_id').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
   async (request: Request, response: Response): Promise<any> => {
-    console.log('SIGNUP', request.body);
     const errors = validationResult(request);
     if (!errors.isEmpty()) {
       return response.status(400).json({ errors: errors.array() });
     }
     try {
-      const data = request.body;
-      const record = await CategoriesController.createCategories(data);
+      const { name, slug, parent_id } = request.body;
+      const record = await CategoriesController.createCategories({ name, slug, parent_id });
       return response.status(201).json(record);
     } catch (error: any) {
-      return response.status(500).json({ message: error.message });
+      return response.status(errorStatus(error)).json(errorBody(error));
     }
   }
 );
@@ -97,6 +123,8 @@ categoriesRouter.post('/',
  *   put:
  *     tags:
  *       - Categories
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update a category by ID
  *     description: Endpoint to update the name of an existing category by its unique ID.
  *     parameters:
@@ -118,6 +146,15 @@ categoriesRouter.post('/',
  *                 type: string
  *                 description: Updated name of the category
  *                 example: "Non-Fiction"
+ *               slug:
+ *                 type: string
+ *                 description: URL name, made from the name when left out. A number is appended while it is taken
+ *                 example: "non-fiction"
+ *               parent_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: New parent, null makes it a root category. The whole subtree moves along, a category cannot move below itself
+ *                 example: null
  *             required:
  *               - name
  *     responses:
@@ -136,6 +173,15 @@ categoriesRouter.post('/',
  *                   type: string
  *                   description: Updated name of the category
  *                   example: "Non-Fiction"
+ *                 slug:
+ *                   type: string
+ *                 parent_id:
+ *                   type: integer
+ *                   nullable: true
+ *                 path:
+ *                   type: string
+ *                   description: Ids from the root down to the category
+ *                   example: "/1/"
  *       400:
  *         description: Validation errors
  *         content:
@@ -179,7 +225,10 @@ categoriesRouter.post('/',
  *                   example: "Internal server error"
  */
 categoriesRouter.put('/:id',
+    ...managerOrAdmin,
     body('name').notEmpty().isString(),
+    body('slug').optional().matches(/^[a-z0-9]+(-[a-z0-9]+)*$/).withMessage('Slug may only contain lower-case letters, digits and dashes'),
+    body('parent_id').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
     async (request: Request, response: Response): Promise<any> => {
       const errors = validationResult(request);
       if (!errors.isEmpty()) {
@@ -187,8 +236,8 @@ categoriesRouter.put('/:id',
       }
       try {
         const { id } = request.params;
-        const data = request.body;
-        const updatedRecord = await CategoriesController.updateCategories(Number(id), data);
+        const { name, slug, parent_id } = request.body;
+        const updatedRecord = await CategoriesController.updateCategories(Number(id), { name, slug, parent_id });
   
         if (!updatedRecord) {
           return response.status(404).json({ message: 'CRM card not found' });
@@ -196,7 +245,7 @@ categoriesRouter.put('/:id',
   
         return response.status(200).json(updatedRecord);
       } catch (error: any) {
-        return response.status(500).json({ message: error.message });
+        return response.status(errorStatus(error)).json(errorBody(error));
       }
     }
   );
@@ -209,24 +258,37 @@ categoriesRouter.put('/:id',
  *       - Categories
  *     summary: Retrieve a list of categories
  *     description: Endpoint to retrieve all categories from the system.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of categories
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the category
- *                     example: 1
- *                   name:
- *                     type: string
- *                     description: Name of the category
- *                     example: "Fiction"
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the category
+ *                         example: 1
+ *                       name:
+ *                         type: string
+ *                         description: Name of the category
+ *                         example: "Fiction"
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -238,15 +300,71 @@ categoriesRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-categoriesRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+categoriesRouter.get('/', listQuery({ fields: Object.values(Prisma.CategoriesScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await CategoriesController.getCategories();
+    const records = await CategoriesController.getCategories(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
   }
 });
 
+/**
+ * @swagger
+ * /categories/tree:
+ *   get:
+ *     tags:
+ *       - Categories
+ *     summary: Retrieve the category tree
+ *     description: All categories nested below their parents, ordered by name.
+ *     responses:
+ *       200:
+ *         description: The root categories with their subcategories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CategoryNode'
+ *       500:
+ *         description: Internal server error
+ *
+ * components:
+ *   schemas:
+ *     CategoryNode:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           example: "Fantasy"
+ *         slug:
+ *           type: string
+ *           example: "fantasy"
+ *         parent_id:
+ *           type: integer
+ *           nullable: true
+ *         book_count:
+ *           type: integer
+ *           description: Books in this category itself
+ *         total_book_count:
+ *           type: integer
+ *           description: Books in this category and all categories below it
+ *         children:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/CategoryNode'
+ */
+categoriesRouter.get('/tree', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const tree = await CategoriesController.getCategoryTree();
+    return response.status(200).json(tree);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
 /**
  * @swagger
  * /categories/{id}:
@@ -254,7 +372,7 @@ categoriesRouter.get('/', async (request: Request, response: Response): Promise<
  *     tags:
  *       - Categories
  *     summary: Retrieve a category by ID
- *     description: Endpoint to retrieve a specific category by its unique ID.
+ *     description: Returns the category with its breadcrumbs and direct subcategories.
  *     parameters:
  *       - in: path
  *         name: id
@@ -278,7 +396,40 @@ categoriesRouter.get('/', async (request: Request, response: Response): Promise<
  *                 name:
  *                   type: string
  *                   description: Name of the category
- *                   example: "Fiction"
+ *                   example: "Fantasy"
+ *                 slug:
+ *                   type: string
+ *                   example: "fantasy"
+ *                 parent_id:
+ *                   type: integer
+ *                   nullable: true
+ *                 path:
+ *                   type: string
+ *                   example: "/1/4/"
+ *                 breadcrumbs:
+ *                   type: array
+ *                   description: Categories from the root down to this one
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       slug:
+ *                         type: string
+ *                   example: [{ id: 1, name: "Fiction", slug: "fiction" }, { id: 4, name: "Fantasy", slug: "fantasy" }]
+ *                 children:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       slug:
+ *                         type: string
  *       404:
  *         description: Category not found
  *         content:
@@ -319,8 +470,12 @@ categoriesRouter.get('/:id', async (request: Request, response: Response): Promi
  *   delete:
  *     tags:
  *       - Categories
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a category by ID
- *     description: Endpoint to delete a specific category by its unique ID.
+ *     description: |
+ *       Books of the deleted category move to its parent, or lose their category when it is a root category.
+ *       A category with subcategories is only deleted with `strategy=reparent`, which moves them up to its parent.
  *     parameters:
  *       - in: path
  *         name: id
@@ -329,6 +484,13 @@ categoriesRouter.get('/:id', async (request: Request, response: Response): Promi
  *         schema:
  *           type: integer
  *           example: 1
+ *       - in: query
+ *         name: strategy
+ *         schema:
+ *           type: string
+ *           enum: [reject, reparent]
+ *           default: reject
+ *         description: What happens to subcategories
  *     responses:
  *       200:
  *         description: Category deleted successfully
@@ -350,6 +512,8 @@ categoriesRouter.get('/:id', async (request: Request, response: Response): Promi
  *                 message:
  *                   type: string
  *                   example: "Category not found"
+ *       409:
+ *         description: The category has subcategories
  *       500:
  *         description: Internal server error
  *         content:
@@ -361,10 +525,15 @@ categoriesRouter.get('/:id', async (request: Request, response: Response): Promi
  *                   type: string
  *                   example: "Internal server error"
  */
-categoriesRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+categoriesRouter.delete('/:id', ...managerOrAdmin, query('strategy').optional().isIn(['reject', 'reparent']), async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
   try {
     const { id } = request.params;
-    const deletedRecord = await CategoriesController.deleteCategories(Number(id));
+    const strategy = request.query.strategy as CategoriesController.DeleteStrategy | undefined;
+    const deletedRecord = await CategoriesController.deleteCategories(Number(id), strategy);
 
     if (!deletedRecord) {
       return response.status(404).json({ message: 'CRM card not found' });
@@ -372,6 +541,6 @@ categoriesRouter.delete('/:id', async (request: Request, response: Response): Pr
 
     return response.status(200).json({ message: 'CRM card deleted successfully' });
   } catch (error: any) {
-    return response.status(500).json({ message: error.message });
+    return response.status(errorStatus(error)).json(errorBody(error));
   }
 });
\ No newline at end of file
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as CrmAddressController from '../controller/crmAddress.controller';
+import { authenticated, crmAddressOwner, crmCardOwner, field, ownerOf, ownerScope, param } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const crmAddressRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const crmAddressRouter = express.Router();
  *   post:
  *     tags:
  *       - Crm Address
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new CRM address
  *     description: Endpoint to create a new address associated with a CRM card.
  *     requestBody:
@@ -112,6 +117,7 @@ export const crmAddressRouter = express.Router();
  *                   example: "Internal server error"
  */
 crmAddressRouter.post('/',
+  ...ownerOf(crmCardOwner(field('crm_crard_id'))),
   body('country').notEmpty().isString(),
   body('city').notEmpty().isString(),
   body('street').notEmpty().isString(),
@@ -140,6 +146,8 @@ crmAddressRouter.post('/',
  *   put:
  *     tags:
  *       - Crm Address
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing CRM address
  *     description: Endpoint to update an existing CRM address by ID.
  *     parameters:
@@ -260,6 +268,7 @@ crmAddressRouter.post('/',
  *                   example: "Internal server error"
  */
 crmAddressRouter.put('/:id',
+    ...ownerOf(crmAddressOwner(param('id')), crmCardOwner(field('crm_crard_id'))),
     body('card_title').notEmpty().isString(),
     body('card_number').notEmpty().isString(),
     body('date_end').notEmpty().isISO8601().toDate(),
@@ -291,39 +300,54 @@ crmAddressRouter.put('/:id',
  *   get:
  *     tags:
  *       - Crm Address
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get a list of all CRM addresses
  *     description: Endpoint to retrieve all CRM addresses from the system.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of CRM addresses
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the CRM address
- *                   country:
- *                     type: string
- *                     description: Country of the address
- *                   city:
- *                     type: string
- *                     description: City of the address
- *                   street:
- *                     type: string
- *                     description: Street name of the address
- *                   house:
- *                     type: string
- *                     description: House number of the address
- *                   apartment:
- *                     type: string
- *                     description: Apartment number of the address
- *                   crm_crard_id:
- *                     type: integer
- *                     description: ID of the associated CRM card
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the CRM address
+ *                       country:
+ *                         type: string
+ *                         description: Country of the address
+ *                       city:
+ *                         type: string
+ *                         description: City of the address
+ *                       street:
+ *                         type: string
+ *                         description: Street name of the address
+ *                       house:
+ *                         type: string
+ *                         description: House number of the address
+ *                       apartment:
+ *                         type: string
+ *                         description: Apartment number of the address
+ *                       crm_crard_id:
+ *                         type: integer
+ *                         description: ID of the associated CRM card
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -335,9 +359,9 @@ crmAddressRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-crmAddressRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+crmAddressRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.CrmAddressScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await CrmAddressController.getCrmAddress();
+    const records = await CrmAddressController.getCrmAddress(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -350,6 +374,8 @@ crmAddressRouter.get('/', async (request: Request, response: Response): Promise<
  *   get:
  *     tags:
  *       - Crm Address
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get a specific CRM address by ID
  *     description: Endpoint to retrieve a specific CRM address based on its ID.
  *     parameters:
@@ -410,7 +436,7 @@ crmAddressRouter.get('/', async (request: Request, response: Response): Promise<
  *                   type: string
  *                   example: "Internal server error"
  */
-crmAddressRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+crmAddressRouter.get('/:id', ...ownerOf(crmAddressOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await CrmAddressController.getCrmAddressById(Number(id));
@@ -429,6 +455,8 @@ crmAddressRouter.get('/:id', async (request: Request, response: Response): Promi
  *   delete:
  *     tags:
  *       - Crm Address
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a specific CRM address by ID
  *     description: Endpoint to delete a specific CRM address based on its ID.
  *     parameters:
@@ -471,7 +499,7 @@ crmAddressRouter.get('/:id', async (request: Request, response: Response): Promi
  *                   type: string
  *                   example: "Internal server error"
  */
-crmAddressRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+crmAddressRouter.delete('/:id', ...ownerOf(crmAddressOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await CrmAddressController.deleteCrmAddress(Number(id));
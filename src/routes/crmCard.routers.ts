@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as CrmCardController from '../controller/crmCard.controller';
+import { adminOnly, authenticated, crmCardOwner, ownerOf, ownerScope, param, requireAdminFor } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const crmCardRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const crmCardRouter = express.Router();
  *   post:
  *     tags:
  *       - CRM Cards
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new CRM card
  *     description: Endpoint to create a new CRM card associated with a user.
  *     requestBody:
@@ -105,6 +110,7 @@ export const crmCardRouter = express.Router();
  */
 crmCardRouter.post(
   '/',
+  ...adminOnly,
   body('user_name').if(body('user_name').notEmpty()).isString(),
   body('user_surname').if(body('user_surname').notEmpty()).isString(),
   body('user_patronymic').if(body('user_patronymic').notEmpty()).isString(),
@@ -136,6 +142,8 @@ crmCardRouter.post(
  *   put:
  *     tags:
  *       - CRM Cards
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing CRM card
  *     description: Endpoint to update an existing CRM card's information.
  *     parameters:
@@ -237,6 +245,7 @@ crmCardRouter.post(
  */
 crmCardRouter.put(
     '/:id',
+    ...ownerOf(crmCardOwner(param('id'))), requireAdminFor('user_id', 'user_type_id'),
     body('user_name').if(body('user_name').notEmpty()).isString(),
     body('user_surname').if(body('user_surname').notEmpty()).isString(),
     body('user_patronymic').if(body('user_patronymic').notEmpty()).isString(),
@@ -274,27 +283,42 @@ crmCardRouter.put(
  *   get:
  *     tags:
  *       - CRM Cards
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get all crm cards
  *     description: Endpoint to get all crm cards
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: The list of crm cards
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: string
- *                     description: The user ID
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         description: The user ID
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  */
-crmCardRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+crmCardRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.CrmCardScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await CrmCardController.getCard();
+    const records = await CrmCardController.getCard(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -307,6 +331,8 @@ crmCardRouter.get('/', async (request: Request, response: Response): Promise<any
  *   get:
  *     tags:
  *       - CRM Cards
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get a CRM card by ID
  *     description: Retrieve a specific CRM card by its unique ID.
  *     parameters:
@@ -360,7 +386,7 @@ crmCardRouter.get('/', async (request: Request, response: Response): Promise<any
  *       500:
  *         description: Internal server error
  */
-crmCardRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+crmCardRouter.get('/:id', ...ownerOf(crmCardOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await CrmCardController.getCardById(Number(id));
@@ -379,6 +405,8 @@ crmCardRouter.get('/:id', async (request: Request, response: Response): Promise<
  *   delete:
  *     tags:
  *       - CRM Cards
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a CRM card by ID
  *     description: Endpoint to delete a specific CRM card by its unique ID.
  *     parameters:
@@ -404,7 +432,7 @@ crmCardRouter.get('/:id', async (request: Request, response: Response): Promise<
  *       500:
  *         description: Internal server error
  */
-crmCardRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+crmCardRouter.delete('/:id', ...adminOnly, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await CrmCardController.deleteCard(Number(id));
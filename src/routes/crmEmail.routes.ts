@@ -1,6 +1,10 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as CrmEmailController from '../controller/crmEmail.controller';
+import { authenticated, crmCardOwner, crmEmailOwner, field, ownerOf, ownerScope, param } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
 
 export const crmEmailRouter = express.Router();
 
@@ -10,8 +14,10 @@ export const crmEmailRouter = express.Router();
  *   post:
  *     tags:
  *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new CRM email
- *     description: Endpoint to create a new CRM email associated with a CRM card.
+ *     description: Endpoint to create a new CRM email associated with a CRM card. The email starts unverified and a verification token is sent to it. A new main email replaces the previous main email of the card.
  *     requestBody:
  *       required: true
  *       content:
@@ -52,6 +58,11 @@ export const crmEmailRouter = express.Router();
  *                 is_main:
  *                   type: boolean
  *                   description: Indicates if this is the main email
+ *                 verified_at:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: When the email was confirmed, null until then
  *                 crm_crard_id:
  *                   type: integer
  *                   description: The ID of the associated CRM card
@@ -85,7 +96,8 @@ export const crmEmailRouter = express.Router();
  *                   example: "Internal server error"
  */
 crmEmailRouter.post('/',
-  body('email').notEmpty().isString(),
+  ...ownerOf(crmCardOwner(field('crm_crard_id'))),
+  body('email').notEmpty().isEmail(),
   body('is_main').notEmpty().isBoolean(),
   body('crm_crard_id').notEmpty().isInt(),
   async (request: Request, response: Response): Promise<any> => {
@@ -110,8 +122,10 @@ crmEmailRouter.post('/',
  *   put:
  *     tags:
  *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing CRM email
- *     description: Endpoint to update the details of an existing CRM email associated with a CRM card.
+ *     description: Endpoint to update the details of an existing CRM email associated with a CRM card. Changing the address makes it unverified and sends a new verification token.
  *     parameters:
  *       - in: path
  *         name: id
@@ -159,6 +173,11 @@ crmEmailRouter.post('/',
  *                 is_main:
  *                   type: boolean
  *                   description: Indicates if this is the main email
+ *                 verified_at:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: When the email was confirmed, null until then
  *                 crm_crard_id:
  *                   type: integer
  *                   description: The ID of the associated CRM card
@@ -194,7 +213,8 @@ crmEmailRouter.post('/',
  *                   example: "Internal server error"
  */
 crmEmailRouter.put('/:id',
-    body('email').notEmpty().isString(),
+    ...ownerOf(crmEmailOwner(param('id')), crmCardOwner(field('crm_crard_id'))),
+    body('email').notEmpty().isEmail(),
     body('is_main').notEmpty().isBoolean(),
     body('crm_crard_id').notEmpty().isInt(),
     async (request: Request, response: Response): Promise<any> => {
@@ -224,34 +244,54 @@ crmEmailRouter.put('/:id',
  *   get:
  *     tags:
  *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve all CRM emails
  *     description: Endpoint to get a list of all CRM emails.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of CRM emails
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: The unique ID of the CRM email
- *                     example: 1
- *                   email:
- *                     type: string
- *                     description: The email address associated with the CRM card
- *                     example: "user@example.com"
- *                   is_main:
- *                     type: boolean
- *                     description: Indicates if this is the main email
- *                     example: true
- *                   crm_crard_id:
- *                     type: integer
- *                     description: The ID of the associated CRM card
- *                     example: 1
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: The unique ID of the CRM email
+ *                         example: 1
+ *                       email:
+ *                         type: string
+ *                         description: The email address associated with the CRM card
+ *                         example: "user@example.com"
+ *                       is_main:
+ *                         type: boolean
+ *                         description: Indicates if this is the main email
+ *                         example: true
+ *                       verified_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: When the email was confirmed, null until then
+ *                       crm_crard_id:
+ *                         type: integer
+ *                         description: The ID of the associated CRM card
+ *                         example: 1
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -263,9 +303,9 @@ crmEmailRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-crmEmailRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+crmEmailRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.CrmEmailScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await CrmEmailController.getCrmEmail();
+    const records = await CrmEmailController.getCrmEmail(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -278,6 +318,8 @@ crmEmailRouter.get('/', async (request: Request, response: Response): Promise<an
  *   get:
  *     tags:
  *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve a CRM email by ID
  *     description: Endpoint to get the details of a specific CRM email by its unique ID.
  *     parameters:
@@ -307,6 +349,11 @@ crmEmailRouter.get('/', async (request: Request, response: Response): Promise<an
  *                   type: boolean
  *                   description: Indicates if this is the main email
  *                   example: true
+ *                 verified_at:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                   description: When the email was confirmed, null until then
  *                 crm_crard_id:
  *                   type: integer
  *                   description: The ID of the associated CRM card
@@ -332,7 +379,7 @@ crmEmailRouter.get('/', async (request: Request, response: Response): Promise<an
  *                   type: string
  *                   example: "Internal server error"
  */
-crmEmailRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+crmEmailRouter.get('/:id', ...ownerOf(crmEmailOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await CrmEmailController.getCrmEmailById(Number(id));
@@ -351,6 +398,8 @@ crmEmailRouter.get('/:id', async (request: Request, response: Response): Promise
  *   delete:
  *     tags:
  *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a CRM email by ID
  *     description: Endpoint to delete a specific CRM email by its unique ID.
  *     parameters:
@@ -392,7 +441,7 @@ crmEmailRouter.get('/:id', async (request: Request, response: Response): Promise
  *                   type: string
  *                   example: "Internal server error"
  */
-crmEmailRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+crmEmailRouter.delete('/:id', ...ownerOf(crmEmailOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await CrmEmailController.deleteCrmEmail(Number(id));
@@ -405,4 +454,84 @@ crmEmailRouter.delete('/:id', async (request: Request, response: Response): Prom
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
   }
-});
\ No newline at end of file
+});
+
+/**
+ * @swagger
+ * /crm_email/verify:
+ *   post:
+ *     tags:
+ *       - Crm Email
+ *     summary: Confirm an email
+ *     description: Marks the CRM email of a verification token as verified. Tokens are single-use.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: The token from the verification email
+ *             required:
+ *               - token
+ *     responses:
+ *       200:
+ *         description: The email was verified
+ *       400:
+ *         description: Invalid or expired verification token
+ *       500:
+ *         description: Internal server error
+ */
+crmEmailRouter.post('/verify',
+  body('token').notEmpty().isString(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await CrmEmailController.verifyEmail(request.body.token);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /crm_email/{id}/verification:
+ *   post:
+ *     tags:
+ *       - Crm Email
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Resend the verification email
+ *     description: Sends a new verification token to a CRM email that is not verified yet.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The unique ID of the CRM email
+ *     responses:
+ *       202:
+ *         description: The verification email was sent
+ *       404:
+ *         description: CRM email not found
+ *       409:
+ *         description: The email is already verified
+ *       500:
+ *         description: Internal server error
+ */
+crmEmailRouter.post('/:id/verification', ...ownerOf(crmEmailOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    await CrmEmailController.requestVerification(Number(request.params.id));
+    return response.status(202).json({ message: 'Verification email sent' });
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
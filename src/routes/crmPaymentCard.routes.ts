@@ -1,17 +1,26 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as CrmPaymentCardController from '../controller/crmPaymentCard.controller';
+import { authenticated, crmCardOwner, crmPaymentCardOwner, field, ownerOf, ownerScope, param } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
 
 export const crmPaymentCardRouter = express.Router();
 
+// The vault token never leaves the server
+const cardFields = Object.values(Prisma.CrmPaymentCardScalarFieldEnum).filter((field) => field !== 'token');
+
 /**
  * @swagger
  * /crm_payment_card:
  *   post:
  *     tags:
  *       - Crm Payment Card
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new CRM payment card
- *     description: Endpoint to create a new CRM payment card associated with a CRM card.
+ *     description: Endpoint to create a new CRM payment card associated with a CRM card. The number must pass the Luhn check and the card must not be expired. Only a vault token, the last four digits and the brand are stored.
  *     requestBody:
  *       required: true
  *       content:
@@ -25,8 +34,8 @@ export const crmPaymentCardRouter = express.Router();
  *                 example: "Corporate Card"
  *               card_number:
  *                 type: string
- *                 description: Payment card number
- *                 example: "1234-5678-9012-3456"
+ *                 description: Payment card number, only its last four digits are stored
+ *                 example: "4242 4242 4242 4242"
  *               date_end:
  *                 type: string
  *                 format: date
@@ -57,7 +66,15 @@ export const crmPaymentCardRouter = express.Router();
  *                   description: Title of the payment card
  *                 card_number:
  *                   type: string
- *                   description: Payment card number
+ *                   description: Masked payment card number
+ *                   example: "**** **** **** 4242"
+ *                 last4:
+ *                   type: string
+ *                   description: Last four digits of the card number
+ *                 brand:
+ *                   type: string
+ *                   description: Card brand detected from the number
+ *                   example: "visa"
  *                 date_end:
  *                   type: string
  *                   format: date
@@ -66,7 +83,7 @@ export const crmPaymentCardRouter = express.Router();
  *                   type: integer
  *                   description: ID of the associated CRM card
  *       400:
- *         description: Validation errors
+ *         description: Validation errors, an invalid card number or an expired card
  *         content:
  *           application/json:
  *             schema:
@@ -98,12 +115,12 @@ export const crmPaymentCardRouter = express.Router();
  *                   example: "Internal server error"
  */
 crmPaymentCardRouter.post('/',
+  ...ownerOf(crmCardOwner(field('crm_crard_id'))),
   body('card_title').notEmpty().isString(),
   body('card_number').notEmpty().isString(),
   body('date_end').notEmpty().isISO8601().toDate(),
   body('crm_crard_id').notEmpty().isInt(),
   async (request: Request, response: Response): Promise<any> => {
-    console.log('SIGNUP', request.body);
     const errors = validationResult(request);
     if (!errors.isEmpty()) {
       return response.status(400).json({ errors: errors.array() });
@@ -113,7 +130,7 @@ crmPaymentCardRouter.post('/',
       const record = await CrmPaymentCardController.createCrmPaymentCard(data);
       return response.status(201).json(record);
     } catch (error: any) {
-      return response.status(500).json({ message: error.message });
+      return response.status(errorStatus(error)).json(errorBody(error));
     }
   }
 );
@@ -124,8 +141,10 @@ crmPaymentCardRouter.post('/',
  *   put:
  *     tags:
  *       - Crm Payment Card
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing CRM payment card
- *     description: Endpoint to update an existing CRM payment card associated with a CRM card.
+ *     description: Endpoint to update an existing CRM payment card associated with a CRM card. Send `card_number` only to replace the card, otherwise the stored card is kept.
  *     parameters:
  *       - in: path
  *         name: id
@@ -146,8 +165,8 @@ crmPaymentCardRouter.post('/',
  *                 example: "Corporate Card"
  *               card_number:
  *                 type: string
- *                 description: Payment card number
- *                 example: "1234-5678-9012-3456"
+ *                 description: Payment card number, only its last four digits are stored
+ *                 example: "4242 4242 4242 4242"
  *               date_end:
  *                 type: string
  *                 format: date
@@ -159,7 +178,6 @@ crmPaymentCardRouter.post('/',
  *                 example: 1
  *             required:
  *               - card_title
- *               - card_number
  *               - date_end
  *               - crm_crard_id
  *     responses:
@@ -178,7 +196,15 @@ crmPaymentCardRouter.post('/',
  *                   description: Title of the payment card
  *                 card_number:
  *                   type: string
- *                   description: Payment card number
+ *                   description: Masked payment card number
+ *                   example: "**** **** **** 4242"
+ *                 last4:
+ *                   type: string
+ *                   description: Last four digits of the card number
+ *                 brand:
+ *                   type: string
+ *                   description: Card brand detected from the number
+ *                   example: "visa"
  *                 date_end:
  *                   type: string
  *                   format: date
@@ -187,7 +213,7 @@ crmPaymentCardRouter.post('/',
  *                   type: integer
  *                   description: ID of the associated CRM card
  *       400:
- *         description: Validation errors
+ *         description: Validation errors, an invalid card number or an expired card
  *         content:
  *           application/json:
  *             schema:
@@ -221,8 +247,9 @@ crmPaymentCardRouter.post('/',
  *                   example: "Internal server error"
  */
 crmPaymentCardRouter.put('/:id',
+    ...ownerOf(crmPaymentCardOwner(param('id')), crmCardOwner(field('crm_crard_id'))),
     body('card_title').notEmpty().isString(),
-    body('card_number').notEmpty().isString(),
+    body('card_number').optional().isString(),
     body('date_end').notEmpty().isISO8601().toDate(),
     body('crm_crard_id').notEmpty().isInt(),
     async (request: Request, response: Response): Promise<any> => {
@@ -241,7 +268,7 @@ crmPaymentCardRouter.put('/:id',
   
         return response.status(200).json(updatedRecord);
       } catch (error: any) {
-        return response.status(500).json({ message: error.message });
+        return response.status(errorStatus(error)).json(errorBody(error));
       }
     }
   );
@@ -252,34 +279,57 @@ crmPaymentCardRouter.put('/:id',
  *   get:
  *     tags:
  *       - Crm Payment Card
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve all CRM payment cards
  *     description: Endpoint to retrieve a list of all CRM payment cards.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of CRM payment cards
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the CRM payment card
- *                   card_title:
- *                     type: string
- *                     description: Title of the payment card
- *                   card_number:
- *                     type: string
- *                     description: Payment card number
- *                   date_end:
- *                     type: string
- *                     format: date
- *                     description: Expiration date of the card
- *                   crm_crard_id:
- *                     type: integer
- *                     description: ID of the associated CRM card
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the CRM payment card
+ *                       card_title:
+ *                         type: string
+ *                         description: Title of the payment card
+ *                       card_number:
+ *                         type: string
+ *                         description: Masked payment card number
+ *                         example: "**** **** **** 4242"
+ *                       last4:
+ *                         type: string
+ *                         description: Last four digits of the card number
+ *                       brand:
+ *                         type: string
+ *                         description: Card brand detected from the number
+ *                         example: "visa"
+ *                       date_end:
+ *                         type: string
+ *                         format: date
+ *                         description: Expiration date of the card
+ *                       crm_crard_id:
+ *                         type: integer
+ *                         description: ID of the associated CRM card
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -291,9 +341,9 @@ crmPaymentCardRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-crmPaymentCardRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+crmPaymentCardRouter.get('/', ...authenticated, listQuery({ fields: cardFields }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await CrmPaymentCardController.getCrmPaymentCard();
+    const records = await CrmPaymentCardController.getCrmPaymentCard(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -306,6 +356,8 @@ crmPaymentCardRouter.get('/', async (request: Request, response: Response): Prom
  *   get:
  *     tags:
  *       - Crm Payment Card
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve a CRM payment card by ID
  *     description: Endpoint to retrieve a specific CRM payment card by its unique ID.
  *     parameters:
@@ -331,7 +383,15 @@ crmPaymentCardRouter.get('/', async (request: Request, response: Response): Prom
  *                   description: Title of the payment card
  *                 card_number:
  *                   type: string
- *                   description: Payment card number
+ *                   description: Masked payment card number
+ *                   example: "**** **** **** 4242"
+ *                 last4:
+ *                   type: string
+ *                   description: Last four digits of the card number
+ *                 brand:
+ *                   type: string
+ *                   description: Card brand detected from the number
+ *                   example: "visa"
  *                 date_end:
  *                   type: string
  *                   format: date
@@ -360,7 +420,7 @@ crmPaymentCardRouter.get('/', async (request: Request, response: Response): Prom
  *                   type: string
  *                   example: "Internal server error"
  */
-crmPaymentCardRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+crmPaymentCardRouter.get('/:id', ...ownerOf(crmPaymentCardOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await CrmPaymentCardController.getCrmPaymentCardById(Number(id));
@@ -379,6 +439,8 @@ crmPaymentCardRouter.get('/:id', async (request: Request, response: Response): P
  *   delete:
  *     tags:
  *       - Crm Payment Card
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a CRM payment card by ID
  *     description: Endpoint to delete a specific CRM payment card by its unique ID.
  *     parameters:
@@ -420,7 +482,7 @@ crmPaymentCardRouter.get('/:id', async (request: Request, response: Response): P
  *                   type: string
  *                   example: "Internal server error"
  */
-crmPaymentCardRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+crmPaymentCardRouter.delete('/:id', ...ownerOf(crmPaymentCardOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await CrmPaymentCardController.deleteCrmPaymentCard(Number(id));
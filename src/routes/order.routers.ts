@@ -1,6 +1,11 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as OrderController from '../controller/order.controller';
+import { adminOnly, authenticated, managerOrAdmin, orderOwner, ownerOf, ownerScope, param } from '../middleware/access.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+import { OrderAction } from '../utils/orderWorkflow';
+import { listQuery } from '../middleware/list.middleware';
 
 export const orderRouter = express.Router();
 
@@ -10,8 +15,10 @@ export const orderRouter = express.Router();
  *   post:
  *     tags:
  *       - Order
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new order
- *     description: Endpoint to create a new order in the system.
+ *     description: Endpoint for staff to create an order as is, without pricing or stock reservations. Customers place orders through /order/checkout.
  *     requestBody:
  *       required: true
  *       content:
@@ -37,6 +44,10 @@ export const orderRouter = express.Router();
  *                 type: integer
  *                 description: ID of the user who placed the order
  *                 example: 123
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *                 example: "Paid by bank transfer"
  *             required:
  *               - total_amount
  *               - order_status_id
@@ -105,19 +116,20 @@ export const orderRouter = express.Router();
  *                   example: "Internal server error"
  */
 orderRouter.post('/',
+  ...managerOrAdmin,
   body('total_amount').notEmpty().isFloat(),
   body('order_status_id').notEmpty().isInt(),
   body('order_date').notEmpty().isISO8601().toDate(),
   body('user_id').notEmpty().isInt(),
+  body('comment').optional().isString(),
   async (request: Request, response: Response): Promise<any> => {
-    console.log('SIGNUP', request.body);
     const errors = validationResult(request);
     if (!errors.isEmpty()) {
       return response.status(400).json({ errors: errors.array() });
     }
     try {
-      const data = request.body;
-      const record = await OrderController.createOrder(data);
+      const { comment, refunded_amount, ...data } = request.body;
+      const record = await OrderController.createOrder(data, { actorId: request.access!.user_id, comment });
       return response.status(201).json(record);
     } catch (error: any) {
       return response.status(500).json({ message: error.message });
@@ -125,12 +137,106 @@ orderRouter.post('/',
   }
 );
 
+/**
+ * @swagger
+ * /order/checkout:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Checkout a list of books
+ *     description: Creates an order for the current user in one transaction. Prices are taken from the books, the total is computed by the server after the running promotions and the coupon, and the books are reserved until the order is paid. Unpaid orders are canceled when the reservation expires. The whole order is rejected if any book is out of stock or the coupon cannot be used.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     bookId:
+ *                       type: integer
+ *                       description: ID of the book
+ *                       example: 1
+ *                     quantity:
+ *                       type: integer
+ *                       description: Number of copies
+ *                       example: 2
+ *                   required:
+ *                     - bookId
+ *                     - quantity
+ *               coupon_code:
+ *                 type: string
+ *                 description: Code of a coupon promotion
+ *                 example: SPRING10
+ *             required:
+ *               - items
+ *     responses:
+ *       201:
+ *         description: The order was successfully created with its items and the discounts applied to them
+ *       400:
+ *         description: Validation errors
+ *       403:
+ *         description: Main email is not verified
+ *       404:
+ *         description: Book or coupon not found
+ *       409:
+ *         description: Not enough books in stock, or the coupon cannot be used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Not enough books in stock"
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       bookId:
+ *                         type: integer
+ *                       requested:
+ *                         type: integer
+ *                       available:
+ *                         type: integer
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/checkout',
+  ...authenticated,
+  body('items').isArray({ min: 1 }),
+  body('items.*.bookId').notEmpty().isInt().toInt(),
+  body('items.*.quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  body('coupon_code').optional({ values: 'null' }).isString().trim().notEmpty(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await OrderController.checkout(request.access!.user_id, request.body.items, request.body.coupon_code);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
 /**
  * @swagger
  * /order/{id}:
  *   put:
  *     tags:
  *       - Order
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing order
  *     description: Endpoint to update an order in the system by its unique ID.
  *     parameters:
@@ -165,6 +271,10 @@ orderRouter.post('/',
  *                 type: integer
  *                 description: ID of the user who placed the order
  *                 example: 123
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *                 example: "Paid by bank transfer"
  *             required:
  *               - total_amount
  *               - order_status_id
@@ -231,6 +341,16 @@ orderRouter.post('/',
  *                 message:
  *                   type: string
  *                   example: "CRM card not found"
+ *       409:
+ *         description: The order status cannot move to the requested status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Order cannot move from \"Canceled\" to \"Done\""
  *       500:
  *         description: Internal server error
  *         content:
@@ -243,10 +363,12 @@ orderRouter.post('/',
  *                   example: "Internal server error"
  */
 orderRouter.put('/:id',
+    ...managerOrAdmin,
     body('total_amount').notEmpty().isFloat(),
     body('order_status_id').notEmpty().isInt(),
     body('order_date').notEmpty().isISO8601().toDate(),
     body('user_id').notEmpty().isInt(),
+    body('comment').optional().isString(),
     async (request: Request, response: Response): Promise<any> => {
       const errors = validationResult(request);
       if (!errors.isEmpty()) {
@@ -254,8 +376,8 @@ orderRouter.put('/:id',
       }
       try {
         const { id } = request.params;
-        const data = request.body;
-        const updatedRecord = await OrderController.updateOrder(Number(id), data);
+        const { comment, refunded_amount, ...data } = request.body;
+        const updatedRecord = await OrderController.updateOrder(Number(id), data, { actorId: request.access!.user_id, comment });
   
         if (!updatedRecord) {
           return response.status(404).json({ message: 'CRM card not found' });
@@ -263,11 +385,203 @@ orderRouter.put('/:id',
   
         return response.status(200).json(updatedRecord);
       } catch (error: any) {
-        return response.status(500).json({ message: error.message });
+        return response.status(errorStatus(error)).json(errorBody(error));
       }
     }
   );
 
+const transitionHandler = (action: OrderAction) => async (request: Request, response: Response): Promise<any> => {
+  try {
+    const { id } = request.params;
+    const record = await OrderController.transitionOrder(Number(id), action, { actorId: request.access!.user_id, comment: request.body?.comment });
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+};
+
+/**
+ * @swagger
+ * /order/{id}/pay:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Mark an order as paid
+ *     description: Allowed only while the order is awaiting payment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *     responses:
+ *       200:
+ *         description: The order with its new status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed from the current status
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/:id/pay', ...managerOrAdmin, transitionHandler('pay'));
+
+/**
+ * @swagger
+ * /order/{id}/confirm:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Confirm a paid order
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *     responses:
+ *       200:
+ *         description: The order with its new status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed from the current status
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/:id/confirm', ...managerOrAdmin, transitionHandler('confirm'));
+
+/**
+ * @swagger
+ * /order/{id}/perform:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Mark a confirmed order as being performed
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *     responses:
+ *       200:
+ *         description: The order with its new status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed from the current status
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/:id/perform', ...managerOrAdmin, transitionHandler('perform'));
+
+/**
+ * @swagger
+ * /order/{id}/complete:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Mark a performed order as done
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *     responses:
+ *       200:
+ *         description: The order with its new status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed from the current status
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/:id/complete', ...managerOrAdmin, transitionHandler('complete'));
+
+/**
+ * @swagger
+ * /order/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Cancel an order
+ *     description: Allowed to the owner and to staff until the order is performed, once any payment of the order is voided or fully refunded. The ordered books are returned to stock.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional comment stored in the status history
+ *     responses:
+ *       200:
+ *         description: The order with its new status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed from the current status, or the payment of the order still holds money and must be voided or refunded first
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.post('/:id/cancel', ...ownerOf(orderOwner(param('id'))), transitionHandler('cancel'));
+
 
 /**
  * @swagger
@@ -275,40 +589,55 @@ orderRouter.put('/:id',
  *   get:
  *     tags:
  *       - Order
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get all orders
  *     description: Endpoint to retrieve a list of all orders in the system.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: List of orders retrieved successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the order
- *                     example: 1
- *                   total_amount:
- *                     type: number
- *                     format: float
- *                     description: Total amount of the order
- *                     example: 100.5
- *                   order_status_id:
- *                     type: integer
- *                     description: ID of the associated order status
- *                     example: 1
- *                   order_date:
- *                     type: string
- *                     format: date-time
- *                     description: The date when the order was placed
- *                     example: "2024-11-18T10:30:00Z"
- *                   user_id:
- *                     type: integer
- *                     description: ID of the user who placed the order
- *                     example: 123
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the order
+ *                         example: 1
+ *                       total_amount:
+ *                         type: number
+ *                         format: float
+ *                         description: Total amount of the order
+ *                         example: 100.5
+ *                       order_status_id:
+ *                         type: integer
+ *                         description: ID of the associated order status
+ *                         example: 1
+ *                       order_date:
+ *                         type: string
+ *                         format: date-time
+ *                         description: The date when the order was placed
+ *                         example: "2024-11-18T10:30:00Z"
+ *                       user_id:
+ *                         type: integer
+ *                         description: ID of the user who placed the order
+ *                         example: 123
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -320,9 +649,9 @@ orderRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-orderRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+orderRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.OrderScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await OrderController.getOrder();
+    const records = await OrderController.getOrder(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -335,6 +664,8 @@ orderRouter.get('/', async (request: Request, response: Response): Promise<any>
  *   get:
  *     tags:
  *       - Order
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get order by ID
  *     description: Endpoint to retrieve a specific order by its unique ID.
  *     parameters:
@@ -356,11 +687,31 @@ orderRouter.get('/', async (request: Request, response: Response): Promise<any>
  *                   type: integer
  *                   description: Unique ID of the order
  *                   example: 1
+ *                 subtotal_amount:
+ *                   type: number
+ *                   format: float
+ *                   description: Amount of the order before discounts
+ *                   example: 110.5
+ *                 discount_amount:
+ *                   type: number
+ *                   format: float
+ *                   description: Sum of the discounts applied to the order
+ *                   example: 10
  *                 total_amount:
  *                   type: number
  *                   format: float
  *                   description: Total amount of the order
  *                   example: 100.5
+ *                 refunded_amount:
+ *                   type: number
+ *                   format: float
+ *                   description: Sum of all refunds of the order
+ *                   example: 20
+ *                 net_total:
+ *                   type: number
+ *                   format: float
+ *                   description: Total amount minus refunds
+ *                   example: 80.5
  *                 order_status_id:
  *                   type: integer
  *                   description: ID of the associated order status
@@ -395,7 +746,7 @@ orderRouter.get('/', async (request: Request, response: Response): Promise<any>
  *                   type: string
  *                   example: "Internal server error"
  */
-orderRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+orderRouter.get('/:id', ...ownerOf(orderOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await OrderController.getOrderById(Number(id));
@@ -414,6 +765,8 @@ orderRouter.get('/:id', async (request: Request, response: Response): Promise<an
  *   delete:
  *     tags:
  *       - Order
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete order by ID
  *     description: Endpoint to delete a specific order by its unique ID.
  *     parameters:
@@ -455,7 +808,7 @@ orderRouter.get('/:id', async (request: Request, response: Response): Promise<an
  *                   type: string
  *                   example: "Internal server error"
  */
-orderRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+orderRouter.delete('/:id', ...adminOnly, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await OrderController.deleteOrder(Number(id));
@@ -468,4 +821,63 @@ orderRouter.delete('/:id', async (request: Request, response: Response): Promise
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
   }
-});
\ No newline at end of file
+});
+
+/**
+ * @swagger
+ * /order/{id}/history:
+ *   get:
+ *     tags:
+ *       - Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Get the status history of an order
+ *     description: Every status change of the order with the old and new status, the user who made it and an optional comment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Status changes ordered from oldest to newest
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: integer
+ *                   order_id:
+ *                     type: integer
+ *                   old_status_id:
+ *                     type: integer
+ *                     nullable: true
+ *                   new_status_id:
+ *                     type: integer
+ *                   actor_id:
+ *                     type: integer
+ *                     nullable: true
+ *                   comment:
+ *                     type: string
+ *                     nullable: true
+ *                   created_at:
+ *                     type: string
+ *                     format: date-time
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Internal server error
+ */
+orderRouter.get('/:id/history', ...ownerOf(orderOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const { id } = request.params;
+    const records = await OrderController.getOrderHistory(Number(id));
+    return response.status(200).json(records);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as OrderItemController from '../controller/orderItem.controller';
+import { authenticated, managerOrAdmin, orderItemOwner, ownerOf, ownerScope, param } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const orderItemRouter = express.Router();
 
@@ -10,8 +13,10 @@ export const orderItemRouter = express.Router();
  *   post:
  *     tags:
  *       - OrderItem
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new order item
- *     description: Endpoint to create a new order item in the system.
+ *     description: Endpoint for staff to add an item to an order as is, at the given price. Customers add books through /order/checkout or the cart.
  *     requestBody:
  *       required: true
  *       content:
@@ -103,6 +108,7 @@ export const orderItemRouter = express.Router();
  *                   example: "Internal server error"
  */
 orderItemRouter.post('/',
+  ...managerOrAdmin,
   body('quantity').notEmpty().isInt(),
   body('price').notEmpty().isFloat(),
   body('orderId').notEmpty().isInt(),
@@ -129,6 +135,8 @@ orderItemRouter.post('/',
  *   put:
  *     tags:
  *       - OrderItem
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update order item by ID
  *     description: Endpoint to update an existing order item by its unique ID.
  *     parameters:
@@ -239,6 +247,7 @@ orderItemRouter.post('/',
  *                   example: "Internal server error"
  */
 orderItemRouter.put('/:id',
+    ...managerOrAdmin,
     body('quantity').notEmpty().isInt(),
     body('price').notEmpty().isFloat(),
     body('orderId').notEmpty().isInt(),
@@ -270,39 +279,54 @@ orderItemRouter.put('/:id',
  *   get:
  *     tags:
  *       - OrderItem
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get all order items
  *     description: Endpoint to retrieve a list of all order items.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of all order items
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the order item
- *                     example: 1
- *                   quantity:
- *                     type: integer
- *                     description: Quantity of the ordered item
- *                     example: 3
- *                   price:
- *                     type: number
- *                     format: float
- *                     description: Price of the ordered item
- *                     example: 20.5
- *                   orderId:
- *                     type: integer
- *                     description: ID of the associated order
- *                     example: 1
- *                   bookId:
- *                     type: integer
- *                     description: ID of the book being ordered
- *                     example: 5
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the order item
+ *                         example: 1
+ *                       quantity:
+ *                         type: integer
+ *                         description: Quantity of the ordered item
+ *                         example: 3
+ *                       price:
+ *                         type: number
+ *                         format: float
+ *                         description: Price of the ordered item
+ *                         example: 20.5
+ *                       orderId:
+ *                         type: integer
+ *                         description: ID of the associated order
+ *                         example: 1
+ *                       bookId:
+ *                         type: integer
+ *                         description: ID of the book being ordered
+ *                         example: 5
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -314,9 +338,9 @@ orderItemRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-orderItemRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+orderItemRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.OrderItemScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await OrderItemController.getOrderItem();
+    const records = await OrderItemController.getOrderItem(request.list!, ownerScope(request));
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -329,6 +353,8 @@ orderItemRouter.get('/', async (request: Request, response: Response): Promise<a
  *   get:
  *     tags:
  *       - OrderItem
+ *     security:
+ *       - bearerAuth: []
  *     summary: Get a specific order item by ID
  *     description: Endpoint to retrieve a specific order item by its ID.
  *     parameters:
@@ -389,7 +415,7 @@ orderItemRouter.get('/', async (request: Request, response: Response): Promise<a
  *                   type: string
  *                   example: "Internal server error"
  */
-orderItemRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+orderItemRouter.get('/:id', ...ownerOf(orderItemOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await OrderItemController.getOrderItemById(Number(id));
@@ -408,6 +434,8 @@ orderItemRouter.get('/:id', async (request: Request, response: Response): Promis
  *   delete:
  *     tags:
  *       - OrderItem
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a specific order item by ID
  *     description: Endpoint to delete a specific order item by its ID.
  *     parameters:
@@ -450,7 +478,7 @@ orderItemRouter.get('/:id', async (request: Request, response: Response): Promis
  *                   type: string
  *                   example: "Internal server error"
  */
-orderItemRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+orderItemRouter.delete('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await OrderItemController.deleteOrderItem(Number(id));
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as OrderStatusController from '../controller/orderStatus.controller';
+import { adminOnly } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const orderStatusRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const orderStatusRouter = express.Router();
  *   post:
  *     tags:
  *       - OrderStatus
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new order status
  *     description: Endpoint to create a new order status record in the system.
  *     requestBody:
@@ -121,6 +126,7 @@ export const orderStatusRouter = express.Router();
  *                   example: "Internal server error"
  */
 orderStatusRouter.post('/',
+  ...adminOnly,
   body('title').notEmpty().isString(),
   body('is_done').notEmpty().isBoolean(),
   body('is_awaiting_payment').notEmpty().isBoolean(),
@@ -150,6 +156,8 @@ orderStatusRouter.post('/',
  *   put:
  *     tags:
  *       - OrderStatus
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing order status by ID
  *     description: Endpoint to update the details of an existing order status by its unique ID.
  *     parameters:
@@ -279,6 +287,7 @@ orderStatusRouter.post('/',
  */
 
 orderStatusRouter.put('/:id',
+    ...adminOnly,
     body('title').notEmpty().isString(),
     body('is_done').notEmpty().isBoolean(),
     body('is_awaiting_payment').notEmpty().isBoolean(),
@@ -316,48 +325,61 @@ orderStatusRouter.put('/:id',
  *       - OrderStatus
  *     summary: Get all order statuses
  *     description: Endpoint to retrieve a list of all order statuses.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of all order statuses
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the order status
- *                     example: 1
- *                   title:
- *                     type: string
- *                     description: Title of the order status
- *                     example: "Pending"
- *                   is_done:
- *                     type: boolean
- *                     description: Whether the order is marked as done
- *                     example: false
- *                   is_awaiting_payment:
- *                     type: boolean
- *                     description: Whether the order is awaiting payment
- *                     example: true
- *                   is_paid:
- *                     type: boolean
- *                     description: Whether the order is paid
- *                     example: false
- *                   is_confirmed:
- *                     type: boolean
- *                     description: Whether the order is confirmed
- *                     example: false
- *                   is_performed:
- *                     type: boolean
- *                     description: Whether the order is performed
- *                     example: false
- *                   is_canceled:
- *                     type: boolean
- *                     description: Whether the order is canceled
- *                     example: false
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the order status
+ *                         example: 1
+ *                       title:
+ *                         type: string
+ *                         description: Title of the order status
+ *                         example: "Pending"
+ *                       is_done:
+ *                         type: boolean
+ *                         description: Whether the order is marked as done
+ *                         example: false
+ *                       is_awaiting_payment:
+ *                         type: boolean
+ *                         description: Whether the order is awaiting payment
+ *                         example: true
+ *                       is_paid:
+ *                         type: boolean
+ *                         description: Whether the order is paid
+ *                         example: false
+ *                       is_confirmed:
+ *                         type: boolean
+ *                         description: Whether the order is confirmed
+ *                         example: false
+ *                       is_performed:
+ *                         type: boolean
+ *                         description: Whether the order is performed
+ *                         example: false
+ *                       is_canceled:
+ *                         type: boolean
+ *                         description: Whether the order is canceled
+ *                         example: false
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -369,9 +391,9 @@ orderStatusRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-orderStatusRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+orderStatusRouter.get('/', listQuery({ fields: Object.values(Prisma.OrderStatusScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await OrderStatusController.getOrderStatus();
+    const records = await OrderStatusController.getOrderStatus(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -474,6 +496,8 @@ orderStatusRouter.get('/:id', async (request: Request, response: Response): Prom
  *   delete:
  *     tags:
  *       - OrderStatus
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete an order status by ID
  *     description: Endpoint to delete a specific order status by its unique ID.
  *     parameters:
@@ -515,7 +539,7 @@ orderStatusRouter.get('/:id', async (request: Request, response: Response): Prom
  *                   type: string
  *                   example: "Internal server error"
  */
-orderStatusRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+orderStatusRouter.delete('/:id', ...adminOnly, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await OrderStatusController.deleteOrderStatus(Number(id));
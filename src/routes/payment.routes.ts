@@ -0,0 +1,452 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, header, validationResult } from 'express-validator';
+import * as PaymentController from '../controller/payment.controller';
+import { authenticated, crmPaymentCardOwner, field, managerOrAdmin, orderOwner, ownerOf, ownerScope, param, paymentOwner } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const paymentRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Payment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         order_id:
+ *           type: integer
+ *         crm_payment_card_id:
+ *           type: integer
+ *           nullable: true
+ *         provider:
+ *           type: string
+ *           example: "mock"
+ *         reference:
+ *           type: string
+ *           nullable: true
+ *           description: Id of the payment at the provider
+ *         amount:
+ *           type: number
+ *           format: float
+ *         refunded_amount:
+ *           type: number
+ *           format: float
+ *         currency:
+ *           type: string
+ *           example: "UAH"
+ *         status:
+ *           type: string
+ *           enum: [pending, authorized, captured, declined, voided, partially_refunded, refunded]
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           description: Last error reported by the provider
+ *         idempotency_key:
+ *           type: string
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /payment:
+ *   post:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Pay for an order with a stored payment card
+ *     description: Authorizes and captures the order total on the card. A captured payment moves the order into the paid status. Repeating the request with the same Idempotency-Key returns the first payment instead of charging again.
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Unique key of the payment attempt, generated by the client
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               order_id:
+ *                 type: integer
+ *                 example: 1
+ *               crm_payment_card_id:
+ *                 type: integer
+ *                 example: 1
+ *             required:
+ *               - order_id
+ *               - crm_payment_card_id
+ *     responses:
+ *       200:
+ *         description: The payment of an earlier request with the same Idempotency-Key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       201:
+ *         description: The payment was captured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       202:
+ *         description: The provider did not answer yet, the payment is settled by a webhook
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: Validation errors or an expired card
+ *       402:
+ *         description: The payment was declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Order or payment card not found
+ *       409:
+ *         description: The order is not awaiting payment or already has a payment in progress
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.post('/',
+  ...ownerOf(orderOwner(field('order_id')), crmPaymentCardOwner(field('crm_payment_card_id'))),
+  header('Idempotency-Key').notEmpty().isString().isLength({ max: 255 }),
+  body('order_id').notEmpty().isInt().toInt(),
+  body('crm_payment_card_id').notEmpty().isInt().toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { order_id, crm_payment_card_id } = request.body;
+      const { payment, replayed } = await PaymentController.payOrder(
+        order_id,
+        crm_payment_card_id,
+        request.header('Idempotency-Key') as string,
+        request.access!.user_id,
+      );
+
+      if (replayed) {
+        return response.status(200).json(payment);
+      }
+      if (payment.status === 'declined') {
+        return response.status(402).json(payment);
+      }
+      return response.status(payment.status === 'captured' ? 201 : 202).json(payment);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /payment/webhook/{provider}:
+ *   post:
+ *     tags:
+ *       - Payment
+ *     summary: Payment provider callback
+ *     description: Receives payment events from the provider. The signature is checked by the provider implementation, repeated events are ignored.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "mock"
+ *       - in: header
+ *         name: X-Payment-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signature of the event, for the mock provider an HMAC-SHA256 of the raw JSON body
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 description: Unique id of the event at the provider
+ *               type:
+ *                 type: string
+ *                 enum: [payment.captured, payment.declined, payment.voided, payment.refunded]
+ *               payment_id:
+ *                 type: integer
+ *               reference:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 format: float
+ *                 description: Total refunded amount for refund events
+ *               message:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The event was processed or had been processed before
+ *       400:
+ *         description: Invalid event
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown provider or payment
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.post('/webhook/:provider', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const result = await PaymentController.handleWebhook(
+      String(request.params.provider),
+      request.header('X-Payment-Signature'),
+      Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0),
+    );
+    return response.status(200).json(result);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /payment:
+ *   get:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve payments
+ *     description: Staff see every payment, other users the payments of their own orders.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of payments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Payment'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.PaymentScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const records = await PaymentController.getPayment(request.list!, ownerScope(request));
+    return response.status(200).json(records);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /payment/{id}:
+ *   get:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a payment by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The payment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Payment not found
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.get('/:id', ...ownerOf(paymentOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PaymentController.getPaymentById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Payment not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /payment/{id}/capture:
+ *   post:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Capture an authorized payment
+ *     description: Retries the capture of a payment whose capture failed or timed out.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The payment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: The payment is not authorized
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.post('/:id/capture', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PaymentController.capturePayment(Number(request.params.id), request.access!.user_id);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /payment/{id}/void:
+ *   post:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Void an authorized payment
+ *     description: Releases an authorization that was not captured.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The voided payment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: The payment is not authorized
+ *       502:
+ *         description: The provider rejected the request
+ *       504:
+ *         description: The provider did not answer in time
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.post('/:id/void', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PaymentController.voidPayment(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /payment/{id}/refund:
+ *   post:
+ *     tags:
+ *       - Payment
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Refund a captured payment
+ *     description: Refunds the given amount, or everything not refunded yet when no amount is sent.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 format: float
+ *                 example: 10.5
+ *     responses:
+ *       200:
+ *         description: The refunded payment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Payment'
+ *       400:
+ *         description: Validation errors or an amount above what can be refunded
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: The payment is not captured
+ *       502:
+ *         description: The provider rejected the request
+ *       504:
+ *         description: The provider did not answer in time
+ *       500:
+ *         description: Internal server error
+ */
+paymentRouter.post('/:id/refund',
+  ...managerOrAdmin,
+  body('amount').optional().isFloat({ gt: 0 }).toFloat(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await PaymentController.refundPayment(Number(request.params.id), request.body?.amount);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
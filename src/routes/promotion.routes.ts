@@ -0,0 +1,515 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, matchedData, query, validationResult } from 'express-validator';
+import * as PromotionController from '../controller/promotion.controller';
+import { authenticated, managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const promotionRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Promotion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         code:
+ *           type: string
+ *           nullable: true
+ *           description: Coupon code, stored in upper case. Promotions without a code apply automatically
+ *         discount_type:
+ *           type: string
+ *           enum: [percentage, fixed]
+ *         value:
+ *           type: number
+ *           format: float
+ *           description: Percent off, or the amount off
+ *         scope:
+ *           type: string
+ *           enum: [order, category, publisher, author]
+ *           description: What the discount applies to, the whole order or the books of one category, publisher or author
+ *         scope_id:
+ *           type: integer
+ *           nullable: true
+ *           description: ID of the category, publisher or author
+ *         min_order_total:
+ *           type: number
+ *           format: float
+ *           nullable: true
+ *           description: Order subtotal needed before the promotion applies
+ *         usage_limit:
+ *           type: integer
+ *           nullable: true
+ *         usage_limit_per_user:
+ *           type: integer
+ *           nullable: true
+ *         usage_count:
+ *           type: integer
+ *           description: Orders the promotion is applied to, canceled orders excluded
+ *         starts_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         ends_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         active:
+ *           type: boolean
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     PromotionInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Spring sale"
+ *         code:
+ *           type: string
+ *           nullable: true
+ *           example: "SPRING10"
+ *         discount_type:
+ *           type: string
+ *           enum: [percentage, fixed]
+ *         value:
+ *           type: number
+ *           format: float
+ *           example: 10
+ *         scope:
+ *           type: string
+ *           enum: [order, category, publisher, author]
+ *           default: order
+ *         scope_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Required unless the scope is order
+ *         min_order_total:
+ *           type: number
+ *           format: float
+ *           nullable: true
+ *         usage_limit:
+ *           type: integer
+ *           nullable: true
+ *         usage_limit_per_user:
+ *           type: integer
+ *           nullable: true
+ *         starts_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         ends_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         active:
+ *           type: boolean
+ *           default: true
+ *       required:
+ *         - name
+ *         - discount_type
+ *         - value
+ *     Pricing:
+ *       type: object
+ *       properties:
+ *         subtotal_amount:
+ *           type: number
+ *           format: float
+ *         discount_amount:
+ *           type: number
+ *           format: float
+ *         total_amount:
+ *           type: number
+ *           format: float
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               bookId:
+ *                 type: integer
+ *               quantity:
+ *                 type: integer
+ *               price:
+ *                 type: number
+ *                 format: float
+ *               subtotal:
+ *                 type: number
+ *                 format: float
+ *               discount_amount:
+ *                 type: number
+ *                 format: float
+ *               discounts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     promotion_id:
+ *                       type: integer
+ *                     amount:
+ *                       type: number
+ *                       format: float
+ *         promotions:
+ *           type: array
+ *           description: The promotions applied and the amount each took off
+ *           items:
+ *             type: object
+ *             properties:
+ *               promotion_id:
+ *                 type: integer
+ *               name:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 nullable: true
+ *               amount:
+ *                 type: number
+ *                 format: float
+ */
+
+const promotionRules = () => [
+  body('name').notEmpty().isString().isLength({ max: 200 }),
+  body('code').optional({ values: 'null' }).isString().trim().isLength({ min: 3, max: 50 }).matches(/^[A-Za-z0-9_-]+$/).withMessage('Letters, digits, - and _ only'),
+  body('discount_type').notEmpty().isIn(PromotionController.discountTypes),
+  body('value').notEmpty().isFloat({ gt: 0 }).toFloat()
+    .custom((value, { req }) => req.body.discount_type !== 'percentage' || value <= 100).withMessage('A percentage is at most 100'),
+  body('scope').optional().isIn(PromotionController.promotionScopes),
+  body('scope_id')
+    .if((value, { req }) => req.body.scope && req.body.scope !== 'order')
+    .notEmpty().withMessage('Required for a scoped promotion').isInt({ min: 1 }).toInt(),
+  body('min_order_total').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body(['usage_limit', 'usage_limit_per_user']).optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body(['starts_at', 'ends_at']).optional({ values: 'null' }).isISO8601().toDate(),
+  body('ends_at')
+    .custom((value, { req }) => !value || !req.body.starts_at || value > req.body.starts_at).withMessage('Must be after starts_at'),
+  body('active').optional().isBoolean().toBoolean(),
+];
+
+const promotionInput = (request: Request): PromotionController.PromotionInput => {
+  const { name, code, discount_type, value, scope, scope_id, min_order_total, usage_limit, usage_limit_per_user, starts_at, ends_at, active } = request.body;
+  return { name, code, discount_type, value, scope, scope_id, min_order_total, usage_limit, usage_limit_per_user, starts_at, ends_at, active };
+}
+
+/**
+ * @swagger
+ * /promotion/quote:
+ *   post:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Price a list of books with the promotions
+ *     description: Applies the running promotions and the coupon to the books the way checkout would, without placing an order or counting any use.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     bookId:
+ *                       type: integer
+ *                       example: 1
+ *                     quantity:
+ *                       type: integer
+ *                       example: 2
+ *                   required:
+ *                     - bookId
+ *                     - quantity
+ *               coupon_code:
+ *                 type: string
+ *                 example: SPRING10
+ *             required:
+ *               - items
+ *     responses:
+ *       200:
+ *         description: The prices and the discounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Pricing'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book or coupon not found
+ *       409:
+ *         description: The coupon cannot be used
+ *       500:
+ *         description: Internal server error
+ */
+promotionRouter.post('/quote',
+  ...authenticated,
+  body('items').isArray({ min: 1 }),
+  body('items.*.bookId').notEmpty().isInt().toInt(),
+  body('items.*.quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  body('coupon_code').optional({ values: 'null' }).isString().trim().notEmpty(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await PromotionController.quotePromotions(request.access!.user_id, request.body.items, request.body.coupon_code);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /promotion:
+ *   post:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Create a promotion or coupon
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromotionInput'
+ *     responses:
+ *       201:
+ *         description: The created promotion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Promotion'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Category, publisher or author of the scope not found
+ *       409:
+ *         description: The code is taken
+ *       500:
+ *         description: Internal server error
+ */
+promotionRouter.post('/',
+  ...managerOrAdmin,
+  ...promotionRules(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await PromotionController.createPromotion(promotionInput(request));
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /promotion:
+ *   get:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve promotions
+ *     parameters:
+ *     - in: query
+ *       name: active
+ *       schema:
+ *         type: boolean
+ *     - in: query
+ *       name: code
+ *       schema:
+ *         type: string
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of promotions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Promotion'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+promotionRouter.get('/',
+  ...managerOrAdmin,
+  query('active').optional().isBoolean().toBoolean(),
+  query('code').optional().isString(),
+  listQuery({ fields: Object.values(Prisma.PromotionScalarFieldEnum), defaultSort: '-id' }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const filters = matchedData<PromotionController.PromotionFilters>(request, { locations: ['query'] });
+      const records = await PromotionController.getPromotion(request.list!, filters);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /promotion/{id}:
+ *   get:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a promotion by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The promotion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Promotion'
+ *       404:
+ *         description: Promotion not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Update a promotion
+ *     description: Changes apply to later checkouts, orders already placed keep their discounts.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromotionInput'
+ *     responses:
+ *       200:
+ *         description: The updated promotion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Promotion'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Promotion, or the category, publisher or author of the scope not found
+ *       409:
+ *         description: The code is taken
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags:
+ *       - Promotion
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Delete a promotion
+ *     description: Only promotions never applied to an order can be deleted, deactivate the others.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The deleted promotion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Promotion'
+ *       404:
+ *         description: Promotion not found
+ *       409:
+ *         description: The promotion was applied to orders
+ *       500:
+ *         description: Internal server error
+ */
+promotionRouter.get('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PromotionController.getPromotionById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Promotion not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+promotionRouter.put('/:id',
+  ...managerOrAdmin,
+  ...promotionRules(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await PromotionController.updatePromotion(Number(request.params.id), promotionInput(request));
+      if (!record) {
+        return response.status(404).json({ message: 'Promotion not found' });
+      }
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+promotionRouter.delete('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PromotionController.deletePromotion(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Promotion not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
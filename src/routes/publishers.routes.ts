@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as PublishersController from '../controller/publishers.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const publishersRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const publishersRouter = express.Router();
  *   post:
  *     tags:
  *       - Publishers
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new publisher
  *     description: Endpoint to create a new publisher with name, address, and contact information.
  *     requestBody:
@@ -92,6 +97,7 @@ export const publishersRouter = express.Router();
  *                   example: "Internal server error"
  */
 publishersRouter.post('/',
+  ...managerOrAdmin,
   body('name').notEmpty().isString(),
   body('address').notEmpty().isString(),
   body('contact').notEmpty().isString(),
@@ -117,6 +123,8 @@ publishersRouter.post('/',
  *   put:
  *     tags:
  *       - Publishers
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing publisher
  *     description: Endpoint to update the details of an existing publisher by ID.
  *     parameters:
@@ -217,6 +225,7 @@ publishersRouter.post('/',
  *                   example: "Internal server error"
  */
 publishersRouter.put('/:id',
+    ...managerOrAdmin,
     body('name').notEmpty().isString(),
     body('address').notEmpty().isString(),
     body('contact').notEmpty().isString(),
@@ -249,32 +258,45 @@ publishersRouter.put('/:id',
  *       - Publishers
  *     summary: Get all publishers
  *     description: Endpoint to retrieve a list of all publishers.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: List of publishers
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: Unique ID of the publisher
- *                     example: 1
- *                   name:
- *                     type: string
- *                     description: Name of the publisher
- *                     example: "Penguin Books"
- *                   address:
- *                     type: string
- *                     description: Address of the publisher
- *                     example: "123 Publishing St, New York, NY 10001"
- *                   contact:
- *                     type: string
- *                     description: Contact information for the publisher
- *                     example: "+1-800-123-4567"
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: Unique ID of the publisher
+ *                         example: 1
+ *                       name:
+ *                         type: string
+ *                         description: Name of the publisher
+ *                         example: "Penguin Books"
+ *                       address:
+ *                         type: string
+ *                         description: Address of the publisher
+ *                         example: "123 Publishing St, New York, NY 10001"
+ *                       contact:
+ *                         type: string
+ *                         description: Contact information for the publisher
+ *                         example: "+1-800-123-4567"
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -286,9 +308,9 @@ publishersRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-publishersRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+publishersRouter.get('/', listQuery({ fields: Object.values(Prisma.PublishersScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await PublishersController.getPublishers();
+    const records = await PublishersController.getPublishers(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -375,6 +397,8 @@ publishersRouter.get('/:id', async (request: Request, response: Response): Promi
  *   delete:
  *     tags:
  *       - Publishers
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a publisher by ID
  *     description: Endpoint to delete a publisher by their unique ID.
  *     parameters:
@@ -417,7 +441,7 @@ publishersRouter.get('/:id', async (request: Request, response: Response): Promi
  *                   type: string
  *                   example: "Internal server error"
  */
-publishersRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+publishersRouter.delete('/:id', ...managerOrAdmin, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await PublishersController.deletePublishers(Number(id));
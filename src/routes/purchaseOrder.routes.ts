@@ -0,0 +1,467 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, matchedData, query, validationResult } from 'express-validator';
+import * as PurchaseOrderController from '../controller/purchaseOrder.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const purchaseOrderRouter = express.Router();
+
+purchaseOrderRouter.use(...managerOrAdmin);
+
+const purchaseOrderRules = [
+  body('publisher_id').notEmpty().isInt().toInt(),
+  body('expected_at').optional({ values: 'null' }).isISO8601().toDate(),
+  body('comment').optional({ values: 'null' }).isString(),
+  body('lines').isArray({ min: 1 }),
+  body('lines.*.book_id').notEmpty().isInt().toInt(),
+  body('lines.*.quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  body('lines.*.cost_price').notEmpty().isFloat({ min: 0 }).toFloat(),
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PurchaseOrderInput:
+ *       type: object
+ *       properties:
+ *         publisher_id:
+ *           type: integer
+ *           example: 1
+ *         expected_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Expected delivery date
+ *         comment:
+ *           type: string
+ *           nullable: true
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               book_id:
+ *                 type: integer
+ *                 example: 1
+ *               quantity:
+ *                 type: integer
+ *                 example: 20
+ *               cost_price:
+ *                 type: number
+ *                 format: float
+ *                 description: Price we pay the publisher per copy
+ *                 example: 9.5
+ *       required:
+ *         - publisher_id
+ *         - lines
+ *     PurchaseOrder:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         publisher_id:
+ *           type: integer
+ *         publisher:
+ *           type: object
+ *         status:
+ *           type: string
+ *           enum: [draft, ordered, partially_received, received, canceled]
+ *         expected_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         ordered_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         comment:
+ *           type: string
+ *           nullable: true
+ *         created_by_id:
+ *           type: integer
+ *           nullable: true
+ *         total_cost:
+ *           type: number
+ *           format: float
+ *         received_cost:
+ *           type: number
+ *           format: float
+ *         PurchaseOrderLine:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               book_id:
+ *                 type: integer
+ *               book:
+ *                 type: object
+ *               quantity:
+ *                 type: integer
+ *               received_quantity:
+ *                 type: integer
+ *               cost_price:
+ *                 type: number
+ *                 format: float
+ *               margin:
+ *                 type: number
+ *                 format: float
+ *                 description: Current book price minus the cost price
+ *               margin_percent:
+ *                 type: number
+ *                 format: float
+ *                 nullable: true
+ *                 description: Margin as a percentage of the book price
+ */
+
+/**
+ * @swagger
+ * /purchase_order:
+ *   post:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Create a purchase order
+ *     description: Creates a draft purchase order to a publisher.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PurchaseOrderInput'
+ *     responses:
+ *       201:
+ *         description: The created purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Publisher or book not found
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.post('/', ...purchaseOrderRules, async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
+  try {
+    const record = await PurchaseOrderController.createPurchaseOrder(request.body, request.access!.user_id);
+    return response.status(201).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /purchase_order/{id}:
+ *   put:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Update a draft purchase order
+ *     description: Replaces the publisher, dates and lines of a draft.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PurchaseOrderInput'
+ *     responses:
+ *       200:
+ *         description: The updated purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Purchase order, publisher or book not found
+ *       409:
+ *         description: The purchase order is not a draft
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.put('/:id', ...purchaseOrderRules, async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
+  try {
+    const record = await PurchaseOrderController.updatePurchaseOrder(Number(request.params.id), request.body);
+    if (!record) {
+      return response.status(404).json({ message: 'Purchase order not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /purchase_order:
+ *   get:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve purchase orders
+ *     parameters:
+ *     - in: query
+ *       name: publisher_id
+ *       schema:
+ *         type: integer
+ *     - in: query
+ *       name: status
+ *       schema:
+ *         type: string
+ *         enum: [draft, ordered, partially_received, received, canceled]
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of purchase orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.get('/',
+  query('publisher_id').optional().isInt().toInt(),
+  query('status').optional().isIn(['draft', 'ordered', 'partially_received', 'received', 'canceled']),
+  listQuery({ fields: Object.values(Prisma.PurchaseOrderScalarFieldEnum), relations: ['publisher'] }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const filters = matchedData<PurchaseOrderController.PurchaseOrderFilters>(request, { locations: ['query'] });
+      const records = await PurchaseOrderController.getPurchaseOrder(request.list!, filters);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /purchase_order/{id}:
+ *   get:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a purchase order by ID
+ *     description: Returns the order with its lines and the margin of every line against the current book price.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PurchaseOrderController.getPurchaseOrderById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Purchase order not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /purchase_order/{id}/submit:
+ *   post:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Send a draft to the publisher
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The ordered purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: The purchase order is not a draft or has no lines
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.post('/:id/submit', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PurchaseOrderController.submitPurchaseOrder(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /purchase_order/{id}/receive:
+ *   post:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Receive a delivery
+ *     description: Adds the delivered copies to the book stock. A purchase order can be received in several deliveries, each line up to its ordered quantity.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     book_id:
+ *                       type: integer
+ *                       example: 1
+ *                     quantity:
+ *                       type: integer
+ *                       example: 10
+ *             required:
+ *               - lines
+ *     responses:
+ *       200:
+ *         description: The purchase order after the delivery
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: The purchase order is not ordered or the delivery exceeds the ordered quantities
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.post('/:id/receive',
+  body('lines').isArray({ min: 1 }),
+  body('lines.*.book_id').notEmpty().isInt().toInt(),
+  body('lines.*.quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await PurchaseOrderController.receivePurchaseOrder(Number(request.params.id), request.body.lines, request.access!.user_id);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /purchase_order/{id}/cancel:
+ *   post:
+ *     tags:
+ *       - Purchase Order
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Cancel a purchase order
+ *     description: Cancels what was not received yet, received copies stay in stock.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The canceled purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: The purchase order is already received or canceled
+ *       500:
+ *         description: Internal server error
+ */
+purchaseOrderRouter.post('/:id/cancel', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await PurchaseOrderController.cancelPurchaseOrder(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
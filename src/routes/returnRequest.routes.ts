@@ -0,0 +1,341 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import * as ReturnRequestController from '../controller/returnRequest.controller';
+import { authenticated, field, managerOrAdmin, orderOwner, ownerOf, ownerScope, param, returnRequestOwner } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const returnRequestRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReturnRequest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         order_id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *           description: The user who requested the return
+ *         status:
+ *           type: string
+ *           enum: [requested, refund_pending, approved, rejected]
+ *           description: refund_pending is approved and restocked, waiting for the refund at the payment provider
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         comment:
+ *           type: string
+ *           nullable: true
+ *           description: Comment of the staff member who decided the return
+ *         decided_by_id:
+ *           type: integer
+ *           nullable: true
+ *         decided_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         refund_amount:
+ *           type: number
+ *           format: float
+ *           description: Order item prices less their discounts, times the returned quantities
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         ReturnItem:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               order_item_id:
+ *                 type: integer
+ *               quantity:
+ *                 type: integer
+ *               order_item:
+ *                 type: object
+ *         Refund:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               payment_id:
+ *                 type: integer
+ *                 nullable: true
+ *               amount:
+ *                 type: number
+ *                 format: float
+ *               created_at:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /return_request:
+ *   post:
+ *     tags:
+ *       - Return
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Request a return
+ *     description: Requests the return of order items of a completed order. Each item can be returned up to its ordered quantity.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               order_id:
+ *                 type: integer
+ *                 example: 1
+ *               reason:
+ *                 type: string
+ *                 example: "Damaged cover"
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderItemId:
+ *                       type: integer
+ *                       example: 1
+ *                     quantity:
+ *                       type: integer
+ *                       example: 1
+ *             required:
+ *               - order_id
+ *               - items
+ *     responses:
+ *       201:
+ *         description: The return was requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReturnRequest'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Order or order item not found
+ *       409:
+ *         description: The order is not completed or the quantity exceeds what can be returned
+ *       500:
+ *         description: Internal server error
+ */
+returnRequestRouter.post('/',
+  ...ownerOf(orderOwner(field('order_id'))),
+  body('order_id').notEmpty().isInt().toInt(),
+  body('reason').optional().isString(),
+  body('items').isArray({ min: 1 }),
+  body('items.*.orderItemId').notEmpty().isInt().toInt(),
+  body('items.*.quantity').notEmpty().isInt({ min: 1 }).toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { order_id, items, reason } = request.body;
+      const record = await ReturnRequestController.createReturnRequest(request.access!.user_id, order_id, items, reason);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /return_request:
+ *   get:
+ *     tags:
+ *       - Return
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve return requests
+ *     description: Staff see every return request, other users their own.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of return requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReturnRequest'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       500:
+ *         description: Internal server error
+ */
+returnRequestRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.ReturnRequestScalarFieldEnum), relations: ['ReturnItem'] }), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const records = await ReturnRequestController.getReturnRequest(request.list!, ownerScope(request));
+    return response.status(200).json(records);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /return_request/{id}:
+ *   get:
+ *     tags:
+ *       - Return
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a return request by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The return request with its items and refunds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Return request not found
+ *       500:
+ *         description: Internal server error
+ */
+returnRequestRouter.get('/:id', ...ownerOf(returnRequestOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await ReturnRequestController.getReturnRequestById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Return request not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+const decisionHandler = (decide: typeof ReturnRequestController.approveReturnRequest) => async (request: Request, response: Response): Promise<any> => {
+  const errors = validationResult(request);
+  if (!errors.isEmpty()) {
+    return response.status(400).json({ errors: errors.array() });
+  }
+  try {
+    const record = await decide(Number(request.params.id), request.access!.user_id, request.body?.comment);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+}
+
+/**
+ * @swagger
+ * /return_request/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Return
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Approve a return
+ *     description: Refunds the returned items to the captured payment of the order and puts the books back in stock. Orders paid outside of the payment provider get the refund recorded only. The refund lowers the net total of the order. When the payment provider fails, the return stays in refund_pending and approving it again retries the refund. The refund is capped at what is left on the payment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The approved return request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Return request not found
+ *       409:
+ *         description: The return request was already decided
+ *       502:
+ *         description: The payment provider refused the refund, the return stays in refund_pending
+ *       504:
+ *         description: The payment provider did not answer, the return stays in refund_pending
+ *       500:
+ *         description: Internal server error
+ */
+returnRequestRouter.post('/:id/approve',
+  ...managerOrAdmin,
+  body('comment').optional().isString(),
+  decisionHandler(ReturnRequestController.approveReturnRequest),
+);
+
+/**
+ * @swagger
+ * /return_request/{id}/reject:
+ *   post:
+ *     tags:
+ *       - Return
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Reject a return
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The rejected return request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         description: Return request not found
+ *       409:
+ *         description: The return request was already decided
+ *       500:
+ *         description: Internal server error
+ */
+returnRequestRouter.post('/:id/reject',
+  ...managerOrAdmin,
+  body('comment').optional().isString(),
+  decisionHandler(ReturnRequestController.rejectReturnRequest),
+);
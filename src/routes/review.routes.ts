@@ -0,0 +1,412 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, matchedData, query, validationResult } from 'express-validator';
+import * as ReviewController from '../controller/review.controller';
+import { authenticated, managerOrAdmin, ownerOf, ownerScope, param, reviewOwner } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const reviewRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Review:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         book_id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *           description: The reviewer
+ *         rating:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         title:
+ *           type: string
+ *           nullable: true
+ *         body:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [pending, approved, hidden]
+ *           description: Only approved reviews are shown on the book and count towards its rating
+ *         verified_purchase:
+ *           type: boolean
+ *           description: The reviewer has a completed order containing the book
+ *         moderated_by_id:
+ *           type: integer
+ *           nullable: true
+ *         moderated_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     ReviewInput:
+ *       type: object
+ *       properties:
+ *         rating:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *           example: 4
+ *         title:
+ *           type: string
+ *           nullable: true
+ *           example: "A classic for a reason"
+ *         body:
+ *           type: string
+ *           nullable: true
+ *           example: "Beautifully written, if a little short."
+ *       required:
+ *         - rating
+ */
+
+const reviewRules = () => [
+  body('rating').notEmpty().isInt({ min: 1, max: 5 }).toInt(),
+  body('title').optional({ values: 'null' }).isString().isLength({ max: 200 }),
+  body('body').optional({ values: 'null' }).isString().isLength({ max: 10000 }),
+];
+
+/**
+ * @swagger
+ * /review:
+ *   post:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Review a book
+ *     description: Every user can review a book once. The review is shown and counts towards the rating of the book once a manager approves it.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ReviewInput'
+ *               - type: object
+ *                 properties:
+ *                   book_id:
+ *                     type: integer
+ *                     example: 1
+ *                 required:
+ *                   - book_id
+ *     responses:
+ *       201:
+ *         description: The created review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book not found
+ *       409:
+ *         description: The user has already reviewed the book
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.post('/',
+  ...authenticated,
+  body('book_id').notEmpty().isInt().toInt(),
+  ...reviewRules(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { book_id, rating, title, body } = request.body;
+      const record = await ReviewController.createReview(request.access!.user_id, book_id, { rating, title, body });
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /review:
+ *   get:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve reviews
+ *     description: Staff see every review, e.g. the pending ones to moderate, other users their own.
+ *     parameters:
+ *     - in: query
+ *       name: status
+ *       schema:
+ *         type: string
+ *         enum: [pending, approved, hidden]
+ *     - in: query
+ *       name: book_id
+ *       schema:
+ *         type: integer
+ *     - in: query
+ *       name: verified_purchase
+ *       schema:
+ *         type: boolean
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of reviews
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Review'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.get('/',
+  ...authenticated,
+  query('status').optional().isIn(ReviewController.reviewStatuses),
+  query('book_id').optional().isInt().toInt(),
+  query('verified_purchase').optional().isBoolean().toBoolean(),
+  listQuery({ fields: Object.values(Prisma.ReviewScalarFieldEnum), relations: ['book'], defaultSort: '-id' }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const filters = matchedData<ReviewController.ReviewFilters>(request, { locations: ['query'] });
+      const records = await ReviewController.getReview(request.list!, { ...filters, user_id: ownerScope(request) });
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /review/{id}:
+ *   get:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a review by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       404:
+ *         description: Review not found
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.get('/:id', ...ownerOf(reviewOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await ReviewController.getReviewById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Review not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /review/{id}:
+ *   put:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Edit a review
+ *     description: The edited review goes back to moderation and stops counting towards the rating until it is approved again. Authors cannot edit a hidden review.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReviewInput'
+ *     responses:
+ *       200:
+ *         description: The edited review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: The review was hidden by a moderator
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.put('/:id',
+  ...ownerOf(reviewOwner(param('id'))),
+  ...reviewRules(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const { rating, title, body } = request.body;
+      const record = await ReviewController.updateReview(Number(request.params.id), { rating, title, body }, ownerScope(request));
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /review/{id}:
+ *   delete:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Delete a review
+ *     description: Authors cannot delete a hidden review.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The deleted review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: The review was hidden by a moderator
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.delete('/:id', ...ownerOf(reviewOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await ReviewController.deleteReview(Number(request.params.id), ownerScope(request));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+const moderationHandler = (status: 'approved' | 'hidden') => async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await ReviewController.moderateReview(Number(request.params.id), status, request.access!.user_id);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+}
+
+/**
+ * @swagger
+ * /review/{id}/approve:
+ *   post:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Approve a review
+ *     description: Shows the review on the book and counts its rating.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The approved review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       404:
+ *         description: Review not found
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.post('/:id/approve', ...managerOrAdmin, moderationHandler('approved'));
+
+/**
+ * @swagger
+ * /review/{id}/hide:
+ *   post:
+ *     tags:
+ *       - Review
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Hide a review
+ *     description: Removes the review from the book and its rating. It can be approved again later.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The hidden review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       404:
+ *         description: Review not found
+ *       500:
+ *         description: Internal server error
+ */
+reviewRouter.post('/:id/hide', ...managerOrAdmin, moderationHandler('hidden'));
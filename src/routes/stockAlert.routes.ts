@@ -0,0 +1,216 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, matchedData, query, validationResult } from 'express-validator';
+import * as StockAlertController from '../controller/stockAlert.controller';
+import { managerOrAdmin } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const stockAlertRouter = express.Router();
+
+stockAlertRouter.use(...managerOrAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockAlert:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         book_id:
+ *           type: integer
+ *         stock:
+ *           type: integer
+ *           description: Stock of the book when the alert was raised
+ *         threshold:
+ *           type: integer
+ *           description: Reorder threshold of the book when the alert was raised
+ *         status:
+ *           type: string
+ *           enum: [open, acknowledged, resolved]
+ *         snoozed_until:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         acknowledged_by_id:
+ *           type: integer
+ *           nullable: true
+ *         acknowledged_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         resolved_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /stock_alert:
+ *   get:
+ *     tags:
+ *       - Stock Alert
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve low-stock alerts
+ *     description: Alerts raised for books whose stock dropped below their reorder threshold. By default only open and acknowledged alerts that are not snoozed are returned. Alerts are resolved automatically once the book is restocked.
+ *     parameters:
+ *     - in: query
+ *       name: status
+ *       schema:
+ *         type: string
+ *         enum: [open, acknowledged, resolved]
+ *     - in: query
+ *       name: include_snoozed
+ *       schema:
+ *         type: boolean
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of stock alerts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockAlert'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+stockAlertRouter.get('/',
+  query('status').optional().isIn(['open', 'acknowledged', 'resolved']),
+  query('include_snoozed').optional().isBoolean().toBoolean(),
+  listQuery({ fields: Object.values(Prisma.StockAlertScalarFieldEnum), relations: ['book'] }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const filters = matchedData<StockAlertController.StockAlertFilters>(request, { locations: ['query'] });
+      const records = await StockAlertController.getStockAlert(request.list!, filters);
+      return response.status(200).json(records);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /stock_alert/{id}/acknowledge:
+ *   post:
+ *     tags:
+ *       - Stock Alert
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Acknowledge a stock alert
+ *     description: Marks the alert as seen. It stays in the list until the book is restocked.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The acknowledged alert
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAlert'
+ *       404:
+ *         description: Stock alert not found
+ *       409:
+ *         description: The alert is already resolved
+ *       500:
+ *         description: Internal server error
+ */
+stockAlertRouter.post('/:id/acknowledge', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await StockAlertController.acknowledgeStockAlert(Number(request.params.id), request.access!.user_id);
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /stock_alert/{id}/snooze:
+ *   post:
+ *     tags:
+ *       - Stock Alert
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Snooze a stock alert
+ *     description: Hides the alert from the default list until the given time.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               until:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-01-31T09:00:00Z"
+ *             required:
+ *               - until
+ *     responses:
+ *       200:
+ *         description: The snoozed alert
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAlert'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Stock alert not found
+ *       409:
+ *         description: The alert is already resolved
+ *       500:
+ *         description: Internal server error
+ */
+stockAlertRouter.post('/:id/snooze',
+  body('until').notEmpty().isISO8601().toDate(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await StockAlertController.snoozeStockAlert(Number(request.params.id), request.body.until);
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
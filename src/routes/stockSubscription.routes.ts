@@ -0,0 +1,212 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import * as StockSubscriptionController from '../controller/stockSubscription.controller';
+import { authenticated, ownerOf, ownerScope, param, stockSubscriptionOwner } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const stockSubscriptionRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockSubscription:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         book_id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [active, triggered, notified]
+ *           description: active waits for the book, triggered waits to be sent, notified is done
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         triggered_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the book came back in stock
+ *         notified_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /stock_subscription:
+ *   post:
+ *     tags:
+ *       - Stock Subscription
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Get notified when a book is back in stock
+ *     description: |
+ *       Subscribes to an out-of-stock book. When its stock goes from zero to positive, through a book update or
+ *       any stock movement, the user is notified once. Subscribing again after the notification starts over.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               book_id:
+ *                 type: integer
+ *                 example: 1
+ *             required:
+ *               - book_id
+ *     responses:
+ *       201:
+ *         description: The subscription
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockSubscription'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Book not found
+ *       409:
+ *         description: The book is in stock
+ *       500:
+ *         description: Internal server error
+ */
+stockSubscriptionRouter.post('/',
+  ...authenticated,
+  body('book_id').notEmpty().isInt().toInt(),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await StockSubscriptionController.subscribeToStock(request.access!.user_id, request.body.book_id);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /stock_subscription:
+ *   get:
+ *     tags:
+ *       - Stock Subscription
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve back-in-stock subscriptions
+ *     description: Staff see every subscription, other users their own.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of subscriptions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockSubscription'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       500:
+ *         description: Internal server error
+ */
+stockSubscriptionRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.StockSubscriptionScalarFieldEnum), relations: ['book'] }), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const records = await StockSubscriptionController.getStockSubscription(request.list!, ownerScope(request));
+    return response.status(200).json(records);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /stock_subscription/{id}:
+ *   get:
+ *     tags:
+ *       - Stock Subscription
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a subscription by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The subscription with its book
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockSubscription'
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags:
+ *       - Stock Subscription
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Unsubscribe
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The deleted subscription
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockSubscription'
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Internal server error
+ */
+stockSubscriptionRouter.get('/:id', ...ownerOf(stockSubscriptionOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await StockSubscriptionController.getStockSubscriptionById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Subscription not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+stockSubscriptionRouter.delete('/:id', ...ownerOf(stockSubscriptionOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await StockSubscriptionController.deleteStockSubscription(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import * as UserTypeController from '../controller/userType.controller';
+import { adminOnly, authenticated } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
 
 export const userTypeRouter = express.Router();
 
@@ -10,6 +13,8 @@ export const userTypeRouter = express.Router();
  *   post:
  *     tags:
  *       - User Type
+ *     security:
+ *       - bearerAuth: []
  *     summary: Create a new user type
  *     description: Endpoint to create a new user type with specified roles and permissions.
  *     requestBody:
@@ -101,6 +106,7 @@ export const userTypeRouter = express.Router();
  *                   example: "Internal server error"
  */
 userTypeRouter.post('/',
+  ...adminOnly,
   body('title').notEmpty().isString(),
   body('is_admin').notEmpty().isBoolean(),
   body('is_menejer').notEmpty().isBoolean(),
@@ -127,6 +133,8 @@ userTypeRouter.post('/',
  *   put:
  *     tags:
  *       - User Type
+ *     security:
+ *       - bearerAuth: []
  *     summary: Update an existing user type
  *     description: Endpoint to update an existing user type with specified roles and permissions by its ID.
  *     parameters:
@@ -235,6 +243,7 @@ userTypeRouter.post('/',
  *                   example: "Internal server error"
  */
 userTypeRouter.put('/:id',
+    ...adminOnly,
     body('title').notEmpty().isString(),
     body('is_admin').notEmpty().isBoolean(),
     body('is_menejer').notEmpty().isBoolean(),
@@ -266,38 +275,53 @@ userTypeRouter.put('/:id',
  *   get:
  *     tags:
  *       - User Type
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve all user types
  *     description: Endpoint to retrieve a list of all user types with their details.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
  *     responses:
  *       200:
  *         description: A list of user types
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     description: The unique ID of the user type
- *                     example: 1
- *                   title:
- *                     type: string
- *                     description: The name of the user type
- *                     example: "Manager"
- *                   is_admin:
- *                     type: boolean
- *                     description: Indicates if the user type has admin privileges
- *                     example: false
- *                   is_menejer:
- *                     type: boolean
- *                     description: Indicates if the user type has manager privileges
- *                     example: true
- *                   is_user:
- *                     type: boolean
- *                     description: Indicates if the user type has user privileges
- *                     example: true
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         description: The unique ID of the user type
+ *                         example: 1
+ *                       title:
+ *                         type: string
+ *                         description: The name of the user type
+ *                         example: "Manager"
+ *                       is_admin:
+ *                         type: boolean
+ *                         description: Indicates if the user type has admin privileges
+ *                         example: false
+ *                       is_menejer:
+ *                         type: boolean
+ *                         description: Indicates if the user type has manager privileges
+ *                         example: true
+ *                       is_user:
+ *                         type: boolean
+ *                         description: Indicates if the user type has user privileges
+ *                         example: true
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
  *       500:
  *         description: Internal server error
  *         content:
@@ -309,9 +333,9 @@ userTypeRouter.put('/:id',
  *                   type: string
  *                   example: "Internal server error"
  */
-userTypeRouter.get('/', async (request: Request, response: Response): Promise<any> => {
+userTypeRouter.get('/', ...authenticated, listQuery({ fields: Object.values(Prisma.UserTypeScalarFieldEnum) }), async (request: Request, response: Response): Promise<any> => {
   try {
-    const records = await UserTypeController.getUserType();
+    const records = await UserTypeController.getUserType(request.list!);
     return response.status(200).json(records);
   } catch (error: any) {
     return response.status(500).json({ message: error.message });
@@ -324,6 +348,8 @@ userTypeRouter.get('/', async (request: Request, response: Response): Promise<an
  *   get:
  *     tags:
  *       - User Type
+ *     security:
+ *       - bearerAuth: []
  *     summary: Retrieve a specific user type by ID
  *     description: Endpoint to retrieve a user type's details based on its unique ID.
  *     parameters:
@@ -382,7 +408,7 @@ userTypeRouter.get('/', async (request: Request, response: Response): Promise<an
  *                   type: string
  *                   example: "Internal server error"
  */
-userTypeRouter.get('/:id', async (request: Request, response: Response): Promise<any> => {
+userTypeRouter.get('/:id', ...authenticated, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const record = await UserTypeController.getUserTypeById(Number(id));
@@ -401,6 +427,8 @@ userTypeRouter.get('/:id', async (request: Request, response: Response): Promise
  *   delete:
  *     tags:
  *       - User Type
+ *     security:
+ *       - bearerAuth: []
  *     summary: Delete a user type by ID
  *     description: Endpoint to delete a specific user type by its unique ID.
  *     parameters:
@@ -442,7 +470,7 @@ userTypeRouter.get('/:id', async (request: Request, response: Response): Promise
  *                   type: string
  *                   example: "Internal server error"
  */
-userTypeRouter.delete('/:id', async (request: Request, response: Response): Promise<any> => {
+userTypeRouter.delete('/:id', ...adminOnly, async (request: Request, response: Response): Promise<any> => {
   try {
     const { id } = request.params;
     const deletedRecord = await UserTypeController.deleteUserType(Number(id));
@@ -0,0 +1,489 @@
+import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
+import * as WishlistController from '../controller/wishlist.controller';
+import { authenticated, ownerOf, ownerScope, param, wishlistOwner } from '../middleware/access.middleware';
+import { listQuery } from '../middleware/list.middleware';
+import { errorBody, errorStatus } from '../utils/errors';
+
+export const wishlistRouter = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Wishlist:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           example: "Birthday"
+ *         shared:
+ *           type: boolean
+ *           description: The wishlist can be read through a public link
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         WishlistItem:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               book_id:
+ *                 type: integer
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *               added_at:
+ *                 type: string
+ *                 format: date-time
+ *               book:
+ *                 type: object
+ *                 description: The book with its author
+ */
+
+// The share token hash never leaves the server
+const wishlistFields = Object.values(Prisma.WishlistScalarFieldEnum).filter((field) => field !== 'share_token_hash');
+
+/**
+ * @swagger
+ * /wishlist:
+ *   post:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Create a wishlist
+ *     description: Users can keep several named wishlists.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 default: Wishlist
+ *                 example: "Birthday"
+ *     responses:
+ *       201:
+ *         description: The created wishlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Wishlist'
+ *       400:
+ *         description: Validation errors
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.post('/',
+  ...authenticated,
+  body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await WishlistController.createWishlist(request.access!.user_id, { name: request.body.name });
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wishlist:
+ *   get:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve wishlists
+ *     description: Staff see every wishlist, other users their own.
+ *     parameters:
+ *     - $ref: '#/components/parameters/limit'
+ *     - $ref: '#/components/parameters/offset'
+ *     - $ref: '#/components/parameters/cursor'
+ *     - $ref: '#/components/parameters/sort'
+ *     - $ref: '#/components/parameters/fields'
+ *     responses:
+ *       200:
+ *         description: A list of wishlists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Wishlist'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *                 links:
+ *                   $ref: '#/components/schemas/PageLinks'
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.get('/', ...authenticated, listQuery({ fields: wishlistFields }), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const records = await WishlistController.getWishlist(request.list!, ownerScope(request));
+    return response.status(200).json(records);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /wishlist/shared/{token}:
+ *   get:
+ *     tags:
+ *       - Wishlist
+ *     summary: Retrieve a shared wishlist
+ *     description: Public, anyone with the link can read the wishlist and its books.
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The wishlist with its books
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Wishlist'
+ *       404:
+ *         description: No wishlist is shared with this link
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.get('/shared/:token', async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.getSharedWishlist(String(request.params.token));
+    if (!record) {
+      return response.status(404).json({ message: 'Wishlist not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /wishlist/{id}:
+ *   get:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Retrieve a wishlist by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The wishlist with its books, most recently added first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Wishlist'
+ *       404:
+ *         description: Wishlist not found
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.get('/:id', ...ownerOf(wishlistOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.getWishlistById(Number(request.params.id));
+    if (!record) {
+      return response.status(404).json({ message: 'Wishlist not found' });
+    }
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /wishlist/{id}:
+ *   put:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Rename a wishlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *             required:
+ *               - name
+ *     responses:
+ *       200:
+ *         description: The renamed wishlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Wishlist'
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Wishlist not found
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.put('/:id',
+  ...ownerOf(wishlistOwner(param('id'))),
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await WishlistController.updateWishlist(Number(request.params.id), { name: request.body.name });
+      return response.status(200).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wishlist/{id}:
+ *   delete:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Delete a wishlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The deleted wishlist
+ *       404:
+ *         description: Wishlist not found
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.delete('/:id', ...ownerOf(wishlistOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.deleteWishlist(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /wishlist/{id}/items:
+ *   post:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Save a book to a wishlist
+ *     description: Saving a book that is already on the wishlist updates its note.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               book_id:
+ *                 type: integer
+ *                 example: 1
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "Hardcover please"
+ *             required:
+ *               - book_id
+ *     responses:
+ *       201:
+ *         description: The saved wishlist item
+ *       400:
+ *         description: Validation errors
+ *       404:
+ *         description: Wishlist or book not found
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.post('/:id/items',
+  ...ownerOf(wishlistOwner(param('id'))),
+  body('book_id').notEmpty().isInt().toInt(),
+  body('note').optional({ values: 'null' }).isString().isLength({ max: 500 }),
+  async (request: Request, response: Response): Promise<any> => {
+    const errors = validationResult(request);
+    if (!errors.isEmpty()) {
+      return response.status(400).json({ errors: errors.array() });
+    }
+    try {
+      const record = await WishlistController.addWishlistItem(Number(request.params.id), request.body.book_id, request.body.note);
+      return response.status(201).json(record);
+    } catch (error: any) {
+      return response.status(errorStatus(error)).json(errorBody(error));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wishlist/{id}/items/{bookId}:
+ *   delete:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Remove a book from a wishlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: bookId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The removed wishlist item
+ *       404:
+ *         description: Wishlist not found or the book is not on it
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.delete('/:id/items/:bookId', ...ownerOf(wishlistOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.removeWishlistItem(Number(request.params.id), Number(request.params.bookId));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+/**
+ * @swagger
+ * /wishlist/{id}/share:
+ *   post:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Share a wishlist
+ *     description: Creates a public link to the wishlist. The link is only returned here, sharing again replaces it and the old link stops working.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The wishlist with its public link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Wishlist'
+ *                 - type: object
+ *                   properties:
+ *                     share_token:
+ *                       type: string
+ *                       description: Token for GET /wishlist/shared/{token}
+ *                     share_url:
+ *                       type: string
+ *                       description: WISHLIST_SHARE_URL followed by the token, the token alone when it is not set
+ *       404:
+ *         description: Wishlist not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags:
+ *       - Wishlist
+ *     security:
+ *       - bearerAuth: []
+ *     summary: Stop sharing a wishlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The wishlist, no longer shared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Wishlist'
+ *       404:
+ *         description: Wishlist not found
+ *       500:
+ *         description: Internal server error
+ */
+wishlistRouter.post('/:id/share', ...ownerOf(wishlistOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.shareWishlist(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
+
+wishlistRouter.delete('/:id/share', ...ownerOf(wishlistOwner(param('id'))), async (request: Request, response: Response): Promise<any> => {
+  try {
+    const record = await WishlistController.unshareWishlist(Number(request.params.id));
+    return response.status(200).json(record);
+  } catch (error: any) {
+    return response.status(errorStatus(error)).json(errorBody(error));
+  }
+});
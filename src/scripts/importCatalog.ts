@@ -0,0 +1,81 @@
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+
+import prisma from '../utils/prisma';
+import {
+    ImportFormat,
+    createCatalogImport,
+    formatImportReport,
+    importReport,
+    runCatalogImport,
+} from '../controller/catalogImport.controller';
+
+const usage = 'Usage: pnpm import:catalog <file> [--format csv|jsonl] [--dry-run] [--report <file>]';
+
+const formatOf = (file: string): ImportFormat | undefined => {
+    const extension = path.extname(file).toLowerCase();
+    if (extension === '.csv') {
+        return 'csv';
+    }
+    if (extension === '.jsonl' || extension === '.ndjson') {
+        return 'jsonl';
+    }
+    return undefined;
+}
+
+/**
+ * Imports a catalog file the same way `POST /catalog_import` does, but waits for it to finish.
+ * Exits with 1 when a row failed, so it can be used in scripts.
+ */
+const main = async () => {
+    const args = process.argv.slice(2);
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index === -1 ? undefined : args.splice(index, 2)[1];
+    };
+    const dryRun = args.includes('--dry-run');
+    const format = option('--format');
+    const report = option('--report');
+    const [file] = args.filter((arg) => arg !== '--dry-run');
+
+    if (!file) {
+        console.error(usage);
+        process.exitCode = 2;
+        return;
+    }
+    const resolvedFormat = (format || formatOf(file)) as ImportFormat | undefined;
+    if (resolvedFormat !== 'csv' && resolvedFormat !== 'jsonl') {
+        console.error(`Cannot tell the format of ${file}, pass --format csv or --format jsonl`);
+        process.exitCode = 2;
+        return;
+    }
+
+    const text = await fs.promises.readFile(file, 'utf8');
+    const run = await createCatalogImport(resolvedFormat, dryRun);
+    const result = await runCatalogImport(run.id, text);
+
+    console.log(`Catalog import #${result.id}${dryRun ? ' (dry run)' : ''}: ${result.status}`);
+    console.log(`rows ${result.total_rows}, created ${result.created}, updated ${result.updated}, unchanged ${result.unchanged}, failed ${result.failed}`);
+    if (result.message) {
+        console.error(result.message);
+    }
+
+    const saved = await prisma.catalogImport.findUnique({ where: { id: run.id }, select: { report: true } });
+    const rows = importReport(saved?.report ?? null);
+    if (report) {
+        await fs.promises.writeFile(report, formatImportReport(rows));
+        console.log(`Report written to ${report}`);
+    } else {
+        process.stdout.write(formatImportReport(rows, true));
+    }
+
+    process.exitCode = result.status === 'done' && !result.failed ? 0 : 1;
+}
+
+main()
+    .catch((error) => {
+        console.error(error.message);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
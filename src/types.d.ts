@@ -1,10 +1,21 @@
 // src/types.d.ts
 import { JwtPayload } from "jsonwebtoken";
 
+import { ListQuery } from "./utils/list";
+
 declare global {
   namespace Express {
+    interface Access {
+      user_id: number;
+      is_admin: boolean;
+      is_menejer: boolean;
+      is_user: boolean;
+    }
+
     interface Request {
       user?: string | JwtPayload;
+      access?: Access;
+      list?: ListQuery;
     }
   }
 }
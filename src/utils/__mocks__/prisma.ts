@@ -0,0 +1,16 @@
+import { PrismaClient } from '@prisma/client';
+import { beforeEach } from 'vitest';
+import { mockDeep, mockReset } from 'vitest-mock-extended';
+
+/**
+ * Typed stand-in for the Prisma client, used by `vi.mock('../utils/prisma')`. Interactive
+ * transactions run their callback against the same mock.
+ */
+const prisma = mockDeep<PrismaClient>();
+
+beforeEach(() => {
+    mockReset(prisma);
+    prisma.$transaction.mockImplementation((callback) => callback(prisma));
+});
+
+export default prisma;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { HttpError } from './errors';
+import { detectBrand, isCardExpired, luhnCheck, parseCardNumber } from './cardVault';
+
+describe('luhnCheck', () => {
+    it('accepts valid numbers', () => {
+        expect(luhnCheck('4111111111111111')).toBe(true);
+        expect(luhnCheck('378282246310005')).toBe(true);
+    });
+
+    it('rejects a mistyped digit', () => {
+        expect(luhnCheck('4111111111111112')).toBe(false);
+        expect(luhnCheck('378282246310006')).toBe(false);
+    });
+});
+
+describe('detectBrand', () => {
+    it.each([
+        ['4111111111111111', 'visa'],
+        ['378282246310005', 'amex'],
+        ['5555555555554444', 'mastercard'],
+        ['2221000000000009', 'mastercard'],
+        ['6011111111111117', 'discover'],
+        ['3530111333300000', 'jcb'],
+        ['6200000000000005', 'unionpay'],
+        ['6759649826438453', 'maestro'],
+        ['5018000000000009', 'maestro'],
+        ['9999999999999995', 'unknown'],
+    ])('detects %s as %s', (pan, brand) => {
+        expect(detectBrand(pan)).toBe(brand);
+    });
+});
+
+describe('parseCardNumber', () => {
+    it('keeps only the last digits and the brand besides the number', () => {
+        expect(parseCardNumber('4111 1111-1111 1111')).toEqual({ pan: '4111111111111111', last4: '1111', brand: 'visa' });
+    });
+
+    it('rejects numbers that fail the checksum or have the wrong length', () => {
+        expect(() => parseCardNumber('4111111111111112')).toThrow(HttpError);
+        expect(() => parseCardNumber('4111 1111')).toThrow('Invalid card number');
+    });
+});
+
+describe('isCardExpired', () => {
+    it('keeps the card valid through the end of its month', () => {
+        const dateEnd = new Date('2026-05-01T00:00:00Z');
+
+        expect(isCardExpired(dateEnd, new Date('2026-05-31T23:59:59Z'))).toBe(false);
+        expect(isCardExpired(dateEnd, new Date('2026-06-01T00:00:00Z'))).toBe(true);
+    });
+});
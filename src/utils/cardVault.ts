@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+
+import { HttpError } from './errors';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'jcb' | 'unionpay' | 'maestro' | 'unknown';
+
+const brands: [CardBrand, RegExp][] = [
+    ['amex', /^3[47]/],
+    ['visa', /^4/],
+    ['mastercard', /^(5[1-5]|222[1-9]|22[3-9]|2[3-6]|27[01]|2720)/],
+    ['discover', /^(6011|65|64[4-9])/],
+    ['jcb', /^35(2[89]|[3-8])/],
+    ['unionpay', /^62/],
+    ['maestro', /^(5018|5020|5038|6304|6759|676[1-3])/],
+];
+
+export const normalizeCardNumber = (cardNumber: string) => cardNumber.replace(/[\s-]/g, '');
+
+export const luhnCheck = (pan: string) => {
+    let sum = 0;
+    for (let i = 0; i < pan.length; i++) {
+        let digit = Number(pan[pan.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+export const detectBrand = (pan: string): CardBrand => {
+    return brands.find(([, pattern]) => pattern.test(pan))?.[0] || 'unknown';
+}
+
+// Cards are valid through the end of the month of `date_end`
+export const isCardExpired = (dateEnd: Date, now = new Date()) => {
+    const endOfMonth = new Date(Date.UTC(dateEnd.getUTCFullYear(), dateEnd.getUTCMonth() + 1, 1));
+    return endOfMonth <= now;
+}
+
+/**
+ * Checks a card number typed by the user and returns what may be stored about it.
+ */
+export const parseCardNumber = (cardNumber: string) => {
+    const pan = normalizeCardNumber(cardNumber);
+    if (!/^\d{12,19}$/.test(pan) || !luhnCheck(pan)) {
+        throw new HttpError(400, 'Invalid card number');
+    }
+    return { pan, last4: pan.slice(-4), brand: detectBrand(pan) };
+}
+
+/**
+ * Keeps card numbers outside of our database. Only the returned token is stored,
+ * the payment provider charges the card by that token.
+ */
+export interface CardVault {
+    tokenize(pan: string): Promise<string>;
+    remove(token: string): Promise<void>;
+}
+
+// Development vault, numbers only live in memory of the process
+export class LocalCardVault implements CardVault {
+    private cards = new Map<string, string>();
+
+    async tokenize(pan: string) {
+        const token = `tok_${crypto.randomBytes(16).toString('hex')}`;
+        this.cards.set(token, pan);
+        return token;
+    }
+
+    async remove(token: string) {
+        this.cards.delete(token);
+    }
+
+    has(token: string) {
+        return this.cards.has(token);
+    }
+}
+
+let vault: CardVault | undefined;
+
+export const getCardVault = (): CardVault => {
+    if (!vault) {
+        vault = new LocalCardVault();
+    }
+    return vault;
+}
+
+export const setCardVault = (value: CardVault) => {
+    vault = value;
+}
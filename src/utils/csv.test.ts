@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { csvLine, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('keys records by the header', () => {
+        expect(parseCsv('isbn, title\r\n9780306406157,Physics\r\n')).toEqual([
+            { line: 2, record: { isbn: '9780306406157', title: 'Physics' } },
+        ]);
+    });
+
+    it('reads quoted commas, quotes and line breaks', () => {
+        expect(parseCsv('title,note\n"Hello, world","say ""hi""\ntwice"\nlast,x')).toEqual([
+            { line: 2, record: { title: 'Hello, world', note: 'say "hi"\ntwice' } },
+            { line: 4, record: { title: 'last', note: 'x' } },
+        ]);
+    });
+
+    it('skips blank lines and a byte order mark', () => {
+        expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([{ line: 3, record: { a: '1', b: '2' } }]);
+    });
+
+    it('fills missing fields with empty strings', () => {
+        expect(parseCsv('a,b\n1')).toEqual([{ line: 2, record: { a: '1', b: '' } }]);
+    });
+
+    it('reads what csvLine writes', () => {
+        const text = csvLine(['title', 'note']) + csvLine(['A "b", c', null]);
+        expect(parseCsv(text)).toEqual([{ line: 2, record: { title: 'A "b", c', note: '' } }]);
+    });
+});
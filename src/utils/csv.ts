@@ -0,0 +1,80 @@
+/**
+ * Parses RFC 4180 CSV: fields may be quoted, quoted fields may contain commas, line breaks
+ * and doubled quotes. The first line is the header, every record becomes an object keyed by it.
+ * `line` is the line the record starts on, so errors can point into the file.
+ */
+export const parseCsv = (text: string) => {
+    const records: { line: number; values: string[] }[] = [];
+    let values: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let start = 1;
+
+    const endRecord = () => {
+        values.push(field);
+        // Skip blank lines
+        if (values.length > 1 || values[0] !== '') {
+            records.push({ line: start, values });
+        }
+        values = [];
+        field = '';
+    };
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') {
+                    line++;
+                }
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            values.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+            line++;
+            start = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || values.length) {
+        endRecord();
+    }
+
+    const [header, ...rows] = records;
+    const columns = (header?.values || []).map((column) => column.trim());
+    return rows.map(({ line, values }) => ({
+        line,
+        record: Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])),
+    }));
+}
+
+const escape = (value: unknown) => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats one CSV line, terminated with CRLF as RFC 4180 asks.
+ */
+export const csvLine = (values: unknown[]) => {
+    return values.map(escape).join(',') + '\r\n';
+}
@@ -0,0 +1,25 @@
+/**
+ * Error carrying the HTTP status the route should answer with.
+ * Routes fall back to 500 for everything else.
+ */
+export class HttpError extends Error {
+    status: number;
+    details?: unknown;
+
+    constructor(status: number, message: string, details?: unknown) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+export const errorBody = (error: any) => {
+    return error instanceof HttpError && error.details !== undefined
+        ? { message: error.message, details: error.details }
+        : { message: error.message };
+}
+
+export const errorStatus = (error: any): number => {
+    return error instanceof HttpError ? error.status : 500;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+
+import { HttpError } from './errors';
+import { parseIsbn } from './isbn';
+
+describe('parseIsbn', () => {
+    it('derives the ISBN-13 of an ISBN-10', () => {
+        expect(parseIsbn('0-306-40615-2')).toEqual({ isbn_13: '9780306406157', isbn_10: '0306406152' });
+    });
+
+    it('derives the ISBN-10 of a 978 ISBN-13', () => {
+        expect(parseIsbn('978 0 306 40615 7')).toEqual({ isbn_13: '9780306406157', isbn_10: '0306406152' });
+    });
+
+    it('accepts a lower-case X check digit', () => {
+        expect(parseIsbn('080442957x')).toEqual({ isbn_13: '9780804429573', isbn_10: '080442957X' });
+    });
+
+    it('has no ISBN-10 for a 979 ISBN-13', () => {
+        expect(parseIsbn('979-10-90636-07-1')).toEqual({ isbn_13: '9791090636071', isbn_10: null });
+    });
+
+    it('rejects a wrong check digit', () => {
+        expect(() => parseIsbn('0306406153')).toThrow(HttpError);
+        expect(() => parseIsbn('9780306406158')).toThrow('Invalid ISBN');
+    });
+});
@@ -0,0 +1,51 @@
+import { HttpError } from "./errors";
+
+export type Isbn = { isbn_13: string; isbn_10: string | null };
+
+/**
+ * Strips hyphens and spaces and upper-cases the ISBN-10 check digit `x`.
+ */
+export const normalizeIsbn = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+export const isValidIsbn10 = (isbn: string) => {
+    if (!/^\d{9}[\dX]$/.test(isbn)) {
+        return false;
+    }
+    const sum = [...isbn].reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+    return sum % 11 === 0;
+}
+
+const isbn13CheckDigit = (first12: string) => {
+    const sum = [...first12].reduce((total, char, index) => total + Number(char) * (index % 2 ? 3 : 1), 0);
+    return String((10 - (sum % 10)) % 10);
+}
+
+export const isValidIsbn13 = (isbn: string) => {
+    return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+export const isValidIsbn = (value: string) => {
+    const isbn = normalizeIsbn(value);
+    return isValidIsbn10(isbn) || isValidIsbn13(isbn);
+}
+
+/**
+ * Both forms of a valid ISBN-10 or ISBN-13. Only 978 ISBN-13s have an ISBN-10 counterpart.
+ */
+export const parseIsbn = (value: string): Isbn => {
+    const isbn = normalizeIsbn(value);
+    if (isValidIsbn13(isbn)) {
+        if (!isbn.startsWith('978')) {
+            return { isbn_13: isbn, isbn_10: null };
+        }
+        const first9 = isbn.slice(3, 12);
+        const sum = [...first9].reduce((total, char, index) => total + Number(char) * (10 - index), 0);
+        const check = (11 - (sum % 11)) % 11;
+        return { isbn_13: isbn, isbn_10: first9 + (check === 10 ? 'X' : String(check)) };
+    }
+    if (isValidIsbn10(isbn)) {
+        const first12 = '978' + isbn.slice(0, 9);
+        return { isbn_13: first12 + isbn13CheckDigit(first12), isbn_10: isbn };
+    }
+    throw new HttpError(400, 'Invalid ISBN');
+}
@@ -0,0 +1,21 @@
+/**
+ * Runs `task` in the background every `seconds`. A run is skipped while the previous one is still going.
+ */
+export const every = (name: string, seconds: number, task: () => Promise<unknown>) => {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            await task();
+        } catch (error: any) {
+            console.error(`Job ${name} failed:`, error.message);
+        } finally {
+            running = false;
+        }
+    }, seconds * 1000);
+    timer.unref();
+    return timer;
+}
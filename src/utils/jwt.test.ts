@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import prisma from './__mocks__/prisma';
+import { generateRefreshToken, hashToken, isTokenRevoked } from './jwt';
+
+vi.mock('./prisma');
+
+describe('generateRefreshToken', () => {
+    it('returns the token once and keeps only its hash', () => {
+        const refreshToken = generateRefreshToken();
+
+        expect(refreshToken.token_hash).toBe(hashToken(refreshToken.token));
+        expect(refreshToken.token_hash).not.toBe(refreshToken.token);
+        expect(refreshToken.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+});
+
+describe('isTokenRevoked', () => {
+    it('finds tokens on the revocation list', async () => {
+        prisma.revokedToken.findUnique.mockResolvedValue({ id: 1, jti: 'token-1', expires_at: new Date(), created_at: new Date() });
+
+        expect(await isTokenRevoked({ jti: 'token-1', sid: 'session-1' })).toBe(true);
+        expect(prisma.session.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('checks the session of the token', async () => {
+        prisma.revokedToken.findUnique.mockResolvedValue(null);
+        prisma.session.findUnique.mockResolvedValue({ id: 'session-1', user_id: 1, created_at: new Date(), revoked_at: null });
+        expect(await isTokenRevoked({ jti: 'token-1', sid: 'session-1' })).toBe(false);
+
+        prisma.session.findUnique.mockResolvedValue({ id: 'session-1', user_id: 1, created_at: new Date(), revoked_at: new Date() });
+        expect(await isTokenRevoked({ jti: 'token-1', sid: 'session-1' })).toBe(true);
+
+        prisma.session.findUnique.mockResolvedValue(null);
+        expect(await isTokenRevoked({ sid: 'session-2' })).toBe(true);
+    });
+
+    it('accepts tokens issued before sessions existed', async () => {
+        expect(await isTokenRevoked({ id: 1 })).toBe(false);
+    });
+});
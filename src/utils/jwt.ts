@@ -1,10 +1,56 @@
 import { User } from "@prisma/client";
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 
-const SecretKey = process.env.SECRET_KEY || 'secret';
+import prisma from './prisma';
 
-export const generateToken =(user: User) => {
-    return jwt.sign({ id: user.id, username: user.login }, SecretKey, {
-      expiresIn: process.env.TOKEN_EXPIRES_IN,
+export const SecretKey = process.env.SECRET_KEY || 'secret';
+
+const refreshTokenDays = Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS) || 30;
+
+export const generateToken =(user: User, sessionId?: string) => {
+    return jwt.sign({ id: user.id, username: user.login, sid: sessionId }, SecretKey, {
+      expiresIn: (process.env.TOKEN_EXPIRES_IN || '15m') as SignOptions['expiresIn'],
+      jwtid: crypto.randomUUID(),
     });
-}
\ No newline at end of file
+}
+
+export const hashToken = (token: string) => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Random opaque token for links and refresh tokens. Only `hashToken(token)` should be stored.
+ */
+export const randomToken = () => {
+    return crypto.randomBytes(48).toString('base64url');
+}
+
+/**
+ * Opaque refresh token. Only its hash is stored, the token itself is returned to the client once.
+ */
+export const generateRefreshToken = () => {
+    const token = randomToken();
+    return {
+      token,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + refreshTokenDays * 24 * 60 * 60 * 1000),
+    };
+}
+
+/**
+ * An access token is revoked when its id is on the revocation list or its session was closed.
+ */
+export const isTokenRevoked = async (payload: JwtPayload) => {
+    if (payload.jti) {
+      const revoked = await prisma.revokedToken.findUnique({ where: { jti: payload.jti } });
+      if (revoked) {
+        return true;
+      }
+    }
+    if (payload.sid) {
+      const session = await prisma.session.findUnique({ where: { id: payload.sid } });
+      return !session || session.revoked_at !== null;
+    }
+    return false;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { HttpError } from './errors';
+import { DEFAULT_LIMIT, ListConfig, findManyArgs, parseListQuery, toPage } from './list';
+
+const config: ListConfig = { fields: ['id', 'title', 'price'], relations: ['author'], defaultSort: '-id' };
+
+const parse = (query: Record<string, unknown>) => parseListQuery(query, config, '/api/book');
+
+describe('parseListQuery', () => {
+    it('falls back to the defaults', () => {
+        expect(parse({})).toMatchObject({ limit: DEFAULT_LIMIT, offset: 0, sort: [{ field: 'id', order: 'desc' }], relations: ['author'] });
+    });
+
+    it('reads the sort order and the selected fields', () => {
+        expect(parse({ sort: '-price,title', fields: 'title, author' })).toMatchObject({
+            sort: [{ field: 'price', order: 'desc' }, { field: 'title', order: 'asc' }],
+            fields: ['title', 'author'],
+            relations: ['author'],
+        });
+        expect(parse({ fields: 'title' }).relations).toEqual([]);
+    });
+
+    it('rejects unknown fields and limits out of range', () => {
+        expect(() => parse({ sort: 'password' })).toThrow(HttpError);
+        expect(() => parse({ fields: 'password' })).toThrow('Invalid list parameters');
+        expect(() => parse({ limit: '1000' })).toThrow(HttpError);
+        expect(() => parse({ offset: '-1' })).toThrow(HttpError);
+    });
+});
+
+describe('findManyArgs', () => {
+    it('orders by id last so pages are stable', () => {
+        expect(findManyArgs(parse({ sort: 'price', limit: '5', offset: '10' }))).toEqual({
+            include: { author: true },
+            orderBy: [{ price: 'asc' }, { id: 'asc' }],
+            take: 5,
+            skip: 10,
+        });
+    });
+
+    it('selects the requested fields and the id', () => {
+        expect(findManyArgs(parse({ fields: 'title,author' }))).toMatchObject({ select: { id: true, title: true, author: true } });
+    });
+
+    it('continues after the cursor', () => {
+        expect(findManyArgs(parse({ cursor: '40' }))).toMatchObject({ cursor: { id: 40 }, skip: 1 });
+    });
+});
+
+describe('toPage', () => {
+    const records = [{ id: 3 }, { id: 2 }];
+
+    it('links the next offset page while records are left', () => {
+        const page = toPage(parse({ limit: '2', q: 'dune' }), records, 5);
+
+        expect(page.meta).toEqual({ total: 5, limit: 2, offset: 0, cursor: null, next_cursor: 2 });
+        expect(page.links.next).toBe('/api/book?limit=2&q=dune&offset=2');
+    });
+
+    it('links the next cursor page after a full page', () => {
+        const page = toPage(parse({ limit: '2', cursor: '4' }), records, 5);
+
+        expect(page.links.next).toBe('/api/book?limit=2&cursor=2');
+    });
+
+    it('has no next page at the end', () => {
+        const page = toPage(parse({ limit: '2', offset: '4' }), [{ id: 1 }], 5);
+
+        expect(page.meta.next_cursor).toBeNull();
+        expect(page.links.next).toBeNull();
+    });
+});
@@ -0,0 +1,156 @@
+import { HttpError } from "./errors";
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+export type ListConfig = {
+    // Scalar fields that may be used in `sort` and `fields`
+    fields: string[];
+    // Relations returned by default and selectable through `fields`
+    relations?: string[];
+    defaultSort?: string;
+};
+
+export type ListQuery = {
+    limit: number;
+    offset: number;
+    cursor?: number;
+    sort: { field: string; order: SortOrder }[];
+    fields?: string[];
+    relations: string[];
+    path: string;
+    query: Record<string, string>;
+};
+
+/**
+ * Parses `limit`, `offset`, `cursor`, `sort` and `fields` of a list request.
+ *
+ * `sort` is a comma separated list of fields, a leading `-` sorts descending: `sort=-price,title`.
+ * `fields` limits the returned fields and relations: `fields=id,title,author`.
+ * `cursor` is the id of the last record of the previous page and takes precedence over `offset`.
+ */
+export const parseListQuery = (query: Record<string, unknown>, config: ListConfig, path: string): ListQuery => {
+    const errors: string[] = [];
+    const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string).trim() : undefined);
+    const integer = (key: string, min: number, max = Number.MAX_SAFE_INTEGER) => {
+        const value = text(key);
+        if (value === undefined || value === '') {
+            return undefined;
+        }
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < min || number > max) {
+            errors.push(`${key} must be an integer between ${min} and ${max}`);
+            return undefined;
+        }
+        return number;
+    };
+    const relations = config.relations || [];
+
+    const limit = integer('limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT;
+    const offset = integer('offset', 0) ?? 0;
+    const cursor = integer('cursor', 1);
+
+    const sort = (text('sort') || config.defaultSort || '').split(',').filter(Boolean).map((item) => {
+        const field = item.replace(/^[-+]/, '');
+        if (!config.fields.includes(field)) {
+            errors.push(`Cannot sort by "${field}"`);
+        }
+        return { field, order: (item.startsWith('-') ? 'desc' : 'asc') as SortOrder };
+    });
+
+    let fields: string[] | undefined;
+    if (text('fields')) {
+        fields = (text('fields') as string).split(',').map((field) => field.trim()).filter(Boolean);
+        fields.filter((field) => !config.fields.includes(field) && !relations.includes(field))
+            .forEach((field) => errors.push(`Unknown field "${field}"`));
+    }
+
+    if (errors.length) {
+        throw new HttpError(400, 'Invalid list parameters', errors);
+    }
+
+    const passthrough = Object.fromEntries(
+        Object.entries(query).filter(([, value]) => typeof value === 'string') as [string, string][],
+    );
+
+    return {
+        limit,
+        offset,
+        cursor,
+        sort,
+        fields,
+        relations: fields ? relations.filter((relation) => fields?.includes(relation)) : relations,
+        path,
+        query: passthrough,
+    };
+}
+
+export type FindManyArgs = {
+    select?: Record<string, boolean>;
+    include?: Record<string, boolean>;
+    orderBy: Record<string, SortOrder>[];
+    take: number;
+    skip: number;
+    cursor?: { id: number };
+};
+
+/**
+ * Prisma `findMany` arguments for the list. Records are always ordered by `id` last,
+ * so pages are stable and the id can serve as the cursor.
+ */
+export const findManyArgs = (list: ListQuery): FindManyArgs => {
+    const orderBy: Record<string, SortOrder>[] = list.sort.map(({ field, order }) => ({ [field]: order }));
+    if (!list.sort.some(({ field }) => field === 'id')) {
+        orderBy.push({ id: 'asc' });
+    }
+
+    const relations = Object.fromEntries(list.relations.map((relation) => [relation, true]));
+    const shape = list.fields
+        ? { select: { id: true, ...Object.fromEntries(list.fields.map((field) => [field, true])), ...relations } }
+        : list.relations.length ? { include: relations } : {};
+
+    return {
+        ...shape,
+        orderBy,
+        take: list.limit,
+        ...(list.cursor ? { cursor: { id: list.cursor }, skip: 1 } : { skip: list.offset }),
+    };
+}
+
+const link = (list: ListQuery, params: Record<string, string | number>) => {
+    const query = new URLSearchParams({ ...list.query, ...Object.fromEntries(Object.entries(params).map(([k, v]) => [k, String(v)])) });
+    return `${list.path}?${query.toString()}`;
+}
+
+/**
+ * Wraps a page of records into the envelope shared by all list endpoints.
+ */
+export const toPage = <T extends { id: number }>(list: ListQuery, data: T[], total: number) => {
+    const hasMore = list.cursor ? data.length === list.limit : list.offset + data.length < total;
+    const nextCursor = hasMore && data.length ? data[data.length - 1].id : null;
+    const { cursor, offset, ...rest } = list.query;
+
+    let next: string | null = null;
+    if (hasMore) {
+        next = list.cursor
+            ? link({ ...list, query: rest }, { cursor: nextCursor as number, limit: list.limit })
+            : link({ ...list, query: rest }, { offset: list.offset + list.limit, limit: list.limit });
+    }
+
+    return {
+        data,
+        meta: {
+            total,
+            limit: list.limit,
+            offset: list.cursor ? null : list.offset,
+            cursor: list.cursor || null,
+            next_cursor: nextCursor,
+        },
+        links: {
+            self: link({ ...list, query: rest }, list.cursor ? { cursor: list.cursor, limit: list.limit } : { offset: list.offset, limit: list.limit }),
+            next,
+        },
+    };
+}
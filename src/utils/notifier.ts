@@ -0,0 +1,68 @@
+import fs from 'fs';
+
+export type Notification = {
+    to: string;
+    subject: string;
+    text: string;
+};
+
+/**
+ * Delivery channel for messages to users. The implementation is picked with the
+ * NOTIFIER env variable and can be replaced at runtime with `setNotifier`.
+ */
+export interface Notifier {
+    send(notification: Notification): Promise<void>;
+}
+
+export class ConsoleNotifier implements Notifier {
+    async send(notification: Notification) {
+        console.log(`NOTIFY to=${notification.to} subject="${notification.subject}"\n${notification.text}`);
+    }
+}
+
+// Appends every message as a JSON line, handy for local development
+export class FileNotifier implements Notifier {
+    constructor(private file: string) {}
+
+    async send(notification: Notification) {
+        const line = JSON.stringify({ ...notification, sent_at: new Date().toISOString() });
+        await fs.promises.appendFile(this.file, line + '\n');
+    }
+}
+
+// Keeps messages in memory, so tests can read what would have been sent
+export class MemoryNotifier implements Notifier {
+    sent: Notification[] = [];
+
+    async send(notification: Notification) {
+        this.sent.push(notification);
+    }
+}
+
+const fromEnv = (): Notifier => {
+    switch (process.env.NOTIFIER) {
+        case 'memory':
+            return new MemoryNotifier();
+        case 'file':
+            return new FileNotifier(process.env.NOTIFIER_FILE || 'notifications.log');
+        default:
+            return new ConsoleNotifier();
+    }
+}
+
+let notifier: Notifier | undefined;
+
+export const getNotifier = (): Notifier => {
+    if (!notifier) {
+        notifier = fromEnv();
+    }
+    return notifier;
+}
+
+export const setNotifier = (value: Notifier) => {
+    notifier = value;
+}
+
+export const notify = (notification: Notification) => {
+    return getNotifier().send(notification);
+}
@@ -0,0 +1,52 @@
+import { OrderStatus } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+
+import { StatusKind, canTransition, statusKind } from './orderWorkflow';
+
+const status = (flags: Partial<OrderStatus>): OrderStatus => ({
+    id: 1,
+    title: 'Status',
+    is_done: false,
+    is_awaiting_payment: false,
+    is_paid: false,
+    is_confirmed: false,
+    is_performed: false,
+    is_canceled: false,
+    ...flags,
+});
+
+describe('statusKind', () => {
+    it('resolves a status by its flag', () => {
+        expect(statusKind(status({ is_paid: true }))).toBe('is_paid');
+    });
+
+    it('resolves several flags to the furthest one', () => {
+        expect(statusKind(status({ is_paid: true, is_confirmed: true }))).toBe('is_confirmed');
+        expect(statusKind(status({ is_done: true, is_canceled: true }))).toBe('is_canceled');
+    });
+
+    it('returns null for a status without flags', () => {
+        expect(statusKind(status({}))).toBeNull();
+    });
+});
+
+describe('canTransition', () => {
+    it('moves an order forward one step at a time', () => {
+        const path: StatusKind[] = ['is_awaiting_payment', 'is_paid', 'is_confirmed', 'is_performed', 'is_done'];
+        path.slice(1).forEach((to, index) => expect(canTransition(path[index], to)).toBe(true));
+        expect(canTransition('is_awaiting_payment', 'is_confirmed')).toBe(false);
+        expect(canTransition('is_confirmed', 'is_paid')).toBe(false);
+    });
+
+    it('cancels only orders that were not performed yet', () => {
+        expect(canTransition('is_awaiting_payment', 'is_canceled')).toBe(true);
+        expect(canTransition('is_confirmed', 'is_canceled')).toBe(true);
+        expect(canTransition('is_performed', 'is_canceled')).toBe(false);
+    });
+
+    it('leaves final statuses and unknown ones alone', () => {
+        expect(canTransition('is_done', 'is_canceled')).toBe(false);
+        expect(canTransition('is_canceled', 'is_awaiting_payment')).toBe(false);
+        expect(canTransition(null, 'is_paid')).toBe(false);
+    });
+});
@@ -0,0 +1,33 @@
+import { OrderStatus } from "@prisma/client";
+
+export type StatusKind = 'is_awaiting_payment' | 'is_paid' | 'is_confirmed' | 'is_performed' | 'is_done' | 'is_canceled';
+
+export type OrderAction = 'pay' | 'confirm' | 'perform' | 'complete' | 'cancel';
+
+// Checked in this order, so a status row with several flags resolves to the furthest one
+const kindPrecedence: StatusKind[] = ['is_canceled', 'is_done', 'is_performed', 'is_confirmed', 'is_paid', 'is_awaiting_payment'];
+
+export const actionTargets: Record<OrderAction, StatusKind> = {
+    pay: 'is_paid',
+    confirm: 'is_confirmed',
+    perform: 'is_performed',
+    complete: 'is_done',
+    cancel: 'is_canceled',
+};
+
+export const transitions: Record<StatusKind, StatusKind[]> = {
+    is_awaiting_payment: ['is_paid', 'is_canceled'],
+    is_paid: ['is_confirmed', 'is_canceled'],
+    is_confirmed: ['is_performed', 'is_canceled'],
+    is_performed: ['is_done'],
+    is_done: [],
+    is_canceled: [],
+};
+
+export const statusKind = (status: OrderStatus): StatusKind | null => {
+    return kindPrecedence.find((kind) => status[kind]) || null;
+}
+
+export const canTransition = (from: StatusKind | null, to: StatusKind): boolean => {
+    return from !== null && transitions[from].includes(to);
+}
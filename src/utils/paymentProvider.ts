@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+
+import { HttpError } from './errors';
+
+export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'declined' | 'voided' | 'partially_refunded' | 'refunded';
+
+// A payment in these statuses may still take or holds money of the customer, its order must not be canceled
+export const openPaymentStatuses: PaymentStatus[] = ['pending', 'authorized', 'captured', 'partially_refunded'];
+
+export type AuthorizeRequest = {
+    paymentId: number;
+    amount: number;
+    currency: string;
+    cardToken: string;
+    idempotencyKey: string;
+};
+
+export type ProviderResult = {
+    ok: boolean;
+    reference: string;
+    message?: string;
+};
+
+export type WebhookEventType = 'payment.captured' | 'payment.declined' | 'payment.voided' | 'payment.refunded';
+
+/**
+ * Callback from the provider. `payment_id` is our id sent with `authorize`, so events can be matched
+ * even when the provider never answered the call itself. `amount` of a refund is the total refunded so far.
+ */
+export type WebhookEvent = {
+    id: string;
+    type: WebhookEventType;
+    payment_id: number;
+    reference?: string;
+    amount?: number;
+    message?: string;
+};
+
+/**
+ * Payment gateway. Providers are registered by name, the name is stored on every payment
+ * and used in the webhook URL: `/payment/webhook/:provider`.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    authorize(request: AuthorizeRequest): Promise<ProviderResult>;
+    capture(reference: string, amount: number): Promise<ProviderResult>;
+    // A refund repeated with the same `idempotencyKey` is not made twice
+    refund(reference: string, amount: number, idempotencyKey?: string): Promise<ProviderResult>;
+    void(reference: string): Promise<ProviderResult>;
+    // Checks the signature of a callback over its raw body, throws when it is not from the provider
+    parseWebhook(signature: string | undefined, body: Buffer): WebhookEvent;
+}
+
+export class PaymentTimeoutError extends Error {
+    constructor() {
+        super('Payment provider did not answer in time');
+        this.name = 'PaymentTimeoutError';
+    }
+}
+
+const timeoutMs = Number(process.env.PAYMENT_TIMEOUT_MS) || 10000;
+
+export const withTimeout = <T>(promise: Promise<T>, ms = timeoutMs): Promise<T> => {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new PaymentTimeoutError()), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export type MockOutcome = 'success' | 'decline' | 'timeout';
+
+const webhookTypes: WebhookEventType[] = ['payment.captured', 'payment.declined', 'payment.voided', 'payment.refunded'];
+
+/**
+ * Local gateway for development and tests. Depending on `outcome` every authorization succeeds,
+ * is declined or never answers. Webhooks are signed with an HMAC of the raw JSON body.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+    readonly name = 'mock';
+
+    constructor(
+        public outcome: MockOutcome = 'success',
+        private secret = process.env.PAYMENT_WEBHOOK_SECRET || 'mock-webhook-secret',
+    ) {}
+
+    private respond(result: ProviderResult): Promise<ProviderResult> {
+        if (this.outcome === 'timeout') {
+            return new Promise(() => {});
+        }
+        return Promise.resolve(result);
+    }
+
+    authorize(request: AuthorizeRequest) {
+        const reference = `mock_${crypto.randomBytes(12).toString('hex')}`;
+        return this.respond(this.outcome === 'decline'
+            ? { ok: false, reference, message: 'Card declined' }
+            : { ok: true, reference });
+    }
+
+    capture(reference: string, amount: number) {
+        return this.respond({ ok: true, reference });
+    }
+
+    refund(reference: string, amount: number, idempotencyKey?: string) {
+        return this.respond({ ok: true, reference });
+    }
+
+    void(reference: string) {
+        return this.respond({ ok: true, reference });
+    }
+
+    sign(body: string | Buffer) {
+        return crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+    }
+
+    parseWebhook(signature: string | undefined, body: Buffer): WebhookEvent {
+        const expected = Buffer.from(this.sign(body));
+        if (!signature || signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), expected)) {
+            throw new HttpError(401, 'Invalid webhook signature');
+        }
+        let event: WebhookEvent;
+        try {
+            event = JSON.parse(body.toString('utf8'));
+        } catch {
+            throw new HttpError(400, 'Invalid webhook event');
+        }
+        if (typeof event?.id !== 'string' || !webhookTypes.includes(event.type) || !Number.isInteger(event.payment_id)) {
+            throw new HttpError(400, 'Invalid webhook event');
+        }
+        return event;
+    }
+}
+
+const providers = new Map<string, PaymentProvider>();
+
+export const setPaymentProvider = (provider: PaymentProvider) => {
+    providers.set(provider.name, provider);
+}
+
+/**
+ * Returns the provider with the given name, or the one new payments go to (PAYMENT_PROVIDER, `mock` by default).
+ */
+export const getPaymentProvider = (name = process.env.PAYMENT_PROVIDER || 'mock'): PaymentProvider => {
+    if (!providers.has('mock')) {
+        setPaymentProvider(new MockPaymentProvider((process.env.MOCK_PAYMENT_OUTCOME as MockOutcome) || 'success'));
+    }
+    const provider = providers.get(name);
+    if (!provider) {
+        throw new HttpError(404, `Unknown payment provider "${name}"`);
+    }
+    return provider;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildTsQuery } from './search';
+
+describe('buildTsQuery', () => {
+    it('joins words with AND', () => {
+        expect(buildTsQuery('Great Gatsby')).toBe('great & gatsby');
+    });
+
+    it('keeps quoted phrases in order', () => {
+        expect(buildTsQuery('"the great gatsby" novel')).toBe('(the <-> great <-> gatsby) & novel');
+    });
+
+    it('matches words ending with * as a prefix', () => {
+        expect(buildTsQuery('gats*')).toBe('gats:*');
+    });
+
+    it('matches the last word as a prefix while typing', () => {
+        expect(buildTsQuery('great gats', true)).toBe('great & gats:*');
+    });
+
+    it('excludes words starting with -', () => {
+        expect(buildTsQuery('gatsby -musical', true)).toBe('gatsby & !musical');
+    });
+
+    it('strips tsquery syntax from the input', () => {
+        expect(buildTsQuery("o'brien & (war | peace)")).toBe('(o <-> brien) & war & peace');
+    });
+
+    it('returns null when nothing searchable is left', () => {
+        expect(buildTsQuery('  ')).toBeNull();
+        expect(buildTsQuery('&& !!')).toBeNull();
+        expect(buildTsQuery('-musical')).toBeNull();
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Turns a search box string into a `to_tsquery` expression.
+ *
+ * - `"the great gatsby"` is a phrase, its words must follow each other
+ * - `gats*` matches every word starting with `gats`
+ * - `-musical` excludes books containing the word
+ * - with `prefix` the last plain word is matched as a prefix, so the query works while typing
+ *
+ * Words are reduced to letters and digits, so user input never reaches the tsquery parser as syntax.
+ * Returns `null` when nothing searchable is left.
+ */
+export const buildTsQuery = (input: string, prefix = false): string | null => {
+    const words = (text: string) => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean).map((word) => word.toLowerCase());
+    const tokens = [...input.matchAll(/"([^"]*)"?|(\S+)/g)];
+    const terms: string[] = [];
+
+    tokens.forEach((token, index) => {
+        const [, phrase, word] = token;
+
+        if (phrase !== undefined) {
+            const parts = words(phrase);
+            if (parts.length) {
+                terms.push(parts.length > 1 ? `(${parts.join(' <-> ')})` : parts[0]);
+            }
+            return;
+        }
+
+        const negated = word.startsWith('-');
+        const isPrefix = word.endsWith('*') || (prefix && !negated && index === tokens.length - 1);
+        const parts = words(word);
+        if (!parts.length) {
+            return;
+        }
+
+        const last = parts.length - 1;
+        const expression = parts.map((part, i) => (i === last && isPrefix ? `${part}:*` : part)).join(' <-> ');
+        const term = parts.length > 1 ? `(${expression})` : expression;
+        terms.push(negated ? `!${term}` : term);
+    });
+
+    // A query made only of exclusions would match almost everything
+    if (!terms.some((term) => !term.startsWith('!'))) {
+        return null;
+    }
+
+    return terms.join(' & ');
+}
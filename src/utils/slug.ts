@@ -0,0 +1,12 @@
+/**
+ * URL-safe lower-case slug: accents are dropped and every other run of non-alphanumerics becomes a dash.
+ */
+export const slugify = (text: string, fallback = 'item') => {
+    const slug = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    return slug || fallback;
+}